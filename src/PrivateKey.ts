@@ -1,39 +1,54 @@
 import { BNInput, ec as EC } from 'elliptic';
+import { sha512 } from 'hash.js';
 import {
+    convertLegacyPublicKey,
     Key,
     KeyType,
     privateKeyToLegacyString,
     privateKeyToString,
     stringToPrivateKey,
 } from './eosjs-numeric';
+import { messageDigest } from './eosjs-crypto';
+import { CryptoBackend, getDefaultCryptoBackend, SyncCryptoBackend } from './eosjs-crypto-backend';
 import { constructElliptic, PublicKey, Signature } from './eosjs-key-conversions';
+import { decryptKey, encryptKey, Keystore, KeystoreOptions } from './eosjs-keystore';
+import { hashTypedMessage, MessageSigningOptions, TypedMessage } from './eosjs-message-signing';
 
-/** Represents/stores a private key and provides easy conversion for use with `elliptic` lib */
+/**
+ * Represents/stores a private key and provides easy conversion for use with `elliptic` lib.
+ * Keys are derived and messages signed with `backend`, the default crypto backend unless given
+ */
 export class PrivateKey {
-    constructor(private key: Key, private ec: EC) {}
+    constructor(private key: Key, private ec?: EC, private backend: SyncCryptoBackend = getDefaultCryptoBackend()) {}
 
     /** Instantiate private key from an `elliptic`-format private key */
     public static fromElliptic(privKey: EC.KeyPair, keyType: KeyType, ec?: EC): PrivateKey {
-        if (!ec) {
-            ec = constructElliptic(keyType);
-        }
         return new PrivateKey({
             type: keyType,
-            data: privKey.getPrivate().toArrayLike(Buffer, 'be', 32),
+            data: new Uint8Array(privKey.getPrivate().toArray('be', 32)),
         }, ec);
     }
 
     /** Instantiate private key from an EOSIO-format private key */
-    public static fromString(keyString: string, ec?: EC): PrivateKey {
-        const privateKey = stringToPrivateKey(keyString);
-        if (!ec) {
-            ec = constructElliptic(privateKey.type);
+    public static fromString(keyString: string, ec?: EC, backend?: SyncCryptoBackend): PrivateKey {
+        return new PrivateKey(stringToPrivateKey(keyString), ec, backend);
+    }
+
+    /** Decrypt the private key of `keystore` with `password` */
+    public static decrypt(keystore: Keystore, password: string, ec?: EC): PrivateKey {
+        const key = decryptKey(keystore, password);
+        const privateKey = new PrivateKey(key, ec);
+        if (privateKey.getPublicKey().toString() !== convertLegacyPublicKey(keystore.publicKey)) {
+            throw new Error(`Keystore of ${keystore.publicKey} holds another key`);
         }
-        return new PrivateKey(privateKey, ec);
+        return privateKey;
     }
 
     /** Export private key as `elliptic`-format private key */
     public toElliptic(): EC.KeyPair {
+        if (!this.ec) {
+            this.ec = constructElliptic(this.key.type);
+        }
         return this.ec.keyFromPrivate(this.key.data);
     }
 
@@ -46,6 +61,11 @@ export class PrivateKey {
         return privateKeyToString(this.key);
     }
 
+    /** Encrypt private key with `password` into a keystore */
+    public encrypt(password: string, options: KeystoreOptions = {}): Keystore {
+        return encryptKey(this.key, this.getPublicKey().toString(), password, options);
+    }
+
     /** Get key type from key */
     public getType(): KeyType {
         return this.key.type;
@@ -53,45 +73,40 @@ export class PrivateKey {
 
     /** Retrieve the public key from a private key */
     public getPublicKey(): PublicKey {
-        const ellipticPrivateKey = this.toElliptic();
-        return PublicKey.fromElliptic(ellipticPrivateKey, this.getType(), this.ec);
+        return new PublicKey(this.backend.getPublicKeySync(this.key), this.ec, this.backend);
+    }
+
+    /** Get the ECDH shared secret with `publicKey`: the sha512 of the x coordinate of the shared point, as eosjs-ecc did */
+    public getSharedSecret(publicKey: PublicKey): Uint8Array {
+        const x = this.backend.deriveSharedSecret(this.key, { type: publicKey.getType(), data: publicKey.toBinary() });
+        return new Uint8Array(sha512().update(x).digest());
     }
 
     /** Sign a message or hashed message digest with private key */
     public sign(data: BNInput, shouldHash: boolean = true, encoding: BufferEncoding = 'utf8'): Signature {
-        if (shouldHash) {
-            if (typeof data === 'string') {
-                data = Buffer.from(data, encoding);
-            }
-            data = this.ec.hash().update(data).digest();
-        }
-        let tries = 0;
-        let signature: Signature;
-        const isCanonical = (sigData: Uint8Array): boolean =>
-            !(sigData[1] & 0x80) && !(sigData[1] === 0 && !(sigData[2] & 0x80))
-            && !(sigData[33] & 0x80) && !(sigData[33] === 0 && !(sigData[34] & 0x80));
-        const constructSignature = (options: EC.SignOptions): Signature => {
-            const ellipticPrivateKey = this.toElliptic();
-            const ellipticSignature = ellipticPrivateKey.sign(data, options);
-            return Signature.fromElliptic(ellipticSignature, this.getType(), this.ec);
-        };
-
-        if (this.key.type === KeyType.k1) {
-            do {
-                signature = constructSignature({canonical: true, pers: [++tries]});
-            } while (!isCanonical(signature.toBinary()));
-        } else {
-            signature = constructSignature({canonical: true});
-        }
-        return signature;
+        return new Signature(this.backend.signDigest(this.key, messageDigest(data, shouldHash, encoding)), this.ec, this.backend);
+    }
+
+    /** Get public key from private key with a crypto backend, see `eosjs-crypto-backend` */
+    public async getPublicKeyAsync(backend: CryptoBackend = this.backend): Promise<PublicKey> {
+        return new PublicKey(await backend.getPublicKey(this.key), this.ec, this.backend);
+    }
+
+    /** Sign the sha256 of `data` with a crypto backend */
+    public async signAsync(data: Uint8Array, backend: CryptoBackend = this.backend): Promise<Signature> {
+        return new Signature(await backend.sign(this.key, data), this.ec, this.backend);
+    }
+
+    /** Sign the digest of a typed message, see `eosjs-message-signing` */
+    public signTypedMessage(typedMessage: TypedMessage, options: MessageSigningOptions = {}): Signature {
+        return this.sign(hashTypedMessage(typedMessage, options), false);
     }
 
     /** Validate a private key */
     public isValid(): boolean {
         try {
-            const ellipticPrivateKey = this.toElliptic();
-            const validationObj = ellipticPrivateKey.validate();
-            return validationObj.result;
+            this.backend.getPublicKeySync(this.key);
+            return true;
         } catch {
             return false;
         }
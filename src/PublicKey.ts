@@ -6,28 +6,25 @@ import {
     publicKeyToString,
     stringToPublicKey,
 } from './eosjs-numeric';
-import { constructElliptic } from './eosjs-key-conversions';
+import { getDefaultCryptoBackend, SyncCryptoBackend } from './eosjs-crypto-backend';
+import { constructElliptic, PrivateKey } from './eosjs-key-conversions';
 
-/** Represents/stores a public key and provides easy conversion for use with `elliptic` lib */
+/**
+ * Represents/stores a public key and provides easy conversion for use with `elliptic` lib.
+ * Keys are validated with `backend`, the default crypto backend unless given
+ */
 export class PublicKey {
-    constructor(private key: Key, private ec: EC) {}
+    constructor(private key: Key, private ec?: EC, private backend: SyncCryptoBackend = getDefaultCryptoBackend()) {}
 
     /** Instantiate public key from an EOSIO-format public key */
-    public static fromString(publicKeyStr: string, ec?: EC): PublicKey {
-        const key = stringToPublicKey(publicKeyStr);
-        if (!ec) {
-            ec = constructElliptic(key.type);
-        }
-        return new PublicKey(key, ec);
+    public static fromString(publicKeyStr: string, ec?: EC, backend?: SyncCryptoBackend): PublicKey {
+        return new PublicKey(stringToPublicKey(publicKeyStr), ec, backend);
     }
 
     /** Instantiate public key from an `elliptic`-format public key */
     public static fromElliptic(publicKey: EC.KeyPair, keyType: KeyType, ec?: EC): PublicKey {
         const x = publicKey.getPublic().getX().toArray('be', 32);
         const y = publicKey.getPublic().getY().toArray('be', 32);
-        if (!ec) {
-            ec = constructElliptic(keyType);
-        }
         return new PublicKey({
             type: keyType,
             data: new Uint8Array([(y[31] & 1) ? 3 : 2].concat(x)),
@@ -46,9 +43,15 @@ export class PublicKey {
 
     /** Export public key as `elliptic`-format public key */
     public toElliptic(): EC.KeyPair {
-        return this.ec.keyPair({
-            pub: Buffer.from(this.key.data),
-        });
+        if (!this.ec) {
+            this.ec = constructElliptic(this.key.type);
+        }
+        return this.ec.keyFromPublic(this.key.data);
+    }
+
+    /** Export public key in binary format */
+    public toBinary(): Uint8Array {
+        return this.key.data;
     }
 
     /** Get key type from key */
@@ -56,14 +59,13 @@ export class PublicKey {
         return this.key.type;
     }
 
+    /** Get the ECDH shared secret with `privateKey`, the same as `privateKey.getSharedSecret` */
+    public getSharedSecret(privateKey: PrivateKey): Uint8Array {
+        return privateKey.getSharedSecret(this);
+    }
+
     /** Validate a public key */
     public isValid(): boolean {
-        try {
-            const ellipticPublicKey = this.toElliptic();
-            const validationObj = ellipticPublicKey.validate();
-            return validationObj.result;
-        } catch {
-            return false;
-        }
+        return this.backend.isValidPublicKey(this.key);
     }
 }
@@ -1,5 +1,4 @@
 import { BNInput, ec as EC } from 'elliptic';
-import BN = require('bn.js');
 
 import {
     Key,
@@ -7,19 +6,21 @@ import {
     signatureToString,
     stringToSignature,
 } from './eosjs-numeric';
-import { constructElliptic, PublicKey } from './eosjs-key-conversions';
+import { messageDigest } from './eosjs-crypto';
+import { CryptoBackend, getDefaultCryptoBackend, SyncCryptoBackend } from './eosjs-crypto-backend';
+import { PublicKey } from './eosjs-key-conversions';
+import { hashTypedMessage, MessageSigningOptions, TypedMessage } from './eosjs-message-signing';
 
-/** Represents/stores a Signature and provides easy conversion for use with `elliptic` lib */
+/**
+ * Represents/stores a Signature and provides easy conversion for use with `elliptic` lib.
+ * Signatures are verified and recovered with `backend`, the default crypto backend unless given
+ */
 export class Signature {
-    constructor(private signature: Key, private ec: EC) {}
+    constructor(private signature: Key, private ec?: EC, private backend: SyncCryptoBackend = getDefaultCryptoBackend()) {}
 
     /** Instantiate Signature from an EOSIO-format Signature */
-    public static fromString(sig: string, ec?: EC): Signature {
-        const signature = stringToSignature(sig);
-        if (!ec) {
-            ec = constructElliptic(signature.type);
-        }
-        return new Signature(signature, ec);
+    public static fromString(sig: string, ec?: EC, backend?: SyncCryptoBackend): Signature {
+        return new Signature(stringToSignature(sig), ec, backend);
     }
 
     /** Instantiate Signature from an `elliptic`-format Signature */
@@ -36,9 +37,6 @@ export class Signature {
             eosioRecoveryParam = ellipticSig.recoveryParam;
         }
         const sigData = new Uint8Array([eosioRecoveryParam].concat(r, s));
-        if (!ec) {
-            ec = constructElliptic(keyType);
-        }
         return new Signature({
             type: keyType,
             data: sigData,
@@ -52,6 +50,7 @@ export class Signature {
      * Further NOTE: @types/elliptic shows ec.Signature as exported; it is *not*.  Hence the `any`.
      */
     public toElliptic(): any {
+        const BN = require('bn.js');
         const lengthOfR = 32;
         const lengthOfS = 32;
         const r = new BN(this.signature.data.slice(1, lengthOfR + 1));
@@ -87,33 +86,33 @@ export class Signature {
 
     /** Verify a signature with a message or hashed message digest and public key */
     public verify(data: BNInput, publicKey: PublicKey, shouldHash: boolean = true, encoding: BufferEncoding = 'utf8'): boolean {
-        if (shouldHash) {
-            if (typeof data === 'string') {
-                data = Buffer.from(data, encoding);
-            }
-            data = this.ec.hash().update(data).digest();
-        }
-        const ellipticSignature = this.toElliptic();
-        const ellipticPublicKey = publicKey.toElliptic();
-        return this.ec.verify(data, ellipticSignature, ellipticPublicKey, encoding);
+        const publicKeyData = { type: publicKey.getType(), data: publicKey.toBinary() };
+        return this.backend.verifyDigest(this.signature, messageDigest(data, shouldHash, encoding), publicKeyData);
     }
 
     /** Recover a public key from a message or hashed message digest and signature */
     public recover(data: BNInput, shouldHash: boolean = true, encoding: BufferEncoding = 'utf8'): PublicKey {
-        if (shouldHash) {
-            if (typeof data === 'string') {
-                data = Buffer.from(data, encoding);
-            }
-            data = this.ec.hash().update(data).digest();
-        }
-        const ellipticSignature = this.toElliptic();
-        const recoveredPublicKey = this.ec.recoverPubKey(
-            data,
-            ellipticSignature,
-            ellipticSignature.recoveryParam,
-            encoding
-        );
-        const ellipticKPub = this.ec.keyFromPublic(recoveredPublicKey);
-        return PublicKey.fromElliptic(ellipticKPub, this.getType(), this.ec);
+        const publicKey = this.backend.recoverDigest(this.signature, messageDigest(data, shouldHash, encoding));
+        return new PublicKey(publicKey, this.ec, this.backend);
+    }
+
+    /** Verify a signature of the sha256 of `data` with public key and a crypto backend, see `eosjs-crypto-backend` */
+    public async verifyAsync(data: Uint8Array, publicKey: PublicKey, backend: CryptoBackend = this.backend): Promise<boolean> {
+        return backend.verify(this.signature, data, { type: publicKey.getType(), data: publicKey.toBinary() });
+    }
+
+    /** Recover the public key which signed the sha256 of `data` with a crypto backend */
+    public async recoverAsync(data: Uint8Array, backend: CryptoBackend = this.backend): Promise<PublicKey> {
+        return new PublicKey(await backend.recover(this.signature, data), this.ec, this.backend);
+    }
+
+    /** Verify a signature of a typed message with public key, see `eosjs-message-signing` */
+    public verifyTypedMessage(typedMessage: TypedMessage, publicKey: PublicKey, options: MessageSigningOptions = {}): boolean {
+        return this.verify(hashTypedMessage(typedMessage, options), publicKey, false);
+    }
+
+    /** Recover the public key which signed a typed message */
+    public recoverTypedMessage(typedMessage: TypedMessage, options: MessageSigningOptions = {}): PublicKey {
+        return this.recover(hashTypedMessage(typedMessage, options), false);
     }
 }
@@ -0,0 +1,148 @@
+/**
+ * @module ABI-Cache
+ */
+// copyright defined in eosjs/LICENSE.txt
+/* eslint-disable max-classes-per-file */
+
+import { AbiCache, AbiCacheEntry } from './eosjs-api-interfaces';
+import { base64ToBinary, binaryToBase64 } from './eosjs-numeric';
+
+/** `AbiCacheEntry` in a form which survives `JSON.stringify` */
+interface StoredAbiCacheEntry {
+    rawAbi: string;
+    fetchedAt: number;
+    abiSequence?: number;
+    codeHash?: string;
+}
+
+const toStored = (entry: AbiCacheEntry): StoredAbiCacheEntry => ({ ...entry, rawAbi: binaryToBase64(entry.rawAbi) });
+
+const fromStored = (stored: StoredAbiCacheEntry): AbiCacheEntry => ({ ...stored, rawAbi: base64ToBinary(stored.rawAbi) });
+
+/** Account names as accepted by `SerialBuffer.pushName`; they can't contain path separators */
+const accountNameRegex = /^[.1-5a-z]{0,12}[.1-5a-j]?$/;
+
+/** Keeps abis in memory; shares them between `Api` instances of one process */
+export class MemoryAbiCache implements AbiCache {
+    private entries = new Map<string, AbiCacheEntry>();
+
+    public async get(accountName: string): Promise<AbiCacheEntry | undefined> {
+        return this.entries.get(accountName);
+    }
+
+    public async set(accountName: string, entry: AbiCacheEntry): Promise<void> {
+        this.entries.set(accountName, entry);
+    }
+
+    public async delete(accountName: string): Promise<void> {
+        this.entries.delete(accountName);
+    }
+}
+
+/** Keeps abis as one JSON file per account in `directory` (node only) */
+export class FileSystemAbiCache implements AbiCache {
+    private fs = require('fs').promises;
+    private path = require('path');
+
+    constructor(public directory: string) {}
+
+    public async get(accountName: string): Promise<AbiCacheEntry | undefined> {
+        let contents: string;
+        try {
+            contents = await this.fs.readFile(this.fileName(accountName), 'utf8');
+        } catch (e) {
+            if (e.code === 'ENOENT') {
+                return undefined;
+            }
+            throw e;
+        }
+        return fromStored(JSON.parse(contents));
+    }
+
+    public async set(accountName: string, entry: AbiCacheEntry): Promise<void> {
+        const fileName = this.fileName(accountName);
+        await this.fs.mkdir(this.directory, { recursive: true });
+        await this.fs.writeFile(fileName, JSON.stringify(toStored(entry)));
+    }
+
+    public async delete(accountName: string): Promise<void> {
+        try {
+            await this.fs.unlink(this.fileName(accountName));
+        } catch (e) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+    }
+
+    /** Path of the file of `accountName`. Throws for strings which aren't account names, e.g. `../x` */
+    private fileName(accountName: string): string {
+        if (typeof accountName !== 'string' || !accountNameRegex.test(accountName)) {
+            throw new Error(`Invalid account name ${JSON.stringify(accountName)}`);
+        }
+        return this.path.join(this.directory, `${accountName}.abi.json`);
+    }
+}
+
+/** Keeps abis in a Web Storage object such as `localStorage` (browsers) */
+export class StorageAbiCache implements AbiCache {
+    constructor(public storage: Storage = (global as any).localStorage, public prefix = 'eosjs-abi:') {}
+
+    public async get(accountName: string): Promise<AbiCacheEntry | undefined> {
+        const contents = this.storage.getItem(this.prefix + accountName);
+        return contents === null ? undefined : fromStored(JSON.parse(contents));
+    }
+
+    public async set(accountName: string, entry: AbiCacheEntry): Promise<void> {
+        this.storage.setItem(this.prefix + accountName, JSON.stringify(toStored(entry)));
+    }
+
+    public async delete(accountName: string): Promise<void> {
+        this.storage.removeItem(this.prefix + accountName);
+    }
+}
+
+/** Keeps abis in an IndexedDB object store (browsers) */
+export class IndexedDbAbiCache implements AbiCache {
+    private db: Promise<IDBDatabase>;
+
+    constructor(
+        public databaseName = 'eosjs-abi-cache',
+        private indexedDb: IDBFactory = (global as any).indexedDB,
+        private storeName = 'abis',
+    ) {}
+
+    public async get(accountName: string): Promise<AbiCacheEntry | undefined> {
+        const stored = await this.request<StoredAbiCacheEntry>('readonly', (store) => store.get(accountName));
+        return stored ? fromStored(stored) : undefined;
+    }
+
+    public async set(accountName: string, entry: AbiCacheEntry): Promise<void> {
+        await this.request('readwrite', (store) => store.put(toStored(entry), accountName));
+    }
+
+    public async delete(accountName: string): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(accountName));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = this.indexedDb.open(this.databaseName, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = makeRequest(db.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+/**
+ * @module ABI-Codegen-CLI
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { generateTypes } from './eosjs-abi-codegen';
+import { JsonRpc } from './eosjs-jsonrpc';
+import { Abi } from './eosjs-rpc-interfaces';
+
+const usage = `Usage: eosjs-abi-codegen <abi.json | account> [options]
+
+Generate TypeScript declarations from a contract abi, read from a file or fetched from a node.
+
+Options:
+  --url <endpoint>   Node to fetch the abi of <account> from (default http://127.0.0.1:8888)
+  --name <name>      Prefix of the contract declarations (default: the account or file name)
+  --import <module>  Module the generated code imports eosjs from (default eosjs)
+  --out <file>       Write to <file> instead of stdout`;
+
+interface CliArgs {
+    source: string;
+    url: string;
+    name?: string;
+    eosjsImport?: string;
+    out?: string;
+}
+
+const parseArgs = (argv: string[]): CliArgs => {
+    const args: CliArgs = { source: undefined, url: 'http://127.0.0.1:8888' };
+    for (let i = 0; i < argv.length; ++i) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            if (args.source) {
+                throw new Error(`Unexpected argument: ${arg}`);
+            }
+            args.source = arg;
+            continue;
+        }
+        const value = argv[++i];
+        if (value === undefined) {
+            throw new Error(`Missing value for ${arg}`);
+        }
+        if (arg === '--url') {
+            args.url = value;
+        } else if (arg === '--name') {
+            args.name = value;
+        } else if (arg === '--import') {
+            args.eosjsImport = value;
+        } else if (arg === '--out') {
+            args.out = value;
+        } else {
+            throw new Error(`Unknown option: ${arg}`);
+        }
+    }
+    if (!args.source) {
+        throw new Error('Missing abi file or account');
+    }
+    return args;
+};
+
+/** The global `fetch` of Node 18 and later, `node-fetch` on older versions. Throws if `node-fetch` isn't installed */
+const nodeFetch = (): (input?: any, init?: any) => Promise<any> => {
+    if ((global as any).fetch) {
+        return (global as any).fetch;
+    }
+    try {
+        return require('node-fetch');
+    } catch (e) {
+        throw new Error('Fetching an abi needs node-fetch on Node versions without a global fetch: npm install node-fetch@2');
+    }
+};
+
+/** Read the abi from `source` if it is a JSON file, otherwise fetch the abi of account `source` from `url` */
+const loadAbi = async (source: string, url: string, fetch?: (input?: any, init?: any) => Promise<any>): Promise<Abi> => {
+    const fs = require('fs');
+    if (source.endsWith('.json') || fs.existsSync(source)) {
+        const json = JSON.parse(fs.readFileSync(source, 'utf8'));
+        return json.abi || json;
+    }
+    const rpc = new JsonRpc(url, { fetch: fetch || nodeFetch() });
+    const { abi } = await rpc.get_abi(source);
+    if (!abi) {
+        throw new Error(`Account ${source} has no abi`);
+    }
+    return abi;
+};
+
+/**
+ * Run the command line tool with `argv` (without the node and script arguments). Returns the exit code.
+ * Abis are fetched with `fetch`, by default the global `fetch` or `node-fetch` if there is none.
+ */
+export const main = async (
+    argv: string[], fetch?: (input?: any, init?: any) => Promise<any>
+): Promise<number> => {
+    let args: CliArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (e) {
+        console.error(`${e.message}\n\n${usage}`);
+        return 2;
+    }
+    try {
+        const abi = await loadAbi(args.source, args.url, fetch);
+        const contractName = args.name || require('path').basename(args.source).replace(/(\.abi)?\.json$/, '');
+        const code = generateTypes(abi, { contractName, eosjsImport: args.eosjsImport });
+        if (args.out) {
+            require('fs').writeFileSync(args.out, code);
+        } else {
+            process.stdout.write(code);
+        }
+        return 0;
+    } catch (e) {
+        console.error(e.message);
+        return 1;
+    }
+};
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then((code) => { process.exitCode = code; });
+}
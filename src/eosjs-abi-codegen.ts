@@ -0,0 +1,226 @@
+/**
+ * @module ABI-Codegen
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { Abi } from './eosjs-rpc-interfaces';
+
+export interface GenerateTypesOptions {
+    /** Prefix of the contract level declarations (`<name>Actions`, `<name>Tables`, ...), e.g. the account name */
+    contractName?: string;
+
+    /** Module the generated code imports eosjs types from, defaults to `eosjs` */
+    eosjsImport?: string;
+}
+
+/** TypeScript types of the types built into the abi serializer */
+const builtinTypes: { [name: string]: string } = {
+    bool: 'boolean',
+    int8: 'number',
+    uint8: 'number',
+    int16: 'number',
+    uint16: 'number',
+    int32: 'number',
+    uint32: 'number',
+    varint32: 'number',
+    varuint32: 'number',
+    float32: 'number',
+    float64: 'number',
+    int64: 'number | string',
+    uint64: 'number | string',
+    int128: 'string',
+    uint128: 'string',
+    float128: 'string',
+    bytes: 'string | Uint8Array | number[]',
+    string: 'string',
+    name: 'string',
+    time_point: 'string',
+    time_point_sec: 'string',
+    block_timestamp_type: 'string',
+    symbol_code: 'string',
+    symbol: 'string',
+    asset: 'string',
+    checksum160: 'string',
+    checksum256: 'string',
+    checksum512: 'string',
+    public_key: 'string',
+    private_key: 'string',
+    signature: 'string',
+    extended_asset: '{ quantity: string, contract: string }',
+};
+
+const reservedWords = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+    'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+    'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+]);
+
+/** `eosio.token` -> `EosioToken` */
+export const toPascalCase = (name: string): string => {
+    const result = name
+        .split(/[^A-Za-z0-9]+/)
+        .filter((part) => part)
+        .map((part) => part[0].toUpperCase() + part.substr(1))
+        .join('');
+    return /^[0-9]/.test(result) ? '_' + result : result;
+};
+
+/** Quote `name` if it can't be used as a property name as is */
+const propertyName = (name: string): string => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name}'`;
+
+/** Turn `name` into a valid parameter name */
+const parameterName = (name: string): string => {
+    const result = name.replace(/[^A-Za-z0-9_$]/g, '_');
+    return /^[0-9]/.test(result) || reservedWords.has(result) ? '_' + result : result;
+};
+
+/** Generates the TypeScript declarations of a single abi */
+class TypeGenerator {
+    private abi: Abi;
+    private prefix: string;
+    private eosjsImport: string;
+
+    /** TypeScript name of every type declared by the abi */
+    private declaredNames = new Map<string, string>();
+    private usedNames = new Set<string>();
+
+    constructor(abi: Abi, { contractName = 'Contract', eosjsImport = 'eosjs' }: GenerateTypesOptions) {
+        this.abi = abi;
+        this.prefix = toPascalCase(contractName);
+        this.eosjsImport = eosjsImport;
+        for (const { new_type_name } of abi.types || []) {
+            this.declare(new_type_name);
+        }
+        for (const { name } of abi.structs || []) {
+            this.declare(name);
+        }
+        for (const { name } of abi.variants || []) {
+            this.declare(name);
+        }
+    }
+
+    public generate(): string {
+        const lines = [
+            '// Generated by eosjs from the contract abi, do not edit',
+            '',
+            `import { Serialize } from '${this.eosjsImport}';`,
+            '',
+        ];
+        for (const { new_type_name, type } of this.abi.types || []) {
+            lines.push(`export type ${this.declaredNames.get(new_type_name)} = ${this.typeOf(type)};`, '');
+        }
+        for (const { name, types } of this.abi.variants || []) {
+            const alternatives = types.map((type) => `['${type}', ${this.typeOf(type)}]`);
+            lines.push(`export type ${this.declaredNames.get(name)} = ${alternatives.join(' | ') || 'never'};`, '');
+        }
+        for (const struct of this.abi.structs || []) {
+            const base = struct.base ? ` extends ${this.typeOf(struct.base)}` : '';
+            lines.push(`export interface ${this.declaredNames.get(struct.name)}${base} {`);
+            for (const field of struct.fields) {
+                lines.push(`    ${this.fieldOf(field.name, field.type)};`);
+            }
+            lines.push('}', '');
+        }
+        lines.push(...this.generateContract());
+        return lines.join('\n');
+    }
+
+    /** Declarations mapping actions, tables and action results to their types */
+    private generateContract(): string[] {
+        const actions = this.abi.actions || [];
+        const lines = [`/** Data of each action */`, `export interface ${this.prefix}Actions {`];
+        for (const { name, type } of actions) {
+            lines.push(`    ${propertyName(name)}: ${this.typeOf(type)};`);
+        }
+        lines.push('}', '');
+
+        lines.push(`/** Row type of each table */`, `export interface ${this.prefix}Tables {`);
+        for (const { name, type } of this.abi.tables || []) {
+            lines.push(`    ${propertyName(name)}: ${this.typeOf(type)};`);
+        }
+        lines.push('}', '');
+
+        if (this.abi.action_results && this.abi.action_results.length) {
+            lines.push(`/** Return value of each action which declares one */`, `export interface ${this.prefix}ActionResults {`);
+            for (const { name, result_type } of this.abi.action_results) {
+                lines.push(`    ${propertyName(name)}: ${this.typeOf(result_type)};`);
+            }
+            lines.push('}', '');
+        }
+
+        lines.push(
+            `/** Typed actions for \`api.contract<${this.prefix}ActionSerializer>(account)\` and \`api.with()\` */`,
+            `export interface ${this.prefix}ActionSerializer {`,
+        );
+        for (const { name, type } of actions) {
+            const fields = this.fieldsOf(type);
+            const parameters = fields.map((field, index) => {
+                const optional = fields.slice(index).every((f) => f.type.endsWith('?') || f.type.endsWith('$'));
+                return `${parameterName(field.name)}${optional ? '?' : ''}: ${this.typeOf(field.type)}`;
+            });
+            lines.push(`    ${propertyName(name)}(data: ${this.typeOf(type)}): Serialize.SerializedAction;`);
+            lines.push(`    ${propertyName(name)}(${parameters.join(', ')}): Serialize.SerializedAction;`);
+        }
+        lines.push('}', '');
+        return lines;
+    }
+
+    /** Fields of struct `name` (after resolving aliases) including base fields, in the order of positional arguments */
+    private fieldsOf(name: string): { name: string, type: string }[] {
+        const alias = (this.abi.types || []).find((type) => type.new_type_name === name);
+        if (alias) {
+            return this.fieldsOf(alias.type);
+        }
+        const struct = (this.abi.structs || []).find((s) => s.name === name);
+        if (!struct) {
+            return [];
+        }
+        return struct.base ? [...this.fieldsOf(struct.base), ...struct.fields] : struct.fields;
+    }
+
+    private fieldOf(name: string, type: string): string {
+        if (type.endsWith('$')) {
+            return `${propertyName(name)}?: ${this.typeOf(type.substr(0, type.length - 1))}`;
+        }
+        if (type.endsWith('?')) {
+            return `${propertyName(name)}?: ${this.typeOf(type)}`;
+        }
+        return `${propertyName(name)}: ${this.typeOf(type)}`;
+    }
+
+    /** TypeScript type of abi type `type` */
+    private typeOf(type: string): string {
+        if (type.endsWith('[]')) {
+            const element = this.typeOf(type.substr(0, type.length - 2));
+            return /^[A-Za-z0-9_$]+$/.test(element) ? `${element}[]` : `(${element})[]`;
+        }
+        if (type.endsWith('?')) {
+            return `${this.typeOf(type.substr(0, type.length - 1))} | null`;
+        }
+        if (type.endsWith('$')) {
+            return this.typeOf(type.substr(0, type.length - 1));
+        }
+        if (this.declaredNames.has(type)) {
+            return this.declaredNames.get(type);
+        }
+        if (builtinTypes[type]) {
+            return builtinTypes[type];
+        }
+        throw new Error(`Unknown type: ${type}`);
+    }
+
+    /** Pick a unique TypeScript name for abi type `name` */
+    private declare(name: string): void {
+        const base = toPascalCase(name);
+        let result = base;
+        for (let i = 2; this.usedNames.has(result); ++i) {
+            result = base + i;
+        }
+        this.usedNames.add(result);
+        this.declaredNames.set(name, result);
+    }
+}
+
+/** Generate TypeScript declarations for the structs, variants, aliases, actions and tables of `abi` */
+export const generateTypes = (abi: Abi, options: GenerateTypesOptions = {}): string =>
+    new TypeGenerator(abi, options).generate();
@@ -5,6 +5,7 @@
 
 import { Abi, PushTransactionArgs, ProcessedAction } from './eosjs-rpc-interfaces';
 import { Anyvar, Authorization, Action, SerializedAction } from './eosjs-serialize';
+import { FinalityLevel, TransactionStatus } from './eosjs-transaction-tracker';
 
 /** Arguments to `getRequiredKeys` */
 export interface AuthorityProviderArgs {
@@ -43,6 +44,40 @@ export interface CachedAbi {
 
     /** abi in structured form */
     abi: Abi;
+
+    /** Time (`Date.now()`) the abi was fetched */
+    fetchedAt?: number;
+
+    /** `abi_sequence` of the account seen in action receipts since the abi was fetched */
+    abiSequence?: number;
+
+    /** Code hash of the account seen since the abi was fetched */
+    codeHash?: string;
+}
+
+/** Abi kept by an `AbiCache` */
+export interface AbiCacheEntry {
+    /** abi in binary form */
+    rawAbi: Uint8Array;
+
+    /** Time (`Date.now()`) the abi was fetched */
+    fetchedAt: number;
+
+    /** `abi_sequence` of the account, if known */
+    abiSequence?: number;
+
+    /** Code hash of the account, if known */
+    codeHash?: string;
+}
+
+/** Keeps fetched abis across `Api` instances and restarts */
+export interface AbiCache {
+    /** Cached abi of `accountName`, or `undefined` */
+    get: (accountName: string) => Promise<AbiCacheEntry | undefined>;
+
+    set: (accountName: string, entry: AbiCacheEntry) => Promise<void>;
+
+    delete: (accountName: string) => Promise<void>;
 }
 
 /** Arguments to `sign` */
@@ -104,6 +139,32 @@ export interface TransactConfig {
     blocksBehind?: number;
     useLastIrreversible?: boolean;
     expireSeconds?: number;
+
+    /** Execute the signed transaction without broadcasting it and resolve to a `DryRunReport` */
+    dryRun?: boolean;
+
+    /** After broadcasting, wait until the transaction is `in-block` or `irreversible` before resolving */
+    waitForConfirmation?: FinalityLevel;
+
+    /** Milliseconds to wait for `waitForConfirmation` before rejecting, defaults to no limit */
+    confirmationTimeout?: number;
+
+    /** Rebuild, sign and push the transaction again when it is rejected for its TAPoS header */
+    resubmit?: ResubmitPolicy;
+}
+
+/**
+ * Resubmission of transactions rejected for their TAPoS header. Requires `blocksBehind` or `useLastIrreversible`,
+ * and `expireSeconds`, to generate the new header. Before every resubmission the rejected transaction is looked
+ * up on chain until it can no longer be included; if it was included after all, `transact` resolves to a result
+ * without `processed` trace and with its `confirmation` instead.
+ */
+export interface ResubmitPolicy {
+    /** Number of times the transaction is pushed again after the first push, defaults to 3 */
+    maxResubmits?: number;
+
+    /** `RpcError` codes which cause a resubmission, defaults to `expired_tx_exception` and `tx_ref_block_exception` */
+    errorCodes?: number[];
 }
 
 export interface TransactionHeader {
@@ -180,7 +241,69 @@ export interface TransactionTrace {
 
 export interface TransactResult {
     transaction_id: string;
+
     processed: TransactionTrace;
+
+    /** Status once the transaction reached the finality level of `waitForConfirmation` */
+    confirmation?: TransactionStatus;
+}
+
+/**
+ * Result of `Api.transact` when the node has no trace to return: a retried push was rejected as a duplicate of an
+ * earlier copy which did reach the chain, or the transaction was found on chain while resubmitting it.
+ * Use `confirmation` or `Api.trackTransaction` to follow it.
+ */
+export interface DuplicateTransactResult {
+    transaction_id: string;
+    duplicate: true;
+
+    /** Status once the transaction reached the finality level of `waitForConfirmation` */
+    confirmation?: TransactionStatus;
+}
+
+/** Endpoint which executed a dry run */
+export type DryRunEndpoint = 'compute_transaction' | 'push_ro_transaction';
+
+/** One action executed by a dry run, including inline actions and notifications */
+export interface DryRunActionReport {
+    actionOrdinal: number;
+
+    /** Ordinal of the action which sent this one inline, `0` for actions of the transaction */
+    creatorActionOrdinal: number;
+
+    account: string;
+    name: string;
+    receiver: string;
+    authorization: Authorization[];
+    data: any;
+    console: string;
+    elapsed: number;
+    ramDeltas: AccountDelta[];
+
+    /** Return value decoded with the abi `action_results`, or the hex data if the abi declares none */
+    returnValue?: any;
+}
+
+/** Outcome of executing a transaction with `dryRun` */
+export interface DryRunReport {
+    transactionId: string;
+    endpoint: DryRunEndpoint;
+    actions: DryRunActionReport[];
+
+    /** Console output of all actions, in execution order */
+    console: string;
+
+    /** RAM deltas of all actions, summed per account */
+    ramDeltas: AccountDelta[];
+
+    cpuUsageUs: number;
+    netUsageWords: number;
+    elapsed: number;
+
+    /** Exception which made the transaction fail, `null` if it succeeded */
+    except: any;
+
+    trace: TransactionTrace;
 }
 
 /** Optional query configuration object */
@@ -0,0 +1,59 @@
+/**
+ * @module API-Plugins
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { Api } from './eosjs-api';
+import { DuplicateTransactResult, TransactConfig, Transaction, TransactResult } from './eosjs-api-interfaces';
+import { PushTransactionArgs, ReadOnlyTransactResult } from './eosjs-rpc-interfaces';
+
+/** State of a single `Api.transact` call, shared by the hooks of every `ApiPlugin` */
+export interface TransactContext {
+    api: Api;
+
+    /** Config passed to `transact` */
+    config: TransactConfig;
+
+    /**
+     * Transaction being built, including its TAPoS header. Actions hold their data as objects until `afterSerialize`,
+     * and as hex from then on. May be replaced in `beforeSerialize`, e.g. to add actions
+     */
+    transaction: Transaction;
+
+    /** Set from `afterSerialize`. May be replaced in `afterSerialize` */
+    serializedTransaction?: Uint8Array;
+    serializedContextFreeData?: Uint8Array;
+
+    /** Keys the transaction is signed with, set from `beforeSign`. May be modified in `beforeSign` */
+    requiredKeys?: string[];
+
+    /** Signed transaction, set from `afterSign`. Signatures may be added in `afterSign`, e.g. by a cosigner */
+    pushTransactionArgs?: PushTransactionArgs;
+
+    /** Response of the node, set for `afterBroadcast`. May be replaced in `afterBroadcast` */
+    result?: TransactResult | DuplicateTransactResult | ReadOnlyTransactResult;
+}
+
+/**
+ * Hook into every transaction built by `Api.transact`. Hooks run in the order the plugins were added;
+ * throwing from a hook rejects the `transact` call, e.g. to enforce a policy.
+ */
+export interface ApiPlugin {
+    /** Called before the actions are serialized */
+    beforeSerialize?: (context: TransactContext) => void | Promise<void>;
+
+    /** Called once the transaction is serialized, before it is signed */
+    afterSerialize?: (context: TransactContext) => void | Promise<void>;
+
+    /** Called before the transaction is signed, once the required keys are known. Not called with `sign: false` */
+    beforeSign?: (context: TransactContext) => void | Promise<void>;
+
+    /** Called once the transaction is signed. Not called with `sign: false` */
+    afterSign?: (context: TransactContext) => void | Promise<void>;
+
+    /** Called before the transaction is pushed. Not called without `broadcast` or for dry runs */
+    beforeBroadcast?: (context: TransactContext) => void | Promise<void>;
+
+    /** Called once the node accepted the transaction */
+    afterBroadcast?: (context: TransactContext) => void | Promise<void>;
+}
@@ -5,22 +5,35 @@
 /* eslint-disable max-classes-per-file */
 
 import { inflate, deflate } from 'pako';
+import { sha256 } from 'hash.js';
 
 import {
+    AbiCache,
     AbiProvider,
     ActionSerializerType,
     AuthorityProvider,
+    ActionTrace,
     BinaryAbi,
     CachedAbi,
     ContextFreeGroupCallback,
+    DryRunActionReport,
+    DryRunEndpoint,
+    DryRunReport,
+    DuplicateTransactResult,
     Query,
     QueryConfig,
+    ResubmitPolicy,
     SignatureProvider,
     TransactConfig,
     Transaction,
+    TransactionTrace,
     TransactResult,
 } from './eosjs-api-interfaces';
+import { ApiPlugin, TransactContext } from './eosjs-api-plugins';
+import { actionDataFromArgs, ContractActionsType, ContractWrapper } from './eosjs-contract';
 import { JsonRpc } from './eosjs-jsonrpc';
+import { DuplicateTransactionError, RpcError } from './eosjs-rpcerror';
+import { expiredTransactionErrorCode, refBlockErrorCode } from './eosjs-rpc-retry';
 import {
     Abi,
     BlockTaposInfo,
@@ -32,6 +45,8 @@ import {
     ReadOnlyTransactResult,
 } from './eosjs-rpc-interfaces';
 import * as ser from './eosjs-serialize';
+import { TransactionExtension, TransactionExtensionRegistry } from './eosjs-transaction-extensions';
+import { TransactionStatus, TransactionTracker, TransactionTrackerOptions } from './eosjs-transaction-tracker';
 
 export class Api {
     /** Issues RPC calls */
@@ -64,6 +79,27 @@ export class Api {
     /** Fetched abis */
     public cachedAbis = new Map<string, CachedAbi>();
 
+    /** Keeps fetched abis across `Api` instances and restarts */
+    public abiCache: AbiCache;
+
+    /** Milliseconds after which a cached abi is fetched again, `0` to keep abis until invalidated */
+    public abiCacheTtl: number;
+
+    /** Hooks run for every transaction built by `transact` */
+    public plugins: ApiPlugin[];
+
+    /** Extensions serialized into and deserialized from `transaction_extensions` */
+    public transactionExtensions: TransactionExtensionRegistry;
+
+    /** Abi fetches in progress, shared by concurrent callers */
+    private abiRequests = new Map<string, Promise<CachedAbi>>();
+
+    /** Reloads triggered by actions failing to (de)serialize, shared by all actions using the stale abi */
+    private abiReloads = new WeakMap<CachedAbi, Promise<{ contract: ser.Contract, changed: boolean }>>();
+
+    /** Does the node provide `compute_transaction`? `undefined` until the first dry run */
+    private computeTransactionAvailable: boolean;
+
     /**
      * @param args
      * * `rpc`: Issues RPC calls
@@ -73,6 +109,10 @@ export class Api {
      * * `chainId`: Identifies chain
      * * `textEncoder`: `TextEncoder` instance to use. Pass in `null` if running in a browser
      * * `textDecoder`: `TextDecoder` instance to use. Pass in `null` if running in a browser
+     * * `abiCache`: Keeps fetched abis across restarts, e.g. `FileSystemAbiCache` or `IndexedDbAbiCache`
+     * * `abiCacheTtl`: Milliseconds after which a cached abi is fetched again
+     * * `plugins`: hooks run at each stage of `transact`
+     * * `transactionExtensions`: extensions to support in addition to `resource_payer`
      */
     constructor(args: {
         rpc: JsonRpc,
@@ -82,6 +122,10 @@ export class Api {
         chainId?: string,
         textEncoder?: TextEncoder,
         textDecoder?: TextDecoder,
+        abiCache?: AbiCache,
+        abiCacheTtl?: number,
+        plugins?: ApiPlugin[],
+        transactionExtensions?: TransactionExtension[],
     }) {
         this.rpc = args.rpc;
         this.authorityProvider = args.authorityProvider || args.rpc;
@@ -90,6 +134,13 @@ export class Api {
         this.chainId = args.chainId;
         this.textEncoder = args.textEncoder;
         this.textDecoder = args.textDecoder;
+        this.abiCache = args.abiCache;
+        this.abiCacheTtl = args.abiCacheTtl || 0;
+        this.plugins = args.plugins ? [...args.plugins] : [];
+        this.transactionExtensions = new TransactionExtensionRegistry();
+        for (const extension of args.transactionExtensions || []) {
+            this.transactionExtensions.register(extension);
+        }
 
         this.abiTypes = ser.getTypesFromAbi(ser.createAbiTypes());
         this.transactionTypes = ser.getTypesFromAbi(ser.createTransactionTypes());
@@ -124,14 +175,35 @@ export class Api {
 
     /** Get abi in both binary and structured forms. Fetch when needed. */
     public async getCachedAbi(accountName: string, reload = false): Promise<CachedAbi> {
-        if (!reload && this.cachedAbis.get(accountName)) {
+        if (!reload && this.isFresh(this.cachedAbis.get(accountName))) {
             return this.cachedAbis.get(accountName);
         }
+        if (reload) {
+            return this.fetchCachedAbi(accountName, true);
+        }
+        let request = this.abiRequests.get(accountName);
+        if (!request) {
+            request = this.fetchCachedAbi(accountName, false);
+            this.abiRequests.set(accountName, request);
+            request.then(() => this.abiRequests.delete(accountName), () => this.abiRequests.delete(accountName));
+        }
+        return request;
+    }
+
+    private async fetchCachedAbi(accountName: string, reload: boolean): Promise<CachedAbi> {
         let cachedAbi: CachedAbi;
         try {
-            const rawAbi = (await this.abiProvider.getRawAbi(accountName)).abi;
-            const abi = this.rawAbiToJson(rawAbi);
-            cachedAbi = { rawAbi, abi };
+            const entry = !reload && this.abiCache ? await this.abiCache.get(accountName) : undefined;
+            if (this.isFresh(entry)) {
+                cachedAbi = { ...entry, abi: this.rawAbiToJson(entry.rawAbi) };
+            } else {
+                const rawAbi = (await this.abiProvider.getRawAbi(accountName)).abi;
+                const abi = this.rawAbiToJson(rawAbi);
+                cachedAbi = { rawAbi, abi, fetchedAt: Date.now() };
+                if (this.abiCache) {
+                    await this.abiCache.set(accountName, { rawAbi, fetchedAt: cachedAbi.fetchedAt });
+                }
+            }
         } catch (e) {
             e.message = `fetching abi for ${accountName}: ${e.message}`;
             throw e;
@@ -140,9 +212,83 @@ export class Api {
             throw new Error(`Missing abi for ${accountName}`);
         }
         this.cachedAbis.set(accountName, cachedAbi);
+        this.contracts.delete(accountName);
         return cachedAbi;
     }
 
+    /** Drop the cached abi of `accountName`, from memory and from `abiCache` */
+    public async invalidateAbi(accountName: string): Promise<void> {
+        this.cachedAbis.delete(accountName);
+        this.contracts.delete(accountName);
+        if (this.abiCache) {
+            await this.abiCache.delete(accountName);
+        }
+    }
+
+    /**
+     * Compare the code hash of `accountName` with the one seen when its abi was cached and reload the abi if it changed.
+     * Returns `true` when the abi was reloaded.
+     */
+    public async revalidateAbi(accountName: string): Promise<boolean> {
+        const cachedAbi = await this.getCachedAbi(accountName);
+        const { code_hash } = await this.rpc.get_code_hash(accountName);
+        if (cachedAbi.codeHash === undefined) {
+            await this.updateCachedAbi(accountName, cachedAbi, { codeHash: code_hash });
+            return false;
+        }
+        if (cachedAbi.codeHash === code_hash) {
+            return false;
+        }
+        await this.getCachedAbi(accountName, true);
+        return true;
+    }
+
+    /**
+     * Invalidate cached abis whose `abi_sequence` changed, judged by the action receipts in `trace`.
+     * The first sequence seen for an abi is remembered for later comparisons.
+     */
+    public async updateAbiSequences(trace: TransactionTrace): Promise<void> {
+        const sequences = new Map<string, number>();
+        const collect = (actionTraces: TransactionTrace['action_traces'] = []): void => {
+            for (const actionTrace of actionTraces) {
+                const { receipt, act } = actionTrace;
+                if (receipt && act && receipt.receiver === act.account && typeof receipt.abi_sequence === 'number') {
+                    sequences.set(receipt.receiver, receipt.abi_sequence);
+                }
+                collect(actionTrace.inline_traces);
+            }
+        };
+        collect(trace && trace.action_traces);
+        for (const [accountName, abiSequence] of sequences) {
+            const cachedAbi = this.cachedAbis.get(accountName);
+            if (!cachedAbi || cachedAbi.abiSequence === abiSequence) {
+                continue;
+            }
+            if (cachedAbi.abiSequence === undefined) {
+                await this.updateCachedAbi(accountName, cachedAbi, { abiSequence });
+            } else {
+                await this.invalidateAbi(accountName);
+            }
+        }
+    }
+
+    private isFresh(entry?: { fetchedAt?: number }): boolean {
+        if (!entry) {
+            return false;
+        }
+        return !this.abiCacheTtl || entry.fetchedAt === undefined || Date.now() - entry.fetchedAt < this.abiCacheTtl;
+    }
+
+    private async updateCachedAbi(
+        accountName: string, cachedAbi: CachedAbi, update: { abiSequence?: number, codeHash?: string }
+    ): Promise<void> {
+        Object.assign(cachedAbi, update);
+        if (this.abiCache) {
+            const { rawAbi, fetchedAt, abiSequence, codeHash } = cachedAbi;
+            await this.abiCache.set(accountName, { rawAbi, fetchedAt, abiSequence, codeHash });
+        }
+    }
+
     /** Get abi in structured form. Fetch when needed. */
     public async getAbi(accountName: string, reload = false): Promise<Abi> {
         return (await this.getCachedAbi(accountName, reload)).abi;
@@ -162,7 +308,8 @@ export class Api {
 
     /** Get data needed to serialize actions in a contract */
     public async getContract(accountName: string, reload = false): Promise<ser.Contract> {
-        if (!reload && this.contracts.get(accountName)) {
+        const cachedAbi = this.cachedAbis.get(accountName);
+        if (!reload && this.contracts.get(accountName) && (!cachedAbi || this.isFresh(cachedAbi))) {
             return this.contracts.get(accountName);
         }
         const abi = await this.getAbi(accountName, reload);
@@ -221,18 +368,14 @@ export class Api {
         return this.deserialize(buffer, 'transaction');
     }
 
-    private transactionExtensions = [
-        { id: 1, type: 'resource_payer', keys: ['payer', 'max_net_bytes', 'max_cpu_us', 'max_memory_bytes'] },
-    ];
-
     // Order of adding to transaction_extension is transaction_extension id ascending
     public serializeTransactionExtensions(transaction: Transaction): [number, string][] {
-        let transaction_extensions: [number, string][] = [];
-        if (transaction.resource_payer) {
-            const extensionBuffer = new ser.SerialBuffer({ textEncoder: this.textEncoder, textDecoder: this.textDecoder });
-            const types = ser.getTypesFromAbi(ser.createTransactionExtensionTypes());
-            types.get('resource_payer').serialize(extensionBuffer, transaction.resource_payer);
-            transaction_extensions = [...transaction_extensions, [1, ser.arrayToHex(extensionBuffer.asUint8Array())]];
+        const transaction_extensions: [number, string][] = [];
+        for (const { id, field } of this.transactionExtensions.list()) {
+            const data = (transaction as any)[field];
+            if (data) {
+                transaction_extensions.push([id, this.transactionExtensions.serialize(id, data, this.textEncoder, this.textDecoder)]);
+            }
         }
         return transaction_extensions;
     };
@@ -241,52 +384,112 @@ export class Api {
     public deserializeTransactionExtensions(data: [number, string][]): any[] {
         const transaction = {} as any;
         data.forEach((extensionData: [number, string]) => {
-            const transactionExtension = this.transactionExtensions.find(extension => extension.id === extensionData[0]);
+            const transactionExtension = this.transactionExtensions.get(extensionData[0]);
             if (transactionExtension === undefined) {
                 throw new Error(`Transaction Extension could not be determined: ${extensionData}`);
             }
-            const types = ser.getTypesFromAbi(ser.createTransactionExtensionTypes());
-            const extensionBuffer = new ser.SerialBuffer({ textEncoder: this.textEncoder, textDecoder: this.textDecoder });
-            extensionBuffer.pushArray(ser.hexToUint8Array(extensionData[1]));
-            const deserializedObj = types.get(transactionExtension.type).deserialize(extensionBuffer);
-            if (extensionData[0] === 1) {
-                deserializedObj.max_net_bytes = Number(deserializedObj.max_net_bytes);
-                deserializedObj.max_cpu_us = Number(deserializedObj.max_cpu_us);
-                deserializedObj.max_memory_bytes = Number(deserializedObj.max_memory_bytes);
-                transaction.resource_payer = deserializedObj;
-            }
+            transaction[transactionExtension.field] = this.transactionExtensions.deserialize(
+                extensionData[0], extensionData[1], this.textEncoder, this.textDecoder);
         });
         return transaction;
     };
 
     // Transaction extensions are serialized and moved to `transaction_extensions`, deserialized objects are not needed on the transaction
     public deleteTransactionExtensionObjects(transaction: Transaction): Transaction {
-        delete transaction.resource_payer;
+        for (const { field } of this.transactionExtensions.list()) {
+            delete (transaction as any)[field];
+        }
         return transaction;
     }
 
-    /** Convert actions to hex */
+    /** Convert actions to hex. Reloads the abi once if it fails to serialize an action, in case the contract changed. */
     public async serializeActions(actions: ser.Action[]): Promise<ser.SerializedAction[]> {
         return await Promise.all(actions.map(async (action) => {
             const { account, name, authorization, data } = action;
-            const contract = await this.getContract(account);
             if (typeof data !== 'object') {
                 return action;
             }
-            return ser.serializeAction(
-                contract, account, name, authorization, data, this.textEncoder, this.textDecoder);
+            const contract = await this.getContract(account);
+            return this.withAbiReload(account, contract, (c: ser.Contract) => ser.serializeAction(
+                c, account, name, authorization, data, this.textEncoder, this.textDecoder));
         }));
     }
 
-    /** Convert actions from hex */
+    /** Convert actions from hex. Reloads the abi once if it fails to deserialize an action, in case the contract changed. */
     public async deserializeActions(actions: ser.Action[]): Promise<ser.Action[]> {
         return await Promise.all(actions.map(async ({ account, name, authorization, data }) => {
             const contract = await this.getContract(account);
-            return ser.deserializeAction(
-                contract, account, name, authorization, data, this.textEncoder, this.textDecoder);
+            return this.withAbiReload(account, contract, (c: ser.Contract) => ser.deserializeAction(
+                c, account, name, authorization, data, this.textEncoder, this.textDecoder));
         }));
     }
 
+    private async dryRunReport(trace: TransactionTrace, endpoint: DryRunEndpoint): Promise<DryRunReport> {
+        await this.deserializeActionResults(trace);
+        const actions = flattenActionTraces(trace.action_traces || []).map(
+            (actionTrace): DryRunActionReport => ({
+                actionOrdinal: actionTrace.action_ordinal,
+                creatorActionOrdinal: actionTrace.creator_action_ordinal,
+                account: actionTrace.act.account,
+                name: actionTrace.act.name,
+                receiver: actionTrace.receiver,
+                authorization: actionTrace.act.authorization,
+                data: actionTrace.act.data,
+                console: actionTrace.console,
+                elapsed: actionTrace.elapsed,
+                ramDeltas: actionTrace.account_ram_deltas || [],
+                returnValue: actionTrace.return_value_data !== undefined
+                    ? actionTrace.return_value_data
+                    : actionTrace.return_value_hex_data || undefined,
+            }));
+        const ramDeltas = new Map<string, number>();
+        for (const { account, delta } of [].concat(...actions.map((action) => action.ramDeltas))) {
+            ramDeltas.set(account, (ramDeltas.get(account) || 0) + delta);
+        }
+        return {
+            transactionId: trace.id,
+            endpoint,
+            actions,
+            console: actions.map((action) => action.console || '').join(''),
+            ramDeltas: [...ramDeltas].map(([account, delta]) => ({ account, delta })),
+            cpuUsageUs: trace.receipt ? trace.receipt.cpu_usage_us : 0,
+            netUsageWords: trace.receipt ? trace.receipt.net_usage_words : 0,
+            elapsed: trace.elapsed,
+            except: trace.except || null,
+            trace,
+        };
+    }
+
+    /**
+     * Run `convert` with `contract`, which must have just been returned by `getContract`.
+     * If it throws, run it once more with a freshly fetched abi.
+     */
+    private async withAbiReload<T>(
+        accountName: string, contract: ser.Contract, convert: (contract: ser.Contract) => T
+    ): Promise<T> {
+        const staleAbi = this.cachedAbis.get(accountName);
+        try {
+            return convert(contract);
+        } catch (e) {
+            let reload = staleAbi && this.abiReloads.get(staleAbi);
+            if (!reload) {
+                reload = this.getContract(accountName, true).then((reloaded) => ({
+                    contract: reloaded,
+                    changed: !staleAbi
+                        || ser.arrayToHex(staleAbi.rawAbi) !== ser.arrayToHex(this.cachedAbis.get(accountName).rawAbi),
+                }));
+                if (staleAbi) {
+                    this.abiReloads.set(staleAbi, reload);
+                }
+            }
+            const { contract: reloaded, changed } = await reload;
+            if (!changed) {
+                throw e;
+            }
+            return convert(reloaded);
+        }
+    }
+
     /** Convert a transaction from binary. Also deserializes actions. */
     public async deserializeTransactionWithActions(transaction: Uint8Array | string): Promise<Transaction> {
         if (typeof transaction === 'string') {
@@ -328,29 +531,43 @@ export class Api {
      * then fetch the last irreversible block, use it as a reference for TAPoS,
      * and expire the transaction `expireSeconds` after that block's time.
      *
+     * If `resubmit` is present, a transaction rejected as expired or for its reference block is rebuilt
+     * with a new TAPoS header, signed again and pushed again, see `ResubmitPolicy`.
+     *
+     * The hooks of `plugins` run at each stage, see `ApiPlugin`.
+     *
      * @returns node response if `broadcast`, `{signatures, serializedTransaction}` if `!broadcast`
      */
     public async transact(
         transaction: Transaction,
-        {
+        config: TransactConfig = {},
+    ): Promise<TransactResult|DuplicateTransactResult|ReadOnlyTransactResult|PushTransactionArgs|DryRunReport> {
+        const {
             broadcast = true,
             sign = true,
             readOnlyTrx,
             returnFailureTraces,
-            requiredKeys,
             compression,
             blocksBehind,
             useLastIrreversible,
-            expireSeconds
-        }:
-        TransactConfig = {}): Promise<TransactResult|ReadOnlyTransactResult|PushTransactionArgs>
-    {
+            expireSeconds,
+            dryRun,
+            waitForConfirmation,
+            confirmationTimeout,
+            resubmit,
+        } = config;
+        let { requiredKeys } = config;
         let info: GetInfoResult;
+        const request = transaction;
 
         if (typeof blocksBehind === 'number' && useLastIrreversible) {
             throw new Error('Use either blocksBehind or useLastIrreversible');
         }
 
+        if (resubmit && !((typeof blocksBehind === 'number' || useLastIrreversible) && expireSeconds)) {
+            throw new Error('resubmit requires blocksBehind or useLastIrreversible, and expireSeconds');
+        }
+
         if (!this.chainId) {
             info = await this.rpc.get_info();
             this.chainId = info.chain_id;
@@ -360,6 +577,10 @@ export class Api {
             transaction = await this.generateTapos(info, transaction, blocksBehind, useLastIrreversible, expireSeconds);
         }
 
+        const context: TransactContext = { api: this, config, transaction };
+        await this.runPlugins('beforeSerialize', context);
+        transaction = context.transaction;
+
         if (!this.hasRequiredTaposFields(transaction)) {
             throw new Error('Required configuration or TAPOS fields are not present');
         }
@@ -372,8 +593,11 @@ export class Api {
             actions: await this.serializeActions(transaction.actions)
         };
         transaction = this.deleteTransactionExtensionObjects(transaction);
-        const serializedTransaction = this.serializeTransaction(transaction);
-        const serializedContextFreeData = this.serializeContextFreeData(transaction.context_free_data);
+        context.transaction = transaction;
+        context.serializedTransaction = this.serializeTransaction(transaction);
+        context.serializedContextFreeData = this.serializeContextFreeData(transaction.context_free_data);
+        await this.runPlugins('afterSerialize', context);
+        const { serializedTransaction, serializedContextFreeData } = context;
         let pushTransactionArgs: PushTransactionArgs = {
             serializedTransaction, serializedContextFreeData, signatures: []
         };
@@ -383,32 +607,196 @@ export class Api {
                 const availableKeys = await this.signatureProvider.getAvailableKeys();
                 requiredKeys = await this.authorityProvider.getRequiredKeys({ transaction, availableKeys });
             }
+            context.requiredKeys = requiredKeys;
+            await this.runPlugins('beforeSign', context);
 
-            pushTransactionArgs = await this.signatureProvider.sign({
+            context.pushTransactionArgs = await this.signatureProvider.sign({
                 chainId: this.chainId,
-                requiredKeys,
+                requiredKeys: context.requiredKeys,
                 serializedTransaction,
                 serializedContextFreeData,
                 abis,
             });
+            await this.runPlugins('afterSign', context);
+            pushTransactionArgs = context.pushTransactionArgs;
+        }
+        if (dryRun) {
+            return this.dryRun(pushTransactionArgs);
         }
         if (broadcast) {
-            if (compression) {
-                return this.pushCompressedSignedTransaction(
-                    pushTransactionArgs,
-                    readOnlyTrx,
-                    returnFailureTraces,
-                ) as Promise<TransactResult|ReadOnlyTransactResult>;
+            context.pushTransactionArgs = pushTransactionArgs;
+            await this.runPlugins('beforeBroadcast', context);
+            pushTransactionArgs = context.pushTransactionArgs;
+            let result: TransactResult|DuplicateTransactResult|ReadOnlyTransactResult;
+            try {
+                if (compression) {
+                    result = await this.pushCompressedSignedTransaction(
+                        pushTransactionArgs,
+                        readOnlyTrx,
+                        returnFailureTraces,
+                    );
+                } else {
+                    result = await this.pushSignedTransaction(
+                        pushTransactionArgs,
+                        readOnlyTrx,
+                        returnFailureTraces,
+                    );
+                }
+            } catch (e) {
+                if (e instanceof DuplicateTransactionError) {
+                    result = { transaction_id: e.transactionId, duplicate: true };
+                } else if (!resubmit || readOnlyTrx || !isResubmittable(e, resubmit)) {
+                    throw e;
+                } else {
+                    return this.resubmitTransaction(request, transaction, pushTransactionArgs.serializedTransaction, config);
+                }
+            }
+            if (result) {
+                const trace = (result as TransactResult).processed || (result as ReadOnlyTransactResult).result;
+                await this.updateAbiSequences(trace);
+                await this.deserializeActionResults(trace);
+            }
+            context.result = result;
+            await this.runPlugins('afterBroadcast', context);
+            result = context.result;
+            if (waitForConfirmation && !readOnlyTrx) {
+                const { transaction_id, processed } = result as TransactResult;
+                const tracker = this.trackTransaction(transaction_id, {
+                    blockNum: processed ? processed.block_num : undefined,
+                    refBlockNum: transaction.ref_block_num,
+                    expiration: transaction.expiration,
+                });
+                try {
+                    (result as TransactResult|DuplicateTransactResult).confirmation =
+                        await tracker.wait(waitForConfirmation, confirmationTimeout);
+                } finally {
+                    tracker.stop();
+                }
             }
-            return this.pushSignedTransaction(
-                pushTransactionArgs,
-                readOnlyTrx,
-                returnFailureTraces,
-            ) as Promise<TransactResult|ReadOnlyTransactResult>;
+            return result;
         }
         return pushTransactionArgs as PushTransactionArgs;
     }
 
+    /** Add `plugin` to the hooks run for every transaction */
+    public use(plugin: ApiPlugin): Api {
+        this.plugins.push(plugin);
+        return this;
+    }
+
+    private async runPlugins(hook: keyof ApiPlugin, context: TransactContext): Promise<void> {
+        for (const plugin of this.plugins) {
+            if (plugin[hook]) {
+                await plugin[hook](context);
+            }
+        }
+    }
+
+    /**
+     * Transact `request` again with a new TAPoS header after `rejected` was rejected, unless `rejected` made it
+     * into a block after all. Waits until `rejected` can no longer be included (or is) to guarantee the
+     * transaction is executed at most once.
+     */
+    private async resubmitTransaction(
+        request: Transaction,
+        rejected: Transaction,
+        serializedTransaction: Uint8Array,
+        config: TransactConfig,
+    ): Promise<TransactResult|DuplicateTransactResult|ReadOnlyTransactResult|PushTransactionArgs|DryRunReport> {
+        const transactionId = sha256().update(serializedTransaction).digest('hex');
+        const tracker = this.trackTransaction(transactionId, {
+            refBlockNum: rejected.ref_block_num,
+            expiration: rejected.expiration,
+        });
+        let confirmation: TransactionStatus;
+        try {
+            confirmation = await tracker.wait(config.waitForConfirmation || 'in-block', config.confirmationTimeout);
+        } catch (e) {
+            if (tracker.status.state !== 'expired') {
+                throw e;
+            }
+        } finally {
+            tracker.stop();
+        }
+        if (confirmation) {
+            return { transaction_id: transactionId, duplicate: true, confirmation };
+        }
+        const { expiration, ref_block_num, ref_block_prefix, ...rest } = request;
+        const { maxResubmits = defaultResubmitPolicy.maxResubmits } = config.resubmit;
+        return this.transact(rest as Transaction, {
+            ...config,
+            resubmit: { ...config.resubmit, maxResubmits: maxResubmits - 1 },
+        });
+    }
+
+    /** Follow a broadcast transaction until it is irreversible or expired, see `TransactionTracker` */
+    public trackTransaction(transactionId: string, options: TransactionTrackerOptions = {}): TransactionTracker {
+        return new TransactionTracker(this.rpc, transactionId, options);
+    }
+
+    /**
+     * Execute a signed transaction without broadcasting it. Uses `compute_transaction`,
+     * falling back to `push_ro_transaction` on nodes which don't provide it.
+     */
+    public async dryRun(pushTransactionArgs: PushTransactionArgs): Promise<DryRunReport> {
+        if (this.computeTransactionAvailable !== false) {
+            try {
+                const { processed } = await this.rpc.compute_transaction(pushTransactionArgs);
+                this.computeTransactionAvailable = true;
+                return this.dryRunReport(processed, 'compute_transaction');
+            } catch (e) {
+                if (!(e instanceof RpcError) || e.status !== 404) {
+                    throw e;
+                }
+                this.computeTransactionAvailable = false;
+            }
+        }
+        const { result } = await this.rpc.push_ro_transaction(pushTransactionArgs, true);
+        return this.dryRunReport(result, 'push_ro_transaction');
+    }
+
+    /**
+     * Decode the return value of action `actionName` of `accountName` with the `result_type` declared in the abi
+     * `action_results`. Resolves to `undefined` if the abi declares no result for the action.
+     */
+    public async deserializeActionResult(accountName: string, actionName: string, hex: string): Promise<any> {
+        const abi = await this.getAbi(accountName);
+        const actionResult = (abi.action_results || []).find((result) => result.name === actionName);
+        if (!actionResult) {
+            return undefined;
+        }
+        const contract = await this.getContract(accountName);
+        const buffer = new ser.SerialBuffer({
+            textEncoder: this.textEncoder,
+            textDecoder: this.textDecoder,
+            array: ser.hexToUint8Array(hex),
+        });
+        return ser.getType(contract.types, actionResult.result_type).deserialize(buffer);
+    }
+
+    /**
+     * Fill in `return_value_data` of the action traces in `trace`, including inline traces, by decoding
+     * `return_value_hex_data` with the abi `action_results`. Values already decoded by the node are kept;
+     * actions without a declared result, or whose abi can't be fetched, are left undecoded.
+     */
+    public async deserializeActionResults<T extends TransactionTrace>(trace: T): Promise<T> {
+        await Promise.all(flattenActionTraces((trace && trace.action_traces) || []).map(async (actionTrace) => {
+            const { act, return_value_hex_data } = actionTrace;
+            if (!return_value_hex_data || actionTrace.return_value_data !== undefined) {
+                return;
+            }
+            try {
+                const data = await this.deserializeActionResult(act.account, act.name, return_value_hex_data);
+                if (data !== undefined) {
+                    actionTrace.return_value_data = data;
+                }
+            } catch (e) {
+                // The transaction already went through; a missing abi only leaves the value undecoded
+            }
+        }));
+        return trace;
+    }
+
     public async query(
         account: string, short: boolean, query: Query,
         { sign, requiredKeys, authorization = [] }: QueryConfig
@@ -580,8 +968,20 @@ export class Api {
         }
     }
 
-    public with(accountName: string): ActionBuilder {
-        return new ActionBuilder(this, accountName);
+    /**
+     * Actions and tables of the contract deployed to `accountName`. Fetches the abi when needed.
+     * `Actions` and `Tables` can be the `ActionSerializer` and `Tables` interfaces generated by `generateTypes`.
+     */
+    public async contract<Actions = ContractActionsType, Tables = { [tableName: string]: any }>(
+        accountName: string
+    ): Promise<ContractWrapper<Actions, Tables>> {
+        const contract = await this.getContract(accountName);
+        return new ContractWrapper<Actions, Tables>(this, accountName, await this.getAbi(accountName), contract);
+    }
+
+    /** Build an action of `accountName`. `T` can be an action serializer interface generated by `generateTypes` */
+    public with<T = ActionSerializerType>(accountName: string): ActionBuilder<T> {
+        return new ActionBuilder<T>(this, accountName);
     }
 
     public buildTransaction(cb?: (tx: TransactionBuilder) => void): TransactionBuilder|void {
@@ -593,16 +993,39 @@ export class Api {
     }
 } // Api
 
+const defaultResubmitPolicy: ResubmitPolicy = {
+    maxResubmits: 3,
+    errorCodes: [expiredTransactionErrorCode, refBlockErrorCode],
+};
+
+/** Should a push which failed with `error` be resubmitted under `policy`? */
+const isResubmittable = (error: any, policy: ResubmitPolicy): boolean => {
+    const { maxResubmits, errorCodes } = { ...defaultResubmitPolicy, ...policy };
+    return maxResubmits > 0 && error instanceof RpcError && !!error.json && !!error.json.error
+        && errorCodes.includes(error.json.error.code);
+};
+
+/** Action traces including nested `inline_traces` (reported by older nodes) as one list in execution order */
+const flattenActionTraces = (traces: ActionTrace[]): ActionTrace[] => {
+    const flat: ActionTrace[] = [];
+    const visit = (trace: ActionTrace): void => {
+        flat.push(trace);
+        (trace.inline_traces || []).forEach(visit);
+    };
+    traces.forEach(visit);
+    return flat.sort((a, b) => (a.action_ordinal || 0) - (b.action_ordinal || 0));
+};
+
 export class TransactionBuilder {
     private api: Api;
-    private actions: ActionBuilder[] = [];
+    private actions: ActionBuilder<any>[] = [];
     private contextFreeGroups: ContextFreeGroupCallback[] = [];
     constructor(api: Api) {
         this.api = api;
     }
 
-    public with(accountName: string): ActionBuilder {
-        const actionBuilder = new ActionBuilder(this.api, accountName);
+    public with<T = ActionSerializerType>(accountName: string): ActionBuilder<T> {
+        const actionBuilder = new ActionBuilder<T>(this.api, accountName);
         this.actions.push(actionBuilder);
         return actionBuilder;
     }
@@ -612,7 +1035,9 @@ export class TransactionBuilder {
         return this;
     }
 
-    public async send(config?: TransactConfig): Promise<PushTransactionArgs|ReadOnlyTransactResult|TransactResult> {
+    public async send(
+        config?: TransactConfig
+    ): Promise<PushTransactionArgs|ReadOnlyTransactResult|TransactResult|DuplicateTransactResult|DryRunReport> {
         const contextFreeDataSet: Uint8Array[] = [];
         const contextFreeActions: ser.SerializedAction[] = [];
         const actions: ser.SerializedAction[] = this.actions.map((actionBuilder) => actionBuilder.serializedData as ser.SerializedAction);
@@ -643,7 +1068,7 @@ export class TransactionBuilder {
     }
 }
 
-export class ActionBuilder {
+export class ActionBuilder<T = ActionSerializerType> {
     private api: Api;
     private readonly accountName: string;
     public serializedData: ser.SerializedAction;
@@ -653,7 +1078,7 @@ export class ActionBuilder {
         this.accountName = accountName;
     }
 
-    public as(actorName: string | ser.Authorization[] = []): ActionSerializerType {
+    public as(actorName: string | ser.Authorization[] = []): T {
         let authorization: ser.Authorization[] = [];
         if (actorName && typeof actorName === 'string') {
             authorization = [{ actor: actorName, permission: 'active'}];
@@ -661,13 +1086,13 @@ export class ActionBuilder {
             authorization = actorName as ser.Authorization[];
         }
 
-        return new ActionSerializer(this, this.api, this.accountName, authorization) as ActionSerializerType;
+        return new ActionSerializer(this, this.api, this.accountName, authorization) as unknown as T;
     }
 }
 
 class ActionSerializer implements ActionSerializerType {
     constructor(
-        parent: ActionBuilder,
+        parent: ActionBuilder<any>,
         api: Api,
         accountName: string,
         authorization: ser.Authorization[],
@@ -681,14 +1106,11 @@ class ActionSerializer implements ActionSerializerType {
         for (const { name, type } of jsonAbi.abi.actions) {
             actions.set(name, ser.getType(types, type));
         }
+        const variants = new Set((jsonAbi.abi.variants || []).map((variant) => variant.name));
         actions.forEach((type, name) => {
             Object.assign(this, {
                 [name]: (...args: any[]) => {
-                    const data: { [key: string]: any } = {};
-                    args.forEach((arg, index) => {
-                        const field = type.fields[index];
-                        data[field.name] = arg;
-                    });
+                    const data = actionDataFromArgs(name, type, args, variants);
                     const serializedData = ser.serializeAction(
                         { types, actions },
                         accountName,
@@ -0,0 +1,297 @@
+/**
+ * @module Contract
+ */
+// copyright defined in eosjs/LICENSE.txt
+/* eslint-disable max-classes-per-file */
+
+import { Api } from './eosjs-api';
+import { encodeIndexKey, indexKeyType, IndexKeyValue } from './eosjs-index-keys';
+import { Abi, GetTableRowsResult } from './eosjs-rpc-interfaces';
+import { PaginationOptions } from './eosjs-rpc-pagination';
+import * as ser from './eosjs-serialize';
+
+/** Actions of a contract, taking positional arguments or a single object of named fields */
+export interface ContractActionsType {
+    [actionName: string]: (...args: any[]) => ser.SerializedAction;
+}
+
+/** Options of `ContractTable.rows`, see `JsonRpc.get_table_rows` */
+export interface TableRowsOptions {
+    /** Defaults to the contract account */
+    scope?: string;
+    lower_bound?: string;
+    upper_bound?: string;
+    index_position?: number | string;
+    key_type?: string;
+    limit?: number;
+    reverse?: boolean;
+    show_payer?: boolean;
+}
+
+/** `GetTableRowsResult` with typed rows */
+export interface TableRowsResult<Row> extends GetTableRowsResult {
+    rows: Row[];
+}
+
+/** Builtin types holding numbers, and those which also take numbers given as strings */
+const numberTypes = ['int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32', 'varint32', 'varuint32', 'float32', 'float64'];
+const bigNumberTypes = ['int64', 'uint64', 'int128', 'uint128'];
+
+/** Fields of struct `type` including those of its bases, in serialization order */
+export const structFields = (type: ser.Type): ser.Field[] =>
+    type.base ? [...structFields(type.base), ...type.fields] : type.fields;
+
+/** Can a field of `type` be left out? */
+const isOptional = (type: ser.Type): boolean => !!type.optionalOf || !!type.extensionOf;
+
+const isPlainObject = (value: any): boolean =>
+    !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array);
+
+/**
+ * Check `value` against `type` before it is serialized, throwing an error naming the offending field.
+ * `variants` holds the names of the variant types of the abi.
+ */
+export const checkValue = (type: ser.Type, value: any, path: string, variants: Set<string>): void => {
+    const fail = (expected: string): never => {
+        const got = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+        throw new Error(`${path}: expected ${expected}, got ${got}`);
+    };
+    if (type.optionalOf || type.extensionOf) {
+        if (value !== null && value !== undefined) {
+            checkValue(type.optionalOf || type.extensionOf, value, path, variants);
+        }
+    } else if (type.arrayOf) {
+        if (!Array.isArray(value)) {
+            fail(`${type.name} array`);
+        }
+        value.forEach((element: any, index: number) => checkValue(type.arrayOf, element, `${path}[${index}]`, variants));
+    } else if (variants.has(type.name)) {
+        const alternative = Array.isArray(value) && value.length === 2
+            && type.fields.find((field) => field.name === value[0]);
+        if (!alternative) {
+            fail(`${type.name} variant [type, value] with type one of ${type.fields.map((field) => field.name).join(', ')}`);
+        }
+        checkValue(alternative.type, value[1], path, variants);
+    } else if (type.base || type.fields.length) {
+        if (!isPlainObject(value)) {
+            fail(`${type.name} object`);
+        }
+        checkFields(structFields(type), value, path, variants);
+    } else if (type.name === 'bool') {
+        if (typeof value !== 'boolean') {
+            fail('bool');
+        }
+    } else if (numberTypes.includes(type.name)) {
+        if (typeof value !== 'number') {
+            fail(type.name);
+        }
+    } else if (bigNumberTypes.includes(type.name)) {
+        if (typeof value !== 'number' && !(typeof value === 'string' && /^-?[0-9]+$/.test(value))) {
+            fail(`${type.name} as number or decimal string`);
+        }
+    } else if (type.name === 'bytes') {
+        if (typeof value !== 'string' && !Array.isArray(value) && !(value instanceof Uint8Array)) {
+            fail('bytes as hex string or byte array');
+        }
+    } else if (typeof value !== 'string') {
+        fail(type.name);
+    }
+};
+
+/** Check that `data` has exactly the fields in `fields`, each of the right type */
+const checkFields = (fields: ser.Field[], data: any, path: string, variants: Set<string>): void => {
+    const names = new Set(fields.map((field) => field.name));
+    for (const key of Object.keys(data)) {
+        if (!names.has(key)) {
+            throw new Error(`${path}: unknown field ${key}`);
+        }
+    }
+    for (const field of fields) {
+        if (data[field.name] === undefined && !isOptional(field.type)) {
+            throw new Error(`${path}: missing field ${field.name}`);
+        }
+        checkValue(field.type, data[field.name], `${path}.${field.name}`, variants);
+    }
+};
+
+/**
+ * Turn the arguments of an action call into its data. `args` is either a single object of named fields,
+ * or the field values (including those of base structs) in order.
+ */
+export const actionDataFromArgs = (
+    actionName: string, type: ser.Type, args: any[], variants: Set<string>
+): { [key: string]: any } => {
+    const fields = structFields(type);
+    const names = new Set(fields.map((field) => field.name));
+    const named = args.length === 1 && isPlainObject(args[0])
+        && (fields.length !== 1 || Object.keys(args[0]).every((key) => names.has(key)));
+    let data: { [key: string]: any };
+    if (named) {
+        data = args[0];
+    } else {
+        if (args.length > fields.length) {
+            throw new Error(`${actionName}: expected at most ${fields.length} arguments, got ${args.length}`);
+        }
+        data = {};
+        args.forEach((arg, index) => data[fields[index].name] = arg);
+    }
+    checkFields(fields, data, actionName, variants);
+    return data;
+};
+
+/** Options of `ContractTable.query` */
+export interface IndexQueryOptions extends PaginationOptions {
+    /** Defaults to the contract account */
+    scope?: string;
+
+    /** Index to read by: a name from the table's abi `key_names`, or the index position (`1` for the primary key) */
+    index?: string | number;
+
+    /** Key type of the index, defaults to the matching abi `key_types` entry, or `i64` */
+    keyType?: string;
+
+    /** Lowest key to read, as a native value (name, number, decimal string or hex checksum) */
+    lower?: IndexKeyValue;
+
+    /** Highest key to read */
+    upper?: IndexKeyValue;
+
+    reverse?: boolean;
+}
+
+/** Reads the rows of one table declared in a contract's abi */
+export class ContractTable<Row = any> {
+    public name: string;
+
+    constructor(
+        private api: Api,
+        public account: string,
+        private definition: Abi['tables'][number],
+        private type: ser.Type,
+    ) {
+        this.name = definition.name;
+    }
+
+    public async rows(options: TableRowsOptions = {}): Promise<TableRowsResult<Row>> {
+        return await this.api.rpc.get_table_rows({
+            ...options,
+            json: true,
+            code: this.account,
+            scope: options.scope || this.account,
+            table: this.name,
+        });
+    }
+
+    /** All rows within the bounds of `options`, fetched page by page as they are consumed */
+    public iterate(options: TableRowsOptions & PaginationOptions = {}): AsyncIterable<Row> {
+        return this.api.rpc.iterateTableRows<Row>({
+            ...options,
+            code: this.account,
+            scope: options.scope || this.account,
+            table: this.name,
+        });
+    }
+
+    /**
+     * Rows between `lower` and `upper` of an index, decoded with the table's row type.
+     * The bounds are encoded in the format the node expects for the index key type.
+     */
+    public query(options: IndexQueryOptions = {}): AsyncIterable<Row> {
+        const { position, keyType } = this.resolveIndex(options.index, options.keyType);
+        const lower = options.lower === undefined ? undefined : encodeIndexKey(keyType, options.lower);
+        const upper = options.upper === undefined ? undefined : encodeIndexKey(keyType, options.upper);
+        const rows = this.api.rpc.iterateTableRows<string>({
+            json: false,
+            code: this.account,
+            scope: options.scope || this.account,
+            table: this.name,
+            index_position: position,
+            key_type: indexKeyType(keyType),
+            lower_bound: lower && lower.value,
+            upper_bound: upper && upper.value,
+            reverse: options.reverse,
+            limit: options.limit,
+            pageSize: options.pageSize,
+        });
+        const decodeRow = (hex: string): Row => this.decodeRow(hex);
+        return {
+            [Symbol.asyncIterator]: async function* (): AsyncGenerator<Row> {
+                for await (const hex of rows) {
+                    yield decodeRow(hex);
+                }
+            },
+        };
+    }
+
+    /** The row whose key in `index` equals `value`, or `undefined` */
+    public async find(value: IndexKeyValue, options: IndexQueryOptions = {}): Promise<Row | undefined> {
+        for await (const row of this.query({ ...options, lower: value, upper: value, limit: 1 })) {
+            return row;
+        }
+        return undefined;
+    }
+
+    /** Index position and key type of `index`, looked up in the abi `key_names` and `key_types` */
+    private resolveIndex(index: string | number = 1, keyType?: string): { position: number, keyType: string } {
+        const keyNames = this.definition.key_names || [];
+        const keyTypes = this.definition.key_types || [];
+        const offset = typeof index === 'number' ? index - 1 : keyNames.indexOf(index);
+        if (offset < 0) {
+            throw new Error(`Table ${this.name} has no index ${index}`);
+        }
+        return { position: offset + 1, keyType: keyType || keyTypes[offset] || 'i64' };
+    }
+
+    private decodeRow(hex: string): Row {
+        const buffer = new ser.SerialBuffer({
+            textEncoder: this.api.textEncoder,
+            textDecoder: this.api.textDecoder,
+            array: ser.hexToUint8Array(hex),
+        });
+        return this.type.deserialize(buffer);
+    }
+}
+
+/**
+ * Actions and tables of the contract deployed to `account`, created by `api.contract()`.
+ * `Actions` and `Tables` can be the `ActionSerializer` and `Tables` interfaces generated by `generateTypes`.
+ */
+export class ContractWrapper<Actions = ContractActionsType, Tables = { [tableName: string]: any }> {
+    public tables: { [K in keyof Tables]: ContractTable<Tables[K]> };
+
+    private variants: Set<string>;
+
+    constructor(private api: Api, public account: string, public abi: Abi, private contract: ser.Contract) {
+        this.variants = new Set((abi.variants || []).map((variant) => variant.name));
+        const tables: { [tableName: string]: ContractTable } = {};
+        for (const table of abi.tables || []) {
+            tables[table.name] = new ContractTable(api, account, table, ser.getType(contract.types, table.type));
+        }
+        this.tables = tables as { [K in keyof Tables]: ContractTable<Tables[K]> };
+    }
+
+    /** Actions without authorization, e.g. for context free actions */
+    public get actions(): Actions {
+        return this.as([]);
+    }
+
+    /** Actions authorized by `actorName@active`, or by `authorization` */
+    public as(actorName: string | ser.Authorization[]): Actions {
+        const authorization = typeof actorName === 'string'
+            ? [{ actor: actorName, permission: 'active' }]
+            : actorName;
+        const actions: ContractActionsType = {};
+        this.contract.actions.forEach((type, name) => {
+            actions[name] = (...args: any[]) => ser.serializeAction(
+                this.contract,
+                this.account,
+                name,
+                authorization,
+                actionDataFromArgs(name, type, args, this.variants),
+                this.api.textEncoder,
+                this.api.textDecoder,
+            );
+        });
+        return actions as unknown as Actions;
+    }
+}
@@ -0,0 +1,691 @@
+/**
+ * @module Crypto-Backend
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { ec as EC } from 'elliptic';
+import { hmac, sha256 } from 'hash.js';
+
+import { Key, KeyType } from './eosjs-numeric';
+
+/**
+ * Signs and verifies with K1 and R1 keys. Messages are hashed with sha256 by the backend, signatures are EOSIO
+ * signature data: the recovery byte followed by r and s
+ */
+export interface CryptoBackend {
+    /** Compressed public key of `privateKey` */
+    getPublicKey(privateKey: Key): Promise<Key>;
+
+    sign(privateKey: Key, message: Uint8Array): Promise<Key>;
+
+    verify(signature: Key, message: Uint8Array, publicKey: Key): Promise<boolean>;
+
+    /** Public key which made `signature` of `message` */
+    recover(signature: Key, message: Uint8Array): Promise<Key>;
+}
+
+/**
+ * Backend with synchronous operations on digests as well, which `PrivateKey`, `PublicKey` and `Signature` are built
+ * on. Digests longer than 256 bits are truncated, as `elliptic` does
+ */
+export interface SyncCryptoBackend extends CryptoBackend {
+    /** Compressed public key of `privateKey`. Throws if `privateKey` is out of range */
+    getPublicKeySync(privateKey: Key): Key;
+
+    /** Signature of `digest` itself; K1 signatures are canonical */
+    signDigest(privateKey: Key, digest: Uint8Array): Key;
+
+    verifyDigest(signature: Key, digest: Uint8Array, publicKey: Key): boolean;
+
+    recoverDigest(signature: Key, digest: Uint8Array): Key;
+
+    /** x coordinate of `publicKey` multiplied by `privateKey`, the ECDH shared secret */
+    deriveSharedSecret(privateKey: Key, publicKey: Key): Uint8Array;
+
+    /** Is `publicKey` the encoding of a point on its curve */
+    isValidPublicKey(publicKey: Key): boolean;
+}
+
+const digest = (message: Uint8Array): Uint8Array => new Uint8Array(sha256().update(message).digest());
+
+const checkType = (key: Key): void => {
+    if (key.type !== KeyType.k1 && key.type !== KeyType.r1) {
+        throw new Error('Only K1 and R1 keys are supported by crypto backends');
+    }
+};
+
+/** Recovery byte of EOSIO signature data for a recovery parameter of `elliptic` */
+const toRecoveryByte = (recoveryParam: number): number => recoveryParam + 27 + 4;
+
+const fromRecoveryByte = (recoveryByte: number): number => {
+    let recoveryParam = recoveryByte - 27;
+    if (recoveryParam > 3) {
+        recoveryParam -= 4;
+    }
+    return recoveryParam & 3;
+};
+
+/** Is the signature data `r` and `s` accepted by K1 signature verification of EOSIO */
+const isCanonical = (signature: Uint8Array): boolean =>
+    !(signature[1] & 0x80) && !(signature[1] === 0 && !(signature[2] & 0x80))
+    && !(signature[33] & 0x80) && !(signature[33] === 0 && !(signature[34] & 0x80));
+
+/** expensive to construct; so we do it once per key type and reuse it */
+const ellipticCurves = new Map<KeyType, EC>();
+
+/** Curve of `key`. `elliptic` is only evaluated once a curve is needed; bundlers still include it */
+const ellipticCurve = (key: Key): EC => {
+    checkType(key);
+    if (!ellipticCurves.has(key.type)) {
+        const { ec } = require('elliptic');
+        ellipticCurves.set(key.type, new ec(key.type === KeyType.k1 ? 'secp256k1' : 'p256'));
+    }
+    return ellipticCurves.get(key.type);
+};
+
+const ellipticSignature = ({ data }: Key) =>
+    ({ r: data.subarray(1, 33), s: data.subarray(33, 65), recoveryParam: fromRecoveryByte(data[0]) });
+
+/** Backend using `elliptic`, which is evaluated when the backend is first used. It is the default backend */
+export const ellipticBackend: SyncCryptoBackend = {
+    getPublicKeySync(privateKey: Key): Key {
+        const keyPair = ellipticCurve(privateKey).keyFromPrivate(privateKey.data);
+        if (!keyPair.validate().result) {
+            throw new Error('Invalid private key');
+        }
+        return { type: privateKey.type, data: new Uint8Array(keyPair.getPublic().encodeCompressed('array')) };
+    },
+
+    signDigest(privateKey: Key, hash: Uint8Array): Key {
+        const keyPair = ellipticCurve(privateKey).keyFromPrivate(privateKey.data);
+        for (let tries = 1; ; ++tries) {
+            const options = privateKey.type === KeyType.k1 ? { canonical: true, pers: [tries] } : { canonical: true };
+            const { r, s, recoveryParam } = keyPair.sign(hash, options);
+            const data = new Uint8Array([toRecoveryByte(recoveryParam), ...r.toArray('be', 32), ...s.toArray('be', 32)]);
+            if (privateKey.type !== KeyType.k1 || isCanonical(data)) {
+                return { type: privateKey.type, data };
+            }
+        }
+    },
+
+    verifyDigest(signature: Key, hash: Uint8Array, publicKey: Key): boolean {
+        const ec = ellipticCurve(signature);
+        return signature.type === publicKey.type
+            && ec.verify(hash, ellipticSignature(signature), ec.keyFromPublic(publicKey.data));
+    },
+
+    recoverDigest(signature: Key, hash: Uint8Array): Key {
+        const ec = ellipticCurve(signature);
+        const { r, s, recoveryParam } = ellipticSignature(signature);
+        const point = ec.recoverPubKey(hash, { r, s }, recoveryParam);
+        return { type: signature.type, data: new Uint8Array(point.encodeCompressed('array')) };
+    },
+
+    deriveSharedSecret(privateKey: Key, publicKey: Key): Uint8Array {
+        const ec = ellipticCurve(privateKey);
+        if (publicKey.type !== privateKey.type) {
+            throw new Error('Shared secrets need keys of the same type');
+        }
+        const x = ec.keyFromPrivate(privateKey.data).derive(ec.keyFromPublic(publicKey.data).getPublic());
+        return new Uint8Array(x.toArray('be', 32));
+    },
+
+    isValidPublicKey(publicKey: Key): boolean {
+        try {
+            return ellipticCurve(publicKey).keyFromPublic(publicKey.data).validate().result;
+        } catch (e) {
+            return false;
+        }
+    },
+
+    async getPublicKey(privateKey: Key): Promise<Key> {
+        return ellipticBackend.getPublicKeySync(privateKey);
+    },
+
+    async sign(privateKey: Key, message: Uint8Array): Promise<Key> {
+        return ellipticBackend.signDigest(privateKey, digest(message));
+    },
+
+    async verify(signature: Key, message: Uint8Array, publicKey: Key): Promise<boolean> {
+        return ellipticBackend.verifyDigest(signature, digest(message), publicKey);
+    },
+
+    async recover(signature: Key, message: Uint8Array): Promise<Key> {
+        return ellipticBackend.recoverDigest(signature, digest(message));
+    },
+};
+
+let defaultBackend: SyncCryptoBackend = ellipticBackend;
+
+/** Backend of keys and signatures made without one, and of `JsSignatureProvider`s. `ellipticBackend` unless set */
+export const getDefaultCryptoBackend = (): SyncCryptoBackend => defaultBackend;
+
+/** Make `backend` the default, e.g. `pureBackend` where `elliptic` and `Buffer` aren't available */
+export const setDefaultCryptoBackend = (backend: SyncCryptoBackend): void => {
+    defaultBackend = backend;
+};
+
+/** Small `bigint`s, assigned by `curveOf` as this module is imported where `BigInt` may not exist */
+let zero: bigint;
+let one: bigint;
+let two: bigint;
+let three: bigint;
+let four: bigint;
+let eight: bigint;
+let fifteen: bigint;
+
+const bytesToBigInt = (bytes: ArrayLike<number>): bigint => {
+    let hex = '0x0';
+    for (let i = 0; i < bytes.length; ++i) {
+        hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+    }
+    return BigInt(hex);
+};
+
+/** The 32 big-endian bytes of `value`, which is below 2^256 */
+const bigIntToBytes = (value: bigint): Uint8Array => {
+    const hex = value.toString(16).padStart(64, '0');
+    const bytes = new Uint8Array(32);
+    for (let i = 0; i < 32; ++i) {
+        bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+};
+
+/** `value` modulo `modulus`, from 0 to `modulus - 1` */
+const mod = (value: bigint, modulus: bigint): bigint => {
+    const result = value % modulus;
+    return result < zero ? result + modulus : result;
+};
+
+/** Inverse of `value` modulo the prime `modulus`, with the extended euclidean algorithm */
+const invert = (value: bigint, modulus: bigint): bigint => {
+    let a = mod(value, modulus);
+    let b = modulus;
+    let x = one;
+    let y = zero;
+    while (b !== zero) {
+        const q = a / b;
+        const r = a - q * b;
+        a = b;
+        b = r;
+        const t = x - q * y;
+        x = y;
+        y = t;
+    }
+    if (a !== one) {
+        throw new Error('Value is not invertible');
+    }
+    return mod(x, modulus);
+};
+
+const power = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+    let result = one;
+    let b = mod(base, modulus);
+    for (let e = exponent; e > zero; e >>= one) {
+        if (e & one) {
+            result = result * b % modulus;
+        }
+        b = b * b % modulus;
+    }
+    return result;
+};
+
+/** Point in jacobian coordinates. `z` is zero for the point at infinity */
+interface Point {
+    x: bigint;
+    y: bigint;
+    z: bigint;
+}
+
+/** The 64 4-bit digits of `scalar`, which is below 2^256, least significant first */
+const toNibbles = (scalar: bigint): number[] => {
+    const nibbles = [];
+    for (let i = 0, rest = scalar; i < 64; ++i, rest >>= four) {
+        nibbles.push(Number(rest & fifteen));
+    }
+    return nibbles;
+};
+
+/** Short Weierstrass curve `y^2 = x^3 + ax + b` over a prime field with `p = 3 mod 4`, with an order of 256 bits */
+class Curve {
+    public n: bigint;
+    public g: Point;
+    private a: bigint;
+    private b: bigint;
+    private p: bigint;
+    private infinity: Point = { x: one, y: one, z: zero };
+    private baseMultiples: Point[][];
+
+    constructor(params: { p: string, a: string, b: string, n: string, gx: string, gy: string }) {
+        this.p = BigInt('0x' + params.p);
+        this.a = BigInt('0x' + params.a);
+        this.b = BigInt('0x' + params.b);
+        this.n = BigInt('0x' + params.n);
+        this.g = { x: BigInt('0x' + params.gx), y: BigInt('0x' + params.gy), z: one };
+    }
+
+    public toAffine(point: Point): { x: bigint, y: bigint } {
+        const { p } = this;
+        const zInverse = invert(point.z, p);
+        const zInverse2 = zInverse * zInverse % p;
+        return { x: point.x * zInverse2 % p, y: point.y * zInverse2 % p * zInverse % p };
+    }
+
+    /** Point of the compressed or uncompressed encoding `data` */
+    public decode(data: Uint8Array): Point {
+        const x = bytesToBigInt(data.subarray(1, 33));
+        if (data.length === 65 && data[0] === 4) {
+            return this.checkOnCurve({ x, y: bytesToBigInt(data.subarray(33, 65)), z: one });
+        }
+        if (data.length !== 33 || (data[0] !== 2 && data[0] !== 3)) {
+            throw new Error('Invalid public key encoding');
+        }
+        return this.pointFromX(x, data[0] === 3);
+    }
+
+    /** Compressed or uncompressed encoding of `point` */
+    public encode(point: Point, compressed = true): Uint8Array {
+        const { x, y } = this.toAffine(point);
+        return new Uint8Array(compressed
+            ? [y & one ? 3 : 2, ...bigIntToBytes(x)]
+            : [4, ...bigIntToBytes(x), ...bigIntToBytes(y)]);
+    }
+
+    public pointFromX(x: bigint, odd: boolean): Point {
+        const { p } = this;
+        if (x >= p) {
+            throw new Error('Invalid point');
+        }
+        let y = power((x * x % p * x + this.a * x + this.b) % p, (p + one) / four, p);
+        if (!!(y & one) !== odd) {
+            y = p - y;
+        }
+        return this.checkOnCurve({ x, y, z: one });
+    }
+
+    public isInfinity(point: Point): boolean {
+        return point.z === zero;
+    }
+
+    public double(point: Point): Point {
+        if (this.isInfinity(point) || point.y === zero) {
+            return this.infinity;
+        }
+        // dbl-2007-bl
+        const { p } = this;
+        const xx = point.x * point.x % p;
+        const yy = point.y * point.y % p;
+        const yyyy = yy * yy % p;
+        const zz = point.z * point.z % p;
+        const xyy = point.x + yy;
+        const s = two * mod(xyy * xyy - xx - yyyy, p) % p;
+        const m = (three * xx + this.a * (zz * zz % p)) % p;
+        const x = mod(m * m - two * s, p);
+        const y = mod(m * (s - x) - eight * yyyy, p);
+        const yz = point.y + point.z;
+        const z = mod(yz * yz - yy - zz, p);
+        return { x, y, z };
+    }
+
+    public add(p1: Point, p2: Point): Point {
+        if (this.isInfinity(p1)) {
+            return p2;
+        }
+        if (this.isInfinity(p2)) {
+            return p1;
+        }
+        // add-2007-bl
+        const { p } = this;
+        const z1z1 = p1.z * p1.z % p;
+        const z2z2 = p2.z * p2.z % p;
+        const u1 = p1.x * z2z2 % p;
+        const u2 = p2.x * z1z1 % p;
+        const s1 = p1.y * p2.z % p * z2z2 % p;
+        const s2 = p2.y * p1.z % p * z1z1 % p;
+        const h = mod(u2 - u1, p);
+        const r = mod(two * (s2 - s1), p);
+        if (h === zero) {
+            return r === zero ? this.double(p1) : this.infinity;
+        }
+        const i = four * h * h % p;
+        const j = h * i % p;
+        const v = u1 * i % p;
+        const x = mod(r * r - j - two * v, p);
+        const y = mod(r * (v - x) - two * s1 * j, p);
+        const zz = p1.z + p2.z;
+        const z = mod(zz * zz - z1z1 - z2z2, p) * h % p;
+        return { x, y, z };
+    }
+
+    /** `scalar` (below 2^256) times `point`, adding multiples of `point` 4 bits of `scalar` at a time */
+    public multiply(point: Point, scalar: bigint): Point {
+        const multiples = [this.infinity, point];
+        for (let i = 2; i < 16; ++i) {
+            multiples.push(this.add(multiples[i - 1], point));
+        }
+        const nibbles = toNibbles(scalar);
+        let result = this.infinity;
+        for (let window = 63; window >= 0; --window) {
+            result = this.double(this.double(this.double(this.double(result))));
+            result = this.add(result, multiples[nibbles[window]]);
+        }
+        return result;
+    }
+
+    /** `scalar` times the generator, from a table of the multiples of `16^i g` built on first use */
+    public multiplyBase(scalar: bigint): Point {
+        if (!this.baseMultiples) {
+            this.baseMultiples = [];
+            let base = this.g;
+            for (let window = 0; window < 64; ++window) {
+                const multiples = [this.infinity, base];
+                for (let i = 2; i < 16; ++i) {
+                    multiples.push(this.add(multiples[i - 1], base));
+                }
+                this.baseMultiples.push(multiples);
+                base = this.add(multiples[15], base);
+            }
+        }
+        const nibbles = toNibbles(scalar);
+        let result = this.infinity;
+        for (let window = 0; window < 64; ++window) {
+            result = this.add(result, this.baseMultiples[window][nibbles[window]]);
+        }
+        return result;
+    }
+
+    /** Number signed for `hash`: truncated to 256 bits and reduced below `n`, like `elliptic` does */
+    public digestToScalar(hash: Uint8Array): bigint {
+        let e = bytesToBigInt(hash);
+        const excessBits = Math.ceil(e.toString(16).length / 2) * 8 - 256;
+        if (excessBits > 0) {
+            e >>= BigInt(excessBits);
+        }
+        return e >= this.n ? e - this.n : e;
+    }
+
+    /** The private key `data` as a number. Throws if it is out of range */
+    public privateScalar(data: Uint8Array): bigint {
+        const d = bytesToBigInt(data);
+        if (d === zero || d >= this.n) {
+            throw new Error('Invalid private key');
+        }
+        return d;
+    }
+
+    private checkOnCurve(point: Point): Point {
+        const { x, y } = point;
+        if (mod(y * y - (x * x % this.p * x + this.a * x + this.b), this.p) !== zero) {
+            throw new Error('Point is not on the curve');
+        }
+        return point;
+    }
+}
+
+const secp256k1 = {
+    p: 'fffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f',
+    a: '0',
+    b: '7',
+    n: 'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+    gx: '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+    gy: '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8',
+};
+
+const p256 = {
+    p: 'ffffffff00000001000000000000000000000000ffffffffffffffffffffffff',
+    a: 'ffffffff00000001000000000000000000000000fffffffffffffffffffffffc',
+    b: '5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b',
+    n: 'ffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551',
+    gx: '6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296',
+    gy: '4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5',
+};
+
+const curves = new Map<KeyType, Curve>();
+
+/** Curve of `key`, built on first use along with the `bigint` constants */
+const curveOf = (key: Key): Curve => {
+    checkType(key);
+    if (!curves.has(key.type)) {
+        if (zero === undefined) {
+            [zero, one, two, three, four, eight, fifteen] = [0, 1, 2, 3, 4, 8, 15].map((value) => BigInt(value));
+        }
+        curves.set(key.type, new Curve(key.type === KeyType.k1 ? secp256k1 : p256));
+    }
+    return curves.get(key.type);
+};
+
+/** Nonces of RFC 6979, generated with HMAC-DRBG seeded like `elliptic` seeds it */
+const nonceGenerator = (privateKey: Uint8Array, hash: Uint8Array, extraEntropy: number[]) => {
+    const mac = (key: number[], ...data: (number[] | Uint8Array)[]): number[] =>
+        data.reduce((h, part) => h.update(part), hmac(sha256 as any, key)).digest();
+    const seed = [...privateKey, ...hash, ...extraEntropy];
+    let k = new Array(32).fill(0);
+    let v = new Array(32).fill(1);
+    k = mac(k, v, [0], seed);
+    v = mac(k, v);
+    k = mac(k, v, [1], seed);
+    v = mac(k, v);
+    return (): bigint => {
+        v = mac(k, v);
+        const result = bytesToBigInt(v);
+        k = mac(k, v, [0]);
+        v = mac(k, v);
+        return result;
+    };
+};
+
+/** Signature data of `r`, `s` and the recovery parameter in the encoding of EOSIO */
+const signatureData = (r: bigint, s: bigint, recoveryParam: number): Uint8Array =>
+    new Uint8Array([toRecoveryByte(recoveryParam), ...bigIntToBytes(r), ...bigIntToBytes(s)]);
+
+const parseSignature = ({ data }: Key) => ({
+    r: bytesToBigInt(data.subarray(1, 33)),
+    s: bytesToBigInt(data.subarray(33, 65)),
+    recoveryParam: fromRecoveryByte(data[0]),
+});
+
+/** ECDSA signature of `hash` with low `s` */
+const signWithCurve = (curve: Curve, privateKey: Uint8Array, hash: Uint8Array, extraEntropy: number[]): Uint8Array => {
+    const d = curve.privateScalar(privateKey);
+    const e = curve.digestToScalar(hash);
+    const nextNonce = nonceGenerator(privateKey, bigIntToBytes(e), extraEntropy);
+    for (;;) {
+        const k = nextNonce();
+        if (k <= one || k >= curve.n - one) {
+            continue;
+        }
+        const point = curve.toAffine(curve.multiplyBase(k));
+        const r = point.x % curve.n;
+        if (r === zero) {
+            continue;
+        }
+        let s = invert(k, curve.n) * ((r * d + e) % curve.n) % curve.n;
+        if (s === zero) {
+            continue;
+        }
+        let recoveryParam = (point.y & one ? 1 : 0) | (point.x !== r ? 2 : 0);
+        if (s > curve.n >> one) {
+            s = curve.n - s;
+            recoveryParam ^= 1;
+        }
+        return signatureData(r, s, recoveryParam);
+    }
+};
+
+const recoverWithCurve = (curve: Curve, signature: Key, hash: Uint8Array): Point => {
+    const { r, s, recoveryParam } = parseSignature(signature);
+    if (r === zero || s === zero || r >= curve.n || s >= curve.n) {
+        throw new Error('Invalid signature');
+    }
+    const point = curve.pointFromX(recoveryParam & 2 ? r + curve.n : r, !!(recoveryParam & 1));
+    const rInverse = invert(r, curve.n);
+    const e = curve.digestToScalar(hash);
+    const publicKey = curve.add(
+        curve.multiply(point, s * rInverse % curve.n),
+        curve.multiplyBase(mod(-e * rInverse, curve.n)),
+    );
+    if (curve.isInfinity(publicKey)) {
+        throw new Error('Invalid signature');
+    }
+    return publicKey;
+};
+
+/**
+ * Backend in plain JavaScript on `Uint8Array`s and `bigint`s, for K1 and R1 keys, needing neither `elliptic` nor
+ * `Buffer`. Its signatures are the ones `elliptic` makes, K1 signatures are canonical. Its arithmetic is not
+ * constant-time
+ */
+export const pureBackend: SyncCryptoBackend = {
+    getPublicKeySync(privateKey: Key): Key {
+        const curve = curveOf(privateKey);
+        return { type: privateKey.type, data: curve.encode(curve.multiplyBase(curve.privateScalar(privateKey.data))) };
+    },
+
+    signDigest(privateKey: Key, hash: Uint8Array): Key {
+        const curve = curveOf(privateKey);
+        if (privateKey.type === KeyType.r1) {
+            return { type: privateKey.type, data: signWithCurve(curve, privateKey.data, hash, []) };
+        }
+        for (let tries = 1; ; ++tries) {
+            const data = signWithCurve(curve, privateKey.data, hash, [tries]);
+            if (isCanonical(data)) {
+                return { type: privateKey.type, data };
+            }
+        }
+    },
+
+    verifyDigest(signature: Key, hash: Uint8Array, publicKey: Key): boolean {
+        const curve = curveOf(signature);
+        if (signature.type !== publicKey.type) {
+            return false;
+        }
+        const { r, s } = parseSignature(signature);
+        if (r === zero || s === zero || r >= curve.n || s >= curve.n) {
+            return false;
+        }
+        const sInverse = invert(s, curve.n);
+        const point = curve.add(
+            curve.multiplyBase(curve.digestToScalar(hash) * sInverse % curve.n),
+            curve.multiply(curve.decode(publicKey.data), r * sInverse % curve.n),
+        );
+        return !curve.isInfinity(point) && curve.toAffine(point).x % curve.n === r;
+    },
+
+    recoverDigest(signature: Key, hash: Uint8Array): Key {
+        const curve = curveOf(signature);
+        return { type: signature.type, data: curve.encode(recoverWithCurve(curve, signature, hash)) };
+    },
+
+    deriveSharedSecret(privateKey: Key, publicKey: Key): Uint8Array {
+        const curve = curveOf(privateKey);
+        if (publicKey.type !== privateKey.type) {
+            throw new Error('Shared secrets need keys of the same type');
+        }
+        const point = curve.multiply(curve.decode(publicKey.data), curve.privateScalar(privateKey.data));
+        return bigIntToBytes(curve.toAffine(point).x);
+    },
+
+    isValidPublicKey(publicKey: Key): boolean {
+        try {
+            curveOf(publicKey).decode(publicKey.data);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    },
+
+    async getPublicKey(privateKey: Key): Promise<Key> {
+        return pureBackend.getPublicKeySync(privateKey);
+    },
+
+    async sign(privateKey: Key, message: Uint8Array): Promise<Key> {
+        return pureBackend.signDigest(privateKey, digest(message));
+    },
+
+    async verify(signature: Key, message: Uint8Array, publicKey: Key): Promise<boolean> {
+        return pureBackend.verifyDigest(signature, digest(message), publicKey);
+    },
+
+    async recover(signature: Key, message: Uint8Array): Promise<Key> {
+        return pureBackend.recoverDigest(signature, digest(message));
+    },
+};
+
+const base64Url = (data: Uint8Array): string => {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+    let result = '';
+    for (let i = 0; i < data.length; i += 3) {
+        const chunk = (data[i] << 16) | ((data[i + 1] || 0) << 8) | (data[i + 2] || 0);
+        const length = Math.min(data.length - i, 3) + 1;
+        for (let j = 0; j < length; ++j) {
+            result += alphabet[(chunk >> (18 - 6 * j)) & 63];
+        }
+    }
+    return result;
+};
+
+const webCryptoAlgorithm = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+
+/**
+ * Backend signing and verifying R1 with WebCrypto, as available in browsers, Deno, edge runtimes and node's
+ * `crypto.webcrypto`. K1 keys, public key derivation and recovery, and the synchronous operations, which WebCrypto
+ * doesn't support, use `pureBackend`
+ */
+export const createWebCryptoBackend = (
+    subtle: SubtleCrypto = typeof globalThis !== 'undefined' && (globalThis as any).crypto
+        ? (globalThis as any).crypto.subtle : undefined
+): SyncCryptoBackend => {
+    if (!subtle) {
+        throw new Error('WebCrypto is not available, pass in `crypto.subtle`');
+    }
+    return {
+        ...pureBackend,
+
+        async sign(privateKey: Key, message: Uint8Array): Promise<Key> {
+            if (privateKey.type !== KeyType.r1) {
+                return pureBackend.sign(privateKey, message);
+            }
+            const p256 = curveOf(privateKey);
+            const publicKey = pureBackend.getPublicKeySync(privateKey).data;
+            const uncompressed = p256.encode(p256.decode(publicKey), false);
+            const cryptoKey = await subtle.importKey('jwk', {
+                kty: 'EC',
+                crv: 'P-256',
+                d: base64Url(privateKey.data),
+                x: base64Url(uncompressed.subarray(1, 33)),
+                y: base64Url(uncompressed.subarray(33, 65)),
+                ext: true,
+            }, webCryptoAlgorithm, false, ['sign']);
+            const signature = new Uint8Array(await subtle.sign(webCryptoAlgorithm, cryptoKey, message));
+            const r = bytesToBigInt(signature.subarray(0, 32));
+            let s = bytesToBigInt(signature.subarray(32, 64));
+            if (s > p256.n >> one) {
+                s = p256.n - s;
+            }
+            // WebCrypto doesn't tell which point `r` came from, find the one recovering the public key
+            const hash = digest(message);
+            for (let recoveryParam = 0; recoveryParam < 4; ++recoveryParam) {
+                const candidate = { type: KeyType.r1, data: signatureData(r, s, recoveryParam) };
+                try {
+                    if (p256.encode(recoverWithCurve(p256, candidate, hash)).every((byte, i) => byte === publicKey[i])) {
+                        return candidate;
+                    }
+                } catch (e) {
+                    // `r` isn't the x coordinate of a point for this recovery parameter
+                }
+            }
+            throw new Error('WebCrypto made a signature which does not recover the public key');
+        },
+
+        async verify(signature: Key, message: Uint8Array, publicKey: Key): Promise<boolean> {
+            if (signature.type !== KeyType.r1 || publicKey.type !== KeyType.r1) {
+                return pureBackend.verify(signature, message, publicKey);
+            }
+            const p256 = curveOf(publicKey);
+            const cryptoKey = await subtle.importKey(
+                'raw', p256.encode(p256.decode(publicKey.data), false), webCryptoAlgorithm, false, ['verify']);
+            return subtle.verify(webCryptoAlgorithm, cryptoKey, signature.data.subarray(1), message);
+        },
+    };
+};
@@ -0,0 +1,356 @@
+/**
+ * @module Crypto
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { BNInput } from 'elliptic';
+import { hmac, sha256, sha512 } from 'hash.js';
+
+/** `count` random bytes from `crypto.getRandomValues`, or from node's `crypto` where it isn't available */
+export const randomBytes = (count: number): Uint8Array => {
+    const webCrypto = typeof globalThis !== 'undefined' ? (globalThis as any).crypto : undefined;
+    if (webCrypto && webCrypto.getRandomValues) {
+        return webCrypto.getRandomValues(new Uint8Array(count));
+    }
+    return new Uint8Array(require('crypto').randomBytes(count));
+};
+
+/** UTF-8 encoding of `s` */
+export const toUtf8 = (s: string): number[] => {
+    const result: number[] = [];
+    for (const c of s) {
+        const code = c.codePointAt(0);
+        if (code < 0x80) {
+            result.push(code);
+        } else if (code < 0x800) {
+            result.push(0xc0 | code >> 6, 0x80 | code & 63);
+        } else if (code < 0x10000) {
+            result.push(0xe0 | code >> 12, 0x80 | code >> 6 & 63, 0x80 | code & 63);
+        } else {
+            result.push(0xf0 | code >> 18, 0x80 | code >> 12 & 63, 0x80 | code >> 6 & 63, 0x80 | code & 63);
+        }
+    }
+    return result;
+};
+
+/** PBKDF2 with HMAC-`hash`, deriving `length` bytes */
+export const pbkdf2 = (
+    hash: 'sha256' | 'sha512', password: Uint8Array | number[], salt: Uint8Array | number[], iterations: number, length: number,
+): Uint8Array => {
+    const hashFunction = (hash === 'sha256' ? sha256 : sha512) as any;
+    const mac = (data: Uint8Array | number[]): number[] => hmac(hashFunction, password).update(data).digest();
+    const result = new Uint8Array(length);
+    for (let block = 1, offset = 0; offset < length; ++block) {
+        let u = mac([...salt, block >>> 24, block >>> 16 & 0xff, block >>> 8 & 0xff, block & 0xff]);
+        const t = u.slice();
+        for (let i = 1; i < iterations; ++i) {
+            u = mac(u);
+            for (let j = 0; j < t.length; ++j) {
+                t[j] ^= u[j];
+            }
+        }
+        result.set(t.slice(0, length - offset), offset);
+        offset += t.length;
+    }
+    return result;
+};
+
+const sbox = new Uint8Array(256);
+const inverseSbox = new Uint8Array(256);
+(() => {
+    // Walk GF(2^8) with generator 3: q is the inverse of p, the s-box is the affine transform of the inverse
+    const rotate = (x: number, shift: number): number => ((x << shift) | (x >> (8 - shift))) & 0xff;
+    let p = 1;
+    let q = 1;
+    do {
+        p = (p ^ (p << 1) ^ (p & 0x80 ? 0x1b : 0)) & 0xff;
+        q ^= q << 1;
+        q ^= q << 2;
+        q ^= q << 4;
+        q &= 0xff;
+        if (q & 0x80) {
+            q ^= 0x09;
+        }
+        sbox[p] = q ^ rotate(q, 1) ^ rotate(q, 2) ^ rotate(q, 3) ^ rotate(q, 4) ^ 0x63;
+    } while (p !== 1);
+    sbox[0] = 0x63;
+    sbox.forEach((value, index) => inverseSbox[value] = index);
+})();
+
+/** Multiply by x in GF(2^8) */
+const xtime = (x: number): number => ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+
+const multiply = (x: number, y: number): number => {
+    let result = 0;
+    for (; y; y >>= 1, x = xtime(x)) {
+        if (y & 1) {
+            result ^= x;
+        }
+    }
+    return result;
+};
+
+/** AES block cipher with a 128, 192 or 256 bit key */
+export class Aes {
+    private roundKeys: Uint8Array;
+    private rounds: number;
+
+    constructor(key: Uint8Array) {
+        if (![16, 24, 32].includes(key.length)) {
+            throw new Error('AES keys must be 16, 24 or 32 bytes');
+        }
+        const keyWords = key.length / 4;
+        this.rounds = keyWords + 6;
+        const w = new Uint8Array(16 * (this.rounds + 1));
+        w.set(key);
+        for (let i = keyWords, rcon = 1; i < 4 * (this.rounds + 1); ++i) {
+            let temp = Array.from(w.subarray(4 * (i - 1), 4 * i));
+            if (i % keyWords === 0) {
+                temp = [sbox[temp[1]] ^ rcon, sbox[temp[2]], sbox[temp[3]], sbox[temp[0]]];
+                rcon = xtime(rcon);
+            } else if (keyWords > 6 && i % keyWords === 4) {
+                temp = temp.map((b) => sbox[b]);
+            }
+            for (let j = 0; j < 4; ++j) {
+                w[4 * i + j] = w[4 * (i - keyWords) + j] ^ temp[j];
+            }
+        }
+        this.roundKeys = w;
+    }
+
+    public encryptBlock(block: Uint8Array): Uint8Array {
+        const state = this.addRoundKey(new Uint8Array(block), 0);
+        for (let round = 1; round <= this.rounds; ++round) {
+            const shifted = new Uint8Array(16);
+            for (let i = 0; i < 16; ++i) {
+                shifted[i] = sbox[state[(i + 4 * (i % 4)) % 16]];
+            }
+            if (round !== this.rounds) {
+                for (let c = 0; c < 16; c += 4) {
+                    const [a0, a1, a2, a3] = shifted.subarray(c, c + 4);
+                    const all = a0 ^ a1 ^ a2 ^ a3;
+                    shifted[c] ^= all ^ xtime(a0 ^ a1);
+                    shifted[c + 1] ^= all ^ xtime(a1 ^ a2);
+                    shifted[c + 2] ^= all ^ xtime(a2 ^ a3);
+                    shifted[c + 3] ^= all ^ xtime(a3 ^ a0);
+                }
+            }
+            state.set(this.addRoundKey(shifted, round));
+        }
+        return state;
+    }
+
+    public decryptBlock(block: Uint8Array): Uint8Array {
+        let state = this.addRoundKey(new Uint8Array(block), this.rounds);
+        for (let round = this.rounds - 1; round >= 0; --round) {
+            const shifted = new Uint8Array(16);
+            for (let i = 0; i < 16; ++i) {
+                shifted[(i + 4 * (i % 4)) % 16] = inverseSbox[state[i]];
+            }
+            state = this.addRoundKey(shifted, round);
+            if (round) {
+                for (let c = 0; c < 16; c += 4) {
+                    const [a0, a1, a2, a3] = state.slice(c, c + 4);
+                    state[c] = multiply(a0, 14) ^ multiply(a1, 11) ^ multiply(a2, 13) ^ multiply(a3, 9);
+                    state[c + 1] = multiply(a0, 9) ^ multiply(a1, 14) ^ multiply(a2, 11) ^ multiply(a3, 13);
+                    state[c + 2] = multiply(a0, 13) ^ multiply(a1, 9) ^ multiply(a2, 14) ^ multiply(a3, 11);
+                    state[c + 3] = multiply(a0, 11) ^ multiply(a1, 13) ^ multiply(a2, 9) ^ multiply(a3, 14);
+                }
+            }
+        }
+        return state;
+    }
+
+    private addRoundKey(state: Uint8Array, round: number): Uint8Array {
+        for (let i = 0; i < 16; ++i) {
+            state[i] ^= this.roundKeys[16 * round + i];
+        }
+        return state;
+    }
+}
+
+/** Multiply in GF(2^128) as GCM defines it */
+const gfMultiply = (x: Uint8Array, y: Uint8Array): Uint8Array => {
+    const z = new Uint8Array(16);
+    const v = new Uint8Array(y);
+    for (let i = 0; i < 128; ++i) {
+        if (x[i >> 3] & (0x80 >> (i & 7))) {
+            for (let j = 0; j < 16; ++j) {
+                z[j] ^= v[j];
+            }
+        }
+        const carry = v[15] & 1;
+        for (let j = 15; j > 0; --j) {
+            v[j] = (v[j] >> 1) | ((v[j - 1] & 1) << 7);
+        }
+        v[0] >>= 1;
+        if (carry) {
+            v[0] ^= 0xe1;
+        }
+    }
+    return z;
+};
+
+const ghash = (h: Uint8Array, ...parts: Uint8Array[]): Uint8Array => {
+    let y = new Uint8Array(16);
+    for (const part of parts) {
+        for (let offset = 0; offset < part.length; offset += 16) {
+            const block = part.subarray(offset, offset + 16);
+            for (let i = 0; i < block.length; ++i) {
+                y[i] ^= block[i];
+            }
+            y = gfMultiply(y, h);
+        }
+    }
+    return y;
+};
+
+/** Big-endian bit lengths of `a` and `b` as two 64 bit integers */
+const bitLengths = (a: number, b: number): Uint8Array => {
+    const result = new Uint8Array(16);
+    const view = new DataView(result.buffer);
+    view.setUint32(0, Math.floor(a / 0x20000000));
+    view.setUint32(4, (a * 8) >>> 0);
+    view.setUint32(8, Math.floor(b / 0x20000000));
+    view.setUint32(12, (b * 8) >>> 0);
+    return result;
+};
+
+/** Run GCM's counter mode from `counter`, returning `data` xor the key stream */
+const gcmCounter = (aes: Aes, counter: Uint8Array, data: Uint8Array): Uint8Array => {
+    const result = new Uint8Array(data.length);
+    const block = new Uint8Array(counter);
+    const view = new DataView(block.buffer);
+    for (let offset = 0; offset < data.length; offset += 16) {
+        const stream = aes.encryptBlock(block);
+        for (let i = 0; i < 16 && offset + i < data.length; ++i) {
+            result[offset + i] = data[offset + i] ^ stream[i];
+        }
+        view.setUint32(12, (view.getUint32(12) + 1) >>> 0);
+    }
+    return result;
+};
+
+const gcm = (key: Uint8Array, iv: Uint8Array, data: Uint8Array, aad: Uint8Array, encrypt: boolean) => {
+    const aes = new Aes(key);
+    const h = aes.encryptBlock(new Uint8Array(16));
+    let j0: Uint8Array;
+    if (iv.length === 12) {
+        j0 = new Uint8Array(16);
+        j0.set(iv);
+        j0[15] = 1;
+    } else {
+        j0 = ghash(h, iv, bitLengths(0, iv.length));
+    }
+    const firstCounter = new Uint8Array(j0);
+    const view = new DataView(firstCounter.buffer);
+    view.setUint32(12, (view.getUint32(12) + 1) >>> 0);
+    const output = gcmCounter(aes, firstCounter, data);
+    const ciphertext = encrypt ? output : data;
+    const tag = gcmCounter(aes, j0, ghash(h, aad, ciphertext, bitLengths(aad.length, ciphertext.length)));
+    return { output, tag };
+};
+
+/** Encrypt with AES-GCM, authenticating `aad` as well. The tag is 16 bytes */
+export const aesGcmEncrypt = (
+    key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array, aad: Uint8Array = new Uint8Array(0)
+): { ciphertext: Uint8Array, tag: Uint8Array } => {
+    const { output, tag } = gcm(key, iv, plaintext, aad, true);
+    return { ciphertext: output, tag };
+};
+
+/** Decrypt with AES-GCM. Throws if `tag` doesn't authenticate `ciphertext` and `aad` */
+export const aesGcmDecrypt = (
+    key: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array, tag: Uint8Array, aad: Uint8Array = new Uint8Array(0)
+): Uint8Array => {
+    const { output, tag: expected } = gcm(key, iv, ciphertext, aad, false);
+    let difference = tag.length ^ expected.length;
+    for (let i = 0; i < expected.length; ++i) {
+        difference |= expected[i] ^ tag[i];
+    }
+    if (difference) {
+        throw new Error('AES-GCM authentication failed');
+    }
+    return output;
+};
+
+/** Encrypt with AES-CBC, padding `plaintext` with PKCS#7 */
+export const aesCbcEncrypt = (key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array): Uint8Array => {
+    const aes = new Aes(key);
+    const padding = 16 - plaintext.length % 16;
+    const result = new Uint8Array(plaintext.length + padding);
+    result.set(plaintext);
+    result.fill(padding, plaintext.length);
+    let previous = iv;
+    for (let offset = 0; offset < result.length; offset += 16) {
+        const block = result.subarray(offset, offset + 16);
+        for (let i = 0; i < 16; ++i) {
+            block[i] ^= previous[i];
+        }
+        previous = aes.encryptBlock(block);
+        block.set(previous);
+    }
+    return result;
+};
+
+/** Decrypt with AES-CBC, removing the PKCS#7 padding */
+export const aesCbcDecrypt = (key: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): Uint8Array => {
+    if (!ciphertext.length || ciphertext.length % 16) {
+        throw new Error('AES-CBC ciphertext must be a non-empty multiple of 16 bytes');
+    }
+    const aes = new Aes(key);
+    const result = new Uint8Array(ciphertext.length);
+    let previous = iv;
+    for (let offset = 0; offset < ciphertext.length; offset += 16) {
+        const block = ciphertext.subarray(offset, offset + 16);
+        const decrypted = aes.decryptBlock(block);
+        for (let i = 0; i < 16; ++i) {
+            result[offset + i] = decrypted[i] ^ previous[i];
+        }
+        previous = block;
+    }
+    const padding = result[result.length - 1];
+    if (padding < 1 || padding > 16 || result.subarray(result.length - padding).some((byte) => byte !== padding)) {
+        throw new Error('Invalid AES-CBC padding');
+    }
+    return result.slice(0, result.length - padding);
+};
+
+/** `s` encoded as `encoding`, with `TextEncoder` rather than `Buffer` for UTF-8 where it's available */
+export const stringToBytes = (s: string, encoding: BufferEncoding = 'utf8'): Uint8Array => {
+    if ((encoding === 'utf8' || encoding === 'utf-8') && typeof TextEncoder !== 'undefined') {
+        return new TextEncoder().encode(s);
+    }
+    return Buffer.from(s, encoding);
+};
+
+/** Bytes of a digest given the ways `elliptic` accepts it: as bytes, a hex string, a number or a `BN` */
+const toDigestBytes = (data: BNInput): Uint8Array => {
+    if (typeof data === 'number') {
+        data = data.toString(16);
+    }
+    if (typeof data === 'string') {
+        const hex = data.length % 2 ? '0' + data : data;
+        const bytes = new Uint8Array(hex.length / 2);
+        for (let i = 0; i < bytes.length; ++i) {
+            bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+        }
+        return bytes;
+    }
+    if (data instanceof Uint8Array || Array.isArray(data)) {
+        return new Uint8Array(data as ArrayLike<number>);
+    }
+    return new Uint8Array((data as { toArray(): number[] }).toArray());
+};
+
+/**
+ * Digest signed for `data`: its sha256, with strings encoded as `encoding`, or `data` itself when it is
+ * already a digest (`shouldHash` false)
+ */
+export const messageDigest = (data: BNInput, shouldHash: boolean, encoding: BufferEncoding = 'utf8'): Uint8Array => {
+    if (!shouldHash) {
+        return toDigestBytes(data);
+    }
+    const bytes = typeof data === 'string' ? stringToBytes(data, encoding) : data as Uint8Array;
+    return new Uint8Array(sha256().update(bytes).digest());
+};
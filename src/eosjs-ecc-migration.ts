@@ -1,6 +1,7 @@
 import {PrivateKey, PublicKey, Signature} from './eosjs-jssig';
 import {generateKeyPair} from './eosjs-key-conversions';
 import {KeyType} from './eosjs-numeric';
+import {decryptMessage, encryptMessage, uniqueNonce} from './eosjs-message-encryption';
 import {ec as EC} from 'elliptic';
 
 export const ecc = {
@@ -76,6 +77,25 @@ export const ecc = {
         const publicKey = sig.recover(dataSha256, false, encoding);
         return publicKey.toLegacyString();
     },
+    Aes: {
+        encrypt: (
+            privateKey: string|PrivateKey, publicKey: string|PublicKey, message: string|Buffer, nonce: string = uniqueNonce()
+        ): { nonce: string, message: Buffer, checksum: number } => {
+            const privKey = typeof privateKey === 'string' ? PrivateKey.fromString(privateKey) : privateKey;
+            const pubKey = typeof publicKey === 'string' ? PublicKey.fromString(publicKey) : publicKey;
+            const data = typeof message === 'string' ? Buffer.from(message, 'binary') : message;
+            const encrypted = encryptMessage(privKey, pubKey, data, nonce);
+            return { ...encrypted, message: Buffer.from(encrypted.message) };
+        },
+        decrypt: (
+            privateKey: string|PrivateKey, publicKey: string|PublicKey, nonce: string, message: string|Buffer, checksum: number
+        ): Buffer => {
+            const privKey = typeof privateKey === 'string' ? PrivateKey.fromString(privateKey) : privateKey;
+            const pubKey = typeof publicKey === 'string' ? PublicKey.fromString(publicKey) : publicKey;
+            const data = typeof message === 'string' ? Buffer.from(message, 'binary') : message;
+            return Buffer.from(decryptMessage(privKey, pubKey, { nonce, message: data, checksum }));
+        },
+    },
     sha256: (data: string|Buffer, resultEncoding?: string, encoding?: string): string|Buffer => {
         if (encoding !== undefined) {
             console.warn('Argument `encoding` is deprecated');
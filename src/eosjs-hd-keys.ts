@@ -0,0 +1,202 @@
+/**
+ * @module HD-Keys
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import BN = require('bn.js');
+import { ec as EC } from 'elliptic';
+import { hmac, sha256, sha512 } from 'hash.js';
+
+import { english, Wordlist } from './eosjs-bip39-wordlists';
+import { pbkdf2, randomBytes, toUtf8 } from './eosjs-crypto';
+import { constructElliptic, PrivateKey, PublicKey } from './eosjs-key-conversions';
+import { KeyType } from './eosjs-numeric';
+
+/** SLIP-44 coin type of EOSIO */
+export const eosCoinType = 194;
+
+/** Indexes from this one up are hardened */
+export const hardenedOffset = 0x80000000;
+
+let secp256k1: EC;
+
+/** secp256k1 of `elliptic`, built on first use */
+const curve = (): EC => secp256k1 || (secp256k1 = constructElliptic(KeyType.k1));
+
+/** BIP44 path of EOSIO keys: `m/44'/194'/account'/change/addressIndex` */
+export const eosDerivationPath = (account = 0, change = 0, addressIndex = 0): string =>
+    `m/44'/${eosCoinType}'/${account}'/${change}/${addressIndex}`;
+
+const hmacSha512 = (key: Uint8Array | number[], data: Uint8Array | number[]): number[] =>
+    hmac(sha512 as any, key).update(data).digest();
+
+const splitMnemonic = (mnemonic: string): string[] => mnemonic.normalize('NFKD').trim().split(/\s+/);
+
+/** Mnemonic encoding `entropy` (16 to 32 bytes, a multiple of 4) followed by its checksum */
+export const entropyToMnemonic = (entropy: Uint8Array, wordlist: Wordlist = english): string => {
+    if (entropy.length < 16 || entropy.length > 32 || entropy.length % 4) {
+        throw new Error('Entropy must be 16 to 32 bytes, a multiple of 4');
+    }
+    const checksum = sha256().update(entropy).digest()[0];
+    const bits = Array.from(entropy).map((byte) => byte.toString(2).padStart(8, '0')).join('')
+        + checksum.toString(2).padStart(8, '0').substr(0, entropy.length / 4);
+    const words = bits.match(/.{11}/g).map((chunk) => wordlist[parseInt(chunk, 2)]);
+    return words.join(' ');
+};
+
+/** Entropy encoded by `mnemonic`. Throws if a word is unknown or the checksum doesn't match */
+export const mnemonicToEntropy = (mnemonic: string, wordlist: Wordlist = english): Uint8Array => {
+    const words = splitMnemonic(mnemonic);
+    if (words.length < 12 || words.length > 24 || words.length % 3) {
+        throw new Error('Mnemonic must have 12, 15, 18, 21 or 24 words');
+    }
+    const normalizedWordlist = wordlist.map((word) => word.normalize('NFKD'));
+    const bits = words.map((word) => {
+        const index = normalizedWordlist.indexOf(word);
+        if (index < 0) {
+            throw new Error(`Unknown mnemonic word "${word}"`);
+        }
+        return index.toString(2).padStart(11, '0');
+    }).join('');
+    const checksumLength = words.length / 3;
+    const entropyBits = bits.substr(0, bits.length - checksumLength);
+    const entropy = new Uint8Array(entropyBits.match(/.{8}/g).map((byte) => parseInt(byte, 2)));
+    const checksum = sha256().update(entropy).digest()[0].toString(2).padStart(8, '0').substr(0, checksumLength);
+    if (checksum !== bits.substr(entropyBits.length)) {
+        throw new Error('Invalid mnemonic checksum');
+    }
+    return entropy;
+};
+
+/** Is `mnemonic` made of words of `wordlist` with a valid checksum */
+export const validateMnemonic = (mnemonic: string, wordlist: Wordlist = english): boolean => {
+    try {
+        mnemonicToEntropy(mnemonic, wordlist);
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * New random mnemonic of `strength` bits of entropy (128, 160, 192, 224 or 256), 12 words by default.
+ * The entropy comes from `randomBytes` of `eosjs-crypto`.
+ */
+export const generateMnemonic = (
+    strength = 128, options: { wordlist?: Wordlist, secureEnv?: boolean } = {}
+): string => {
+    if (![128, 160, 192, 224, 256].includes(strength)) {
+        throw new Error('Strength must be 128, 160, 192, 224 or 256 bits');
+    }
+    if (!options.secureEnv) {
+        throw new Error('Mnemonic generation is completely INSECURE in production environments in the browser. ' +
+            'If you are absolutely certain this does NOT describe your environment, set `secureEnv` in your ' +
+            'options to `true`.  If this does describe your environment and you set `secureEnv` to `true`, ' +
+            'YOU DO SO AT YOUR OWN RISK AND THE RISK OF YOUR USERS.');
+    }
+    return entropyToMnemonic(randomBytes(strength / 8), options.wordlist);
+};
+
+/** BIP39 seed of `mnemonic` protected by `passphrase`. Doesn't check the mnemonic, see `validateMnemonic` */
+export const mnemonicToSeed = (mnemonic: string, passphrase = ''): Uint8Array =>
+    pbkdf2('sha512', toUtf8(mnemonic.normalize('NFKD')), toUtf8(`mnemonic${passphrase}`.normalize('NFKD')), 2048, 64);
+
+/** BIP32 extended key on secp256k1. Keys without private key only derive non-hardened children */
+export class HDKey {
+    constructor(
+        public chainCode: Uint8Array,
+        public publicKeyData: Uint8Array,
+        private privateKeyData?: Uint8Array,
+        public depth = 0,
+        public index = 0,
+    ) {}
+
+    /** Master key of `seed` */
+    public static fromSeed(seed: Uint8Array): HDKey {
+        const i = hmacSha512(toUtf8('Bitcoin seed'), seed);
+        const key = new BN(i.slice(0, 32));
+        if (key.isZero() || key.cmp(curve().n) >= 0) {
+            throw new Error('Seed produces an invalid master key');
+        }
+        return HDKey.fromPrivate(new Uint8Array(i.slice(32)), key, 0, 0);
+    }
+
+    /** Master key of `mnemonic`, checked against `wordlist` */
+    public static fromMnemonic(mnemonic: string, passphrase = '', wordlist: Wordlist = english): HDKey {
+        mnemonicToEntropy(mnemonic, wordlist);
+        return HDKey.fromSeed(mnemonicToSeed(mnemonic, passphrase));
+    }
+
+    private static fromPrivate(chainCode: Uint8Array, key: BN, depth: number, index: number): HDKey {
+        const privateKeyData = new Uint8Array(key.toArray('be', 32));
+        const publicKeyData = new Uint8Array(curve().keyFromPrivate(privateKeyData).getPublic().encodeCompressed('array'));
+        return new HDKey(chainCode, publicKeyData, privateKeyData, depth, index);
+    }
+
+    /** Descendant at `path`, e.g. `m/44'/194'/0'/0/0` or `0/1` relative to this key. `'` or `h` marks hardened indexes */
+    public derive(path: string): HDKey {
+        const segments = path.split('/');
+        if (segments[0] === 'm') {
+            if (this.depth) {
+                throw new Error('Only master keys derive absolute paths');
+            }
+            segments.shift();
+        }
+        return segments.filter((segment) => segment !== '').reduce((key: HDKey, segment) => {
+            const match = /^(\d+)(['hH]?)$/.exec(segment);
+            if (!match || +match[1] >= hardenedOffset) {
+                throw new Error(`Invalid derivation path ${path}`);
+            }
+            return key.deriveChild(+match[1] + (match[2] ? hardenedOffset : 0));
+        }, this);
+    }
+
+    /** Child `index`, hardened from `hardenedOffset` up */
+    public deriveChild(index: number): HDKey {
+        const hardened = index >= hardenedOffset;
+        if (hardened && !this.privateKeyData) {
+            throw new Error('Hardened children need the private key');
+        }
+        const serializedIndex = [index >>> 24, index >>> 16 & 0xff, index >>> 8 & 0xff, index & 0xff];
+        const data = hardened ? [0, ...this.privateKeyData, ...serializedIndex] : [...this.publicKeyData, ...serializedIndex];
+        const i = hmacSha512(this.chainCode, data);
+        const ec = curve();
+        const tweak = new BN(i.slice(0, 32));
+        const chainCode = new Uint8Array(i.slice(32));
+        // BIP32: indexes producing invalid keys are skipped
+        if (tweak.cmp(ec.n) >= 0) {
+            return this.deriveChild(index + 1);
+        }
+        if (this.privateKeyData) {
+            const key = tweak.add(new BN(this.privateKeyData)).umod(ec.n);
+            return key.isZero()
+                ? this.deriveChild(index + 1)
+                : HDKey.fromPrivate(chainCode, key, this.depth + 1, index);
+        }
+        const point = ec.keyFromPublic(this.publicKeyData).getPublic().add(ec.g.mul(tweak));
+        if (point.isInfinity()) {
+            return this.deriveChild(index + 1);
+        }
+        return new HDKey(chainCode, new Uint8Array(point.encodeCompressed('array')), undefined, this.depth + 1, index);
+    }
+
+    /** The same key without its private key */
+    public neuter(): HDKey {
+        return new HDKey(this.chainCode, this.publicKeyData, undefined, this.depth, this.index);
+    }
+
+    public hasPrivateKey(): boolean {
+        return !!this.privateKeyData;
+    }
+
+    public getPrivateKey(): PrivateKey {
+        if (!this.privateKeyData) {
+            throw new Error('HD key has no private key');
+        }
+        return new PrivateKey({ type: KeyType.k1, data: this.privateKeyData });
+    }
+
+    public getPublicKey(): PublicKey {
+        return new PublicKey({ type: KeyType.k1, data: this.publicKeyData });
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * @module Index-Keys
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { binaryToDecimal, decimalToBinary } from './eosjs-numeric';
+import { arrayToHex, hexToUint8Array, SerialBuffer } from './eosjs-serialize';
+
+/** Value of a table key: a number, name, decimal string or hex checksum depending on the key type */
+export type IndexKeyValue = string | number;
+
+/** A key encoded for the `key_type` and `lower_bound`/`upper_bound` arguments of `get_table_rows` */
+export interface EncodedIndexKey {
+    key_type: string;
+    value: string;
+}
+
+/** Converts a native key value to the form the node expects for one `key_type` */
+type KeyEncoder = (value: IndexKeyValue) => string;
+
+const checkHex = (value: IndexKeyValue, bytes: number): string => {
+    const hex = ('' + value).replace(/^0x/, '');
+    if (hex.length !== bytes * 2 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new Error(`Expected ${bytes} byte hex string, got ${value}`);
+    }
+    return hex.toLowerCase();
+};
+
+const encodeUint64 = (value: IndexKeyValue): string => binaryToDecimal(decimalToBinary(8, '' + value));
+
+/** Names are sent as their uint64 value; a name made of digits would otherwise be read as a number */
+const encodeName = (value: IndexKeyValue): string => {
+    const buffer = new SerialBuffer();
+    buffer.pushName('' + value);
+    return binaryToDecimal(buffer.asUint8Array());
+};
+
+/** 128 bit keys are sent as `0x` followed by the big-endian hex value */
+const encodeUint128 = (value: IndexKeyValue): string =>
+    '0x' + arrayToHex(decimalToBinary(16, '' + value).reverse()).toLowerCase();
+
+const encodeFloat64 = (value: IndexKeyValue): string => {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (Number.isNaN(number)) {
+        throw new Error(`Expected float64, got ${value}`);
+    }
+    return '' + number;
+};
+
+/**
+ * `i256` keys are parsed as a uint256 whose little-endian bytes make up the key, which means a checksum has to be sent
+ * with its bytes reversed. Values starting with `0x` are taken to be encoded already.
+ */
+const encodeUint256 = (value: IndexKeyValue): string => {
+    if (typeof value === 'string' && value.startsWith('0x')) {
+        return value;
+    }
+    return '0x' + arrayToHex(hexToUint8Array(checkHex(value, 32)).reverse()).toLowerCase();
+};
+
+/** Node `key_type` and encoder of each key type, by the names used by nodeos and in abi `key_types` */
+const keyTypes: { [keyType: string]: [string, KeyEncoder] } = {
+    i64: ['i64', encodeUint64],
+    uint64: ['i64', encodeUint64],
+    name: ['i64', encodeName],
+    i128: ['i128', encodeUint128],
+    uint128: ['i128', encodeUint128],
+    float64: ['float64', encodeFloat64],
+    double: ['float64', encodeFloat64],
+    sha256: ['sha256', (value) => checkHex(value, 32)],
+    checksum256: ['sha256', (value) => checkHex(value, 32)],
+    i256: ['i256', encodeUint256],
+    ripemd160: ['ripemd160', (value) => checkHex(value, 20)],
+    checksum160: ['ripemd160', (value) => checkHex(value, 20)],
+};
+
+const keyTypeEntry = (keyType: string): [string, KeyEncoder] => {
+    const entry = keyTypes[keyType];
+    if (!entry) {
+        throw new Error(`Unsupported key type: ${keyType}`);
+    }
+    return entry;
+};
+
+/** The `key_type` argument of `get_table_rows` for an index with key type `keyType` */
+export const indexKeyType = (keyType: string): string => keyTypeEntry(keyType)[0];
+
+/** Encode `value` as a bound of an index with key type `keyType` (e.g. `name`, `i128`, `checksum256`) */
+export const encodeIndexKey = (keyType: string, value: IndexKeyValue): EncodedIndexKey => {
+    const [nodeKeyType, encode] = keyTypeEntry(keyType);
+    return { key_type: nodeKeyType, value: encode(value) };
+};
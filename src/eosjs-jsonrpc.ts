@@ -30,6 +30,7 @@ import {
     ReadOnlyTransactResult,
     GetBlockHeaderStateResult,
     GetTableByScopeResult,
+    GetTableByScopeResultRow,
     DBSizeGetResult,
     TraceApiGetBlockResult,
     GetActionsResult,
@@ -38,7 +39,28 @@ import {
     GetControlledAccountsResult,
 } from './eosjs-rpc-interfaces';
 import { Authorization } from './eosjs-serialize';
-import { RpcError } from './eosjs-rpcerror';
+import { DuplicateTransactionError, RpcError } from './eosjs-rpcerror';
+import { EndpointPool, EndpointPoolOptions, EndpointStatus } from './eosjs-rpc-endpoints';
+import {
+    backoffDelay,
+    defaultRetryPolicy,
+    isDuplicateTransaction,
+    isIdempotentPath,
+    isRetryable,
+    RetryPolicy,
+    sleep,
+    transactionIdFromBody,
+    withTimeout,
+} from './eosjs-rpc-retry';
+import { JsonRpcMiddleware, RpcRequestContext } from './eosjs-rpc-middleware';
+import { RpcCache, RpcCacheOptions } from './eosjs-rpc-cache';
+import {
+    IterateKvTableRowsOptions,
+    IterateScopesOptions,
+    IterateTableRowsOptions,
+    nextKey,
+    paginate,
+} from './eosjs-rpc-pagination';
 
 const arrayToHex = (data: Uint8Array): string => {
     let result = '';
@@ -50,22 +72,62 @@ const arrayToHex = (data: Uint8Array): string => {
 
 /** Make RPC calls */
 export class JsonRpc implements AuthorityProvider, AbiProvider {
+    /** Primary endpoint */
     public endpoint: string;
+
+    /** Health and routing state of all endpoints */
+    public endpointPool: EndpointPool;
+
     public fetchBuiltin: (input?: any, init?: any) => Promise<any>;
 
+    /** Timeout and retry behaviour of calls, see `defaultRetryPolicy` for the values used when left out */
+    public retryPolicy: RetryPolicy;
+
+    /** Hooks run for every request, see `use` */
+    public middleware: JsonRpcMiddleware[];
+
+    /** Cache for responses of read-only calls, `null` when caching is disabled */
+    public cache: RpcCache | null;
+
     /**
+     * @param endpoint a single endpoint, a list of endpoints to fail over between, or an `EndpointPool` to share
+     * endpoint health with another `JsonRpc`
      * @param args
-     * `fetch`:
+     * * `fetch`:
      * browsers: leave `null` or `undefined`
      * node: provide an implementation
+     * * `routing`: order in which endpoints are tried (`priority`, `round-robin` or `lowest-latency`)
+     * * `unhealthyTimeout`: milliseconds an endpoint is skipped after a network error or a stale `get_info`
+     * * `maxHeadBlockAge`: milliseconds after which a `head_block_time` returned by `get_info` is considered stale
+     * * `retryPolicy`: timeout, number of attempts and backoff between attempts
+     * * `middleware`: hooks run before each request, after each response and on errors
+     * * `cache`: cache responses of read-only calls. Pass an `RpcCache` to share it between instances of one chain
      */
     constructor(
-        endpoint: string,
+        endpoint: string | string[] | EndpointPool,
         args: {
-            fetch?: (input?: any, init?: any) => Promise<any>
-        } = {}
+            fetch?: (input?: any, init?: any) => Promise<any>,
+            retryPolicy?: RetryPolicy,
+            middleware?: JsonRpcMiddleware[],
+            cache?: RpcCache | RpcCacheOptions,
+        } & EndpointPoolOptions = {}
     ) {
-        this.endpoint = endpoint.replace(/\/$/, '');
+        if (endpoint instanceof EndpointPool) {
+            this.endpointPool = endpoint;
+        } else {
+            this.endpointPool = new EndpointPool(typeof endpoint === 'string' ? [endpoint] : endpoint, args);
+        }
+        this.endpoint = this.endpointPool.statuses[0].url;
+        this.retryPolicy = args.retryPolicy || {};
+        this.middleware = args.middleware ? [...args.middleware] : [];
+        if (args.cache) {
+            this.cache = args.cache instanceof RpcCache ? args.cache : new RpcCache({
+                namespace: this.endpointPool.statuses.map(({ url }) => url).join(','),
+                ...args.cache,
+            });
+        } else {
+            this.cache = null;
+        }
         if (args.fetch) {
             this.fetchBuiltin = args.fetch;
         } else {
@@ -73,17 +135,162 @@ export class JsonRpc implements AuthorityProvider, AbiProvider {
         }
     }
 
-    /** Post `body` to `endpoint + path`. Throws detailed error information in `RpcError` when available. */
+    /**
+     * Post `body` to `path` on the first usable endpoint. Throws detailed error information in `RpcError` when available.
+     * Network errors, retryable statuses and stale `get_info` responses mark the endpoint unhealthy and move on to
+     * the next one. Failed calls are retried according to `retryPolicy`; `push_transaction` and `send_transaction` are
+     * only repeated because the chain rejects a second copy of the same transaction id, and other calls which change
+     * chain state (`push_transactions`) are neither retried nor sent to another endpoint.
+     * If a repeated push is rejected as `tx_duplicate`, an earlier copy reached the chain without a trace being
+     * received: the call throws `DuplicateTransactionError`, which `Api.transact` turns into `DuplicateTransactResult`.
+     * Responses of read-only calls are served from and stored in `cache` when one is configured; middleware doesn't
+     * run for responses served from the cache.
+     */
     public async fetch(path: string, body: any): Promise<any> {
+        if (!this.cache) {
+            return this.fetchWithRetry(path, body);
+        }
+        const cached = await this.cache.get(path, body);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const json = await this.fetchWithRetry(path, body);
+        await this.cache.put(path, body, json);
+        return json;
+    }
+
+    private async fetchWithRetry(path: string, body: any): Promise<any> {
+        const policy = { ...defaultRetryPolicy, ...this.retryPolicy };
+        const transactionId = transactionIdFromBody(path, body);
+        const canRetry = isIdempotentPath(path) || !!transactionId;
+        let sends = 0;
+        for (let attempt = 1; ; ++attempt) {
+            let lastError: Error;
+            let staleJson: any;
+            for (const status of this.endpointPool.select()) {
+                let json;
+                try {
+                    ++sends;
+                    json = await this.fetchEndpoint(status, path, body, policy, attempt);
+                } catch (e) {
+                    if (transactionId && sends > 1 && isDuplicateTransaction(e)) {
+                        // an earlier attempt which seemed to fail did reach the chain
+                        const duplicate = new DuplicateTransactionError(e.json, transactionId);
+                        duplicate.status = e.status;
+                        throw duplicate;
+                    }
+                    lastError = e;
+                    if (canRetry && !status.healthy) {
+                        continue;
+                    }
+                    break;
+                }
+                if (path !== '/v1/chain/get_info' || this.endpointPool.checkInfo(status, json)) {
+                    return json;
+                }
+                staleJson = staleJson || json;
+            }
+            if (staleJson) {
+                return staleJson;
+            }
+            if (!canRetry || attempt >= policy.maxAttempts || !isRetryable(lastError, policy)) {
+                throw lastError;
+            }
+            await sleep(backoffDelay(attempt, policy));
+        }
+    }
+
+    /**
+     * Copy of this `JsonRpc` which uses `retryPolicy` for its calls. Endpoint health and the cache are shared with
+     * the original; middleware added to the copy with `use` doesn't affect the original
+     */
+    public withRetryPolicy(retryPolicy: RetryPolicy): JsonRpc {
+        return new JsonRpc(this.endpointPool, {
+            fetch: this.fetchBuiltin,
+            retryPolicy: { ...this.retryPolicy, ...retryPolicy },
+            middleware: this.middleware,
+            cache: this.cache || undefined,
+        });
+    }
+
+    /** Call `get_info` on every endpoint to refresh their health and latency */
+    public async checkEndpoints(): Promise<EndpointStatus[]> {
+        const policy = { ...defaultRetryPolicy, ...this.retryPolicy };
+        await Promise.all(this.endpointPool.statuses.map(async (status) => {
+            try {
+                const json = await this.fetchEndpoint(status, '/v1/chain/get_info', {}, policy);
+                this.endpointPool.checkInfo(status, json);
+            } catch (e) {
+                // failures are recorded on `status`
+            }
+        }));
+        return this.endpointPool.statuses;
+    }
+
+    /** Add `middleware` to the hooks run for every request */
+    public use(middleware: JsonRpcMiddleware): JsonRpc {
+        this.middleware.push(middleware);
+        return this;
+    }
+
+    /** Post `body` to `status.url + path`, running middleware hooks and recording the outcome on `status` */
+    private async fetchEndpoint(status: EndpointStatus, path: string, body: any, policy: RetryPolicy, attempt = 1): Promise<any> {
+        const context: RpcRequestContext = { endpoint: status.url, path, body, headers: {}, attempt, startTime: Date.now() };
+        await this.runMiddleware('beforeRequest', context);
+        try {
+            return await this.sendRequest(status, context, policy);
+        } catch (e) {
+            context.error = e;
+            if (context.elapsed === undefined) {
+                context.elapsed = Date.now() - context.startTime;
+            }
+            await this.runMiddleware('onError', context);
+            throw e;
+        }
+    }
+
+    /**
+     * Only 2xx responses mark `status` healthy. Retryable statuses (overloaded or unavailable nodes) mark it
+     * unhealthy like network errors do; other error responses leave its health as it was.
+     */
+    private async sendRequest(
+        status: EndpointStatus, context: RpcRequestContext, { timeout, retryableStatuses }: RetryPolicy
+    ): Promise<any> {
         let response;
         let json;
         try {
             const f = this.fetchBuiltin;
-            response = await f(this.endpoint + path, {
-                body: JSON.stringify(body),
+            const init: any = {
+                body: JSON.stringify(context.body),
                 method: 'POST',
-            });
-            json = await response.json();
+            };
+            if (Object.keys(context.headers).length) {
+                init.headers = context.headers;
+            }
+            const AbortControllerBuiltin = (global as any).AbortController;
+            const controller = timeout && AbortControllerBuiltin ? new AbortControllerBuiltin() : null;
+            if (controller) {
+                init.signal = controller.signal;
+            }
+            try {
+                [response, json] = await withTimeout((async () => {
+                    const res = await f(status.url + context.path, init);
+                    return [res, await res.json()];
+                })(), timeout, () => controller && controller.abort());
+            } catch (e) {
+                this.endpointPool.markFailure(status, e);
+                throw e;
+            }
+            context.elapsed = Date.now() - context.startTime;
+            if (response.ok) {
+                this.endpointPool.markSuccess(status, context.elapsed);
+            } else if (retryableStatuses.includes(response.status)) {
+                this.endpointPool.markFailure(status, new Error(`HTTP status ${response.status}`));
+            }
+            context.response = response;
+            context.json = json;
+            await this.runMiddleware('afterResponse', context);
+            json = context.json;
             if (json.processed && json.processed.except) {
                 throw new RpcError(json);
             } else if (json.result && json.result.except) {
@@ -94,11 +301,32 @@ export class JsonRpc implements AuthorityProvider, AbiProvider {
             throw e;
         }
         if (!response.ok) {
-            throw new RpcError(json);
+            const error = new RpcError(json);
+            error.status = response.status;
+            throw error;
         }
         return json;
     }
 
+    /** Bounds of the page starting at `cursor`: it replaces the lower bound, or the upper bound when reading in reverse */
+    private pageBounds(
+        { lower_bound, upper_bound, reverse }: { lower_bound?: string, upper_bound?: string, reverse?: boolean },
+        cursor: string | undefined,
+    ): { lower_bound?: string, upper_bound?: string } {
+        if (cursor === undefined) {
+            return { lower_bound, upper_bound };
+        }
+        return reverse ? { lower_bound, upper_bound: cursor } : { lower_bound: cursor, upper_bound };
+    }
+
+    private async runMiddleware(hook: keyof JsonRpcMiddleware, context: RpcRequestContext): Promise<void> {
+        for (const middleware of this.middleware) {
+            if (middleware[hook]) {
+                await middleware[hook](context);
+            }
+        }
+    }
+
     public async abi_bin_to_json(
         code: string,
         action: string,
@@ -283,6 +511,7 @@ export class JsonRpc implements AuthorityProvider, AbiProvider {
         lower_bound = '',
         upper_bound = '',
         limit = 10,
+        reverse = false,
     }: any): Promise<GetTableByScopeResult> {
         return await this.fetch(
             '/v1/chain/get_table_by_scope', {
@@ -291,9 +520,34 @@ export class JsonRpc implements AuthorityProvider, AbiProvider {
                 lower_bound,
                 upper_bound,
                 limit,
+                reverse,
             });
     }
 
+    /** Rows of a table, following `next_key` through `get_table_rows` until `limit` rows were read or the table ends */
+    public iterateTableRows<Row = any>({ limit, pageSize, ...args }: IterateTableRowsOptions): AsyncIterable<Row> {
+        return paginate(async (cursor, pageLimit) => {
+            const result = await this.get_table_rows({ ...args, limit: pageLimit, ...this.pageBounds(args, cursor) });
+            return { items: result.rows, next: nextKey(result) };
+        }, { limit, pageSize });
+    }
+
+    /** Rows of a kv table, following `next_key` through `get_kv_table_rows` */
+    public iterateKvTableRows<Row = any>({ limit, pageSize, ...args }: IterateKvTableRowsOptions): AsyncIterable<Row> {
+        return paginate(async (cursor, pageLimit) => {
+            const result = await this.get_kv_table_rows({ ...args, limit: pageLimit, ...this.pageBounds(args, cursor) });
+            return { items: result.rows, next: nextKey(result) };
+        }, { limit, pageSize });
+    }
+
+    /** Scopes of a contract's tables, following `more` through `get_table_by_scope` */
+    public iterateScopes({ limit, pageSize, ...args }: IterateScopesOptions): AsyncIterable<GetTableByScopeResultRow> {
+        return paginate(async (cursor, pageLimit) => {
+            const result = await this.get_table_by_scope({ ...args, limit: pageLimit, ...this.pageBounds(args, cursor) });
+            return { items: result.rows, next: result.more || undefined };
+        }, { limit, pageSize });
+    }
+
     /** Get subset of `availableKeys` needed to meet authorities in `transaction`. Implements `AuthorityProvider` */
     public async getRequiredKeys(args: AuthorityProviderArgs): Promise<string[]> {
         return convertLegacyPublicKeys((await this.fetch('/v1/chain/get_required_keys', {
@@ -328,6 +582,20 @@ export class JsonRpc implements AuthorityProvider, AbiProvider {
         });
     }
 
+    /** Raw call to `/v1/chain/compute_transaction`: execute a transaction without authorization checks or broadcasting */
+    public async compute_transaction(
+        { signatures, compression = 0, serializedTransaction, serializedContextFreeData }: PushTransactionArgs
+    ): Promise<TransactResult> {
+        return await this.fetch('/v1/chain/compute_transaction', {
+            transaction: {
+                signatures,
+                compression,
+                packed_context_free_data: arrayToHex(serializedContextFreeData || new Uint8Array(0)),
+                packed_trx: arrayToHex(serializedTransaction),
+            },
+        });
+    }
+
     public async push_transactions(transactions: PushTransactionArgs[]): Promise<TransactResult[]> {
         const packedTrxs: PackedTrx[] = transactions.map(({signatures, compression = 0, serializedTransaction, serializedContextFreeData }: PushTransactionArgs) => {
             return {
@@ -4,56 +4,95 @@
 // copyright defined in eosjs/LICENSE.txt
 
 import { ec } from 'elliptic';
+import { sha256 } from 'hash.js';
 
 import { SignatureProvider, SignatureProviderArgs } from './eosjs-api-interfaces';
+import { CryptoBackend, getDefaultCryptoBackend, SyncCryptoBackend } from './eosjs-crypto-backend';
 import { PushTransactionArgs } from './eosjs-rpc-interfaces';
 import {
     PrivateKey,
     PublicKey,
     Signature,
 } from './eosjs-key-conversions';
-import { convertLegacyPublicKey } from './eosjs-numeric';
+import { convertLegacyPublicKey, Key, stringToPrivateKey } from './eosjs-numeric';
+import { hexToUint8Array } from './eosjs-serialize';
 
-/** expensive to construct; so we do it once and reuse it */
-const defaultEc = new ec('secp256k1');
+/** sha256 of `data`, or the hash of curve `e` if one is given */
+const hash = (data: Uint8Array, e?: ec) => (e ? e.hash() : sha256()).update(data);
+
+/** Construct the data signed for a transaction: the chain id, the transaction and the hash of its context-free data */
+const signingDataFromSerializedData = (
+    chainId: string,
+    serializedTransaction: Uint8Array,
+    serializedContextFreeData?: Uint8Array,
+    e?: ec): Uint8Array => {
+    // like `Buffer.from(chainId, 'hex')`, a trailing odd digit is ignored
+    const chainIdBuf = hexToUint8Array(chainId.substr(0, chainId.length - chainId.length % 2));
+    const signBuf = new Uint8Array(chainIdBuf.length + serializedTransaction.length + 32);
+    signBuf.set(chainIdBuf);
+    signBuf.set(serializedTransaction, chainIdBuf.length);
+    if (serializedContextFreeData) {
+        signBuf.set(hash(serializedContextFreeData, e).digest(), chainIdBuf.length + serializedTransaction.length);
+    }
+    return signBuf;
+};
 
 /** Construct the digest from transaction details */
 const digestFromSerializedData = (
     chainId: string,
     serializedTransaction: Uint8Array,
     serializedContextFreeData?: Uint8Array,
-    e = defaultEc): string => {
-    const signBuf = Buffer.concat([
-        Buffer.from(chainId, 'hex'),
-        Buffer.from(serializedTransaction),
-        Buffer.from(
-            serializedContextFreeData ?
-                new Uint8Array(e.hash().update(serializedContextFreeData).digest()) :
-                new Uint8Array(32)
-        ),
-    ]);
-    return e.hash().update(signBuf).digest();
+    e?: ec): string => {
+    const signingData = signingDataFromSerializedData(chainId, serializedTransaction, serializedContextFreeData, e);
+    // the digest bytes, typed as a string like `elliptic`'s hash typed them
+    return hash(signingData, e).digest() as any;
 };
 
 /** Signs transactions using in-process private keys */
 class JsSignatureProvider implements SignatureProvider {
-    /** map public to private keys */
-    public keys = new Map<string, ec.KeyPair>();
-
     /** public keys */
     public availableKeys = [] as string[];
 
-    /** @param privateKeys private keys to sign with */
-    constructor(privateKeys: string[]) {
+    /** crypto backend signing transactions, see `eosjs-crypto-backend` */
+    public backend: CryptoBackend;
+
+    /** map public to private keys, in the format of `eosjs-numeric` */
+    private privateKeys = new Map<string, Key>();
+
+    /** `keys`, once read */
+    private ellipticKeys: Map<string, ec.KeyPair>;
+
+    /**
+     * @param privateKeys private keys to sign with
+     * @param options.backend crypto backend to sign with, defaults to the default crypto backend
+     */
+    constructor(privateKeys: string[], { backend = getDefaultCryptoBackend() }: { backend?: CryptoBackend } = {}) {
+        this.backend = backend;
+        const syncBackend = 'getPublicKeySync' in backend ? backend as SyncCryptoBackend : undefined;
         for (const k of privateKeys) {
-            const priv = PrivateKey.fromString(k);
-            const privElliptic = priv.toElliptic();
-            const pubStr = priv.getPublicKey().toString();
-            this.keys.set(pubStr, privElliptic);
+            const priv = stringToPrivateKey(k);
+            const pubStr = new PrivateKey(priv, undefined, syncBackend).getPublicKey().toString();
+            this.privateKeys.set(pubStr, priv);
             this.availableKeys.push(pubStr);
         }
     }
 
+    /**
+     * map public to private keys, as `elliptic` key pairs built when first read. Once read, signing uses the keys
+     * of this map, so changes to it are honoured
+     */
+    public get keys(): Map<string, ec.KeyPair> {
+        if (!this.ellipticKeys) {
+            this.ellipticKeys = new Map();
+            this.privateKeys.forEach((key, publicKey) => this.ellipticKeys.set(publicKey, new PrivateKey(key).toElliptic()));
+        }
+        return this.ellipticKeys;
+    }
+
+    public set keys(keys: Map<string, ec.KeyPair>) {
+        this.ellipticKeys = keys;
+    }
+
     /** Public keys associated with the private keys that the `SignatureProvider` holds */
     public async getAvailableKeys(): Promise<string[]> {
         return this.availableKeys;
@@ -63,25 +102,31 @@ class JsSignatureProvider implements SignatureProvider {
     public async sign(
         { chainId, requiredKeys, serializedTransaction, serializedContextFreeData }: SignatureProviderArgs,
     ): Promise<PushTransactionArgs> {
-        const digest = digestFromSerializedData( chainId, serializedTransaction, serializedContextFreeData, defaultEc);
+        const signingData = signingDataFromSerializedData(chainId, serializedTransaction, serializedContextFreeData);
 
         const signatures = [] as string[];
         for (const key of requiredKeys) {
-            const publicKey = PublicKey.fromString(key);
-            const ellipticPrivateKey = this.keys.get(convertLegacyPublicKey(key));
-            const privateKey = PrivateKey.fromElliptic(ellipticPrivateKey, publicKey.getType());
-            const signature = privateKey.sign(digest, false);
+            const privateKey = this.privateKey(convertLegacyPublicKey(key));
+            const signature = await privateKey.signAsync(signingData, this.backend);
             signatures.push(signature.toString());
         }
 
         return { signatures, serializedTransaction, serializedContextFreeData };
     }
+
+    private privateKey(publicKey: string): PrivateKey {
+        if (this.ellipticKeys) {
+            return PrivateKey.fromElliptic(this.ellipticKeys.get(publicKey), PublicKey.fromString(publicKey).getType());
+        }
+        return new PrivateKey(this.privateKeys.get(publicKey));
+    }
 }
 
 export {
     PrivateKey,
     PublicKey,
     Signature,
+    signingDataFromSerializedData,
     digestFromSerializedData,
     JsSignatureProvider,
 };
@@ -8,12 +8,13 @@ export { PrivateKey } from './PrivateKey';
 export { PublicKey } from './PublicKey';
 export { Signature } from './Signature';
 
-/** Construct the elliptic curve object based on key type */
+/** Construct the elliptic curve object based on key type. `elliptic` is evaluated on first use, bundlers still include it */
 export const constructElliptic = (type: KeyType): EC => {
+    const { ec } = require('elliptic');
     if (type === KeyType.k1) {
-        return new EC('secp256k1');
+        return new ec('secp256k1');
     }
-    return new EC('p256');
+    return new ec('p256');
 };
 
 export const generateKeyPair = (
@@ -25,12 +26,7 @@ export const generateKeyPair = (
             'options to `true`.  If this does describe your environment and you set `secureEnv` to `true`, ' +
             'YOU DO SO AT YOUR OWN RISK AND THE RISK OF YOUR USERS.');
     }
-    let ec;
-    if (type === KeyType.k1) {
-        ec = new EC('secp256k1');
-    } else {
-        ec = new EC('p256');
-    }
+    const ec = constructElliptic(type);
     const ellipticKeyPair = ec.genKeyPair(options.ecOptions);
     const publicKey = PublicKey.fromElliptic(ellipticKeyPair, type, ec);
     const privateKey = PrivateKey.fromElliptic(ellipticKeyPair, type, ec);
@@ -0,0 +1,210 @@
+/**
+ * @module Keystore
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { SignatureProvider, SignatureProviderArgs } from './eosjs-api-interfaces';
+import { aesGcmDecrypt, aesGcmEncrypt, pbkdf2, randomBytes, toUtf8 } from './eosjs-crypto';
+import { JsSignatureProvider } from './eosjs-jssig';
+import { PrivateKey } from './eosjs-key-conversions';
+import { convertLegacyPublicKey, Key, KeyType } from './eosjs-numeric';
+import { PushTransactionArgs } from './eosjs-rpc-interfaces';
+import { arrayToHex, hexToUint8Array } from './eosjs-serialize';
+
+/** Version of the keystores written by `PrivateKey.encrypt` */
+export const keystoreVersion = 1;
+
+/** PBKDF2 iterations of new keystores */
+export const defaultKeystoreIterations = 100000;
+
+/** A private key encrypted with a password. Binary fields are hex */
+export interface Keystore {
+    version: number;
+    keyType: 'K1' | 'R1';
+    publicKey: string;
+
+    /** Free-form data, e.g. a label. Neither encrypted nor authenticated */
+    metadata?: { [key: string]: any };
+
+    crypto: {
+        cipher: 'aes-256-gcm';
+        iv: string;
+        ciphertext: string;
+        tag: string;
+        kdf: 'pbkdf2';
+        kdfParams: { prf: 'hmac-sha256', iterations: number, salt: string, keyLength: number };
+    };
+}
+
+export interface KeystoreOptions {
+    /** PBKDF2 iterations, defaults to `defaultKeystoreIterations` */
+    iterations?: number;
+    metadata?: { [key: string]: any };
+}
+
+const keyTypeNames: { [type: number]: 'K1' | 'R1' } = { [KeyType.k1]: 'K1', [KeyType.r1]: 'R1' };
+
+const passwordKey = (password: string, salt: Uint8Array, iterations: number): Uint8Array =>
+    pbkdf2('sha256', toUtf8(password), salt, iterations, 32);
+
+/** The fields the ciphertext is bound to, so they can't be swapped between keystores */
+const additionalData = ({ version, keyType, publicKey }: Pick<Keystore, 'version' | 'keyType' | 'publicKey'>): Uint8Array =>
+    new Uint8Array(toUtf8(`eosjs-keystore:${version}:${keyType}:${publicKey}`));
+
+/** Encrypt `key`, whose public key is `publicKey`, with `password`. See `PrivateKey.encrypt` */
+export const encryptKey = (key: Key, publicKey: string, password: string, options: KeystoreOptions = {}): Keystore => {
+    const keyType = keyTypeNames[key.type];
+    if (!keyType) {
+        throw new Error('Only K1 and R1 keys can be stored in keystores');
+    }
+    const iterations = options.iterations || defaultKeystoreIterations;
+    const salt = randomBytes(32);
+    const iv = randomBytes(12);
+    const header = { version: keystoreVersion, keyType, publicKey: convertLegacyPublicKey(publicKey) };
+    const { ciphertext, tag } = aesGcmEncrypt(passwordKey(password, salt, iterations), iv, key.data, additionalData(header));
+    return {
+        ...header,
+        ...(options.metadata ? { metadata: options.metadata } : {}),
+        crypto: {
+            cipher: 'aes-256-gcm',
+            iv: arrayToHex(iv),
+            ciphertext: arrayToHex(ciphertext),
+            tag: arrayToHex(tag),
+            kdf: 'pbkdf2',
+            kdfParams: { prf: 'hmac-sha256', iterations, salt: arrayToHex(salt), keyLength: 32 },
+        },
+    };
+};
+
+/** Decrypt the key of `keystore`. Throws if `password` is wrong or the keystore was altered. See `PrivateKey.decrypt` */
+export const decryptKey = (keystore: Keystore, password: string): Key => {
+    const { version, keyType, crypto } = keystore;
+    if (version !== keystoreVersion) {
+        throw new Error(`Unsupported keystore version ${version}`);
+    }
+    if (crypto.cipher !== 'aes-256-gcm' || crypto.kdf !== 'pbkdf2' || crypto.kdfParams.prf !== 'hmac-sha256'
+        || crypto.kdfParams.keyLength !== 32) {
+        throw new Error('Unsupported keystore cipher or key derivation');
+    }
+    const type = keyType === 'K1' ? KeyType.k1 : keyType === 'R1' ? KeyType.r1 : undefined;
+    if (type === undefined) {
+        throw new Error(`Unsupported keystore key type ${keyType}`);
+    }
+    let data: Uint8Array;
+    try {
+        data = aesGcmDecrypt(
+            passwordKey(password, hexToUint8Array(crypto.kdfParams.salt), crypto.kdfParams.iterations),
+            hexToUint8Array(crypto.iv),
+            hexToUint8Array(crypto.ciphertext),
+            hexToUint8Array(crypto.tag),
+            additionalData(keystore),
+        );
+    } catch (e) {
+        throw new Error(`Wrong password or corrupted keystore for ${keystore.publicKey}`);
+    }
+    return { type, data };
+};
+
+export interface KeystoreSignatureProviderOptions {
+    /** Asked for the password of a locked keystore when a transaction needs its key */
+    getPassword?: (keystore: Keystore) => Promise<string>;
+
+    /** Milliseconds a key stays unlocked after its last use, defaults to 5 minutes. `0` locks keys after every transaction */
+    autoLockTimeout?: number;
+}
+
+/**
+ * Signs transactions with keys kept in keystores. Keys are decrypted when unlocked, either with `unlock` or with the
+ * password `getPassword` returns when a transaction needs a locked key, and locked again after `autoLockTimeout`.
+ */
+export class KeystoreSignatureProvider implements SignatureProvider {
+    public autoLockTimeout: number;
+
+    /** keystores by public key */
+    public keystores = new Map<string, Keystore>();
+
+    private getPassword?: (keystore: Keystore) => Promise<string>;
+    private unlocked = new Map<string, { privateKey: string, timer?: ReturnType<typeof setTimeout> }>();
+
+    constructor(keystores: Keystore[], { getPassword, autoLockTimeout = 5 * 60 * 1000 }: KeystoreSignatureProviderOptions = {}) {
+        for (const keystore of keystores) {
+            this.keystores.set(convertLegacyPublicKey(keystore.publicKey), keystore);
+        }
+        this.getPassword = getPassword;
+        this.autoLockTimeout = autoLockTimeout;
+    }
+
+    /** Public keys of the keystores, whether unlocked or not */
+    public async getAvailableKeys(): Promise<string[]> {
+        return [...this.keystores.keys()];
+    }
+
+    /** Decrypt the key of `publicKey` with `password` */
+    public unlock(publicKey: string, password: string): void {
+        publicKey = convertLegacyPublicKey(publicKey);
+        const keystore = this.keystores.get(publicKey);
+        if (!keystore) {
+            throw new Error(`No keystore for ${publicKey}`);
+        }
+        const privateKey = PrivateKey.decrypt(keystore, password);
+        this.lock(publicKey);
+        this.unlocked.set(publicKey, { privateKey: privateKey.toString() });
+        this.scheduleLock(publicKey);
+    }
+
+    /** Forget the decrypted key of `publicKey`, or of every keystore */
+    public lock(publicKey?: string): void {
+        for (const key of publicKey === undefined ? [...this.unlocked.keys()] : [convertLegacyPublicKey(publicKey)]) {
+            const entry = this.unlocked.get(key);
+            if (entry) {
+                clearTimeout(entry.timer);
+                this.unlocked.delete(key);
+            }
+        }
+    }
+
+    public isUnlocked(publicKey: string): boolean {
+        return this.unlocked.has(convertLegacyPublicKey(publicKey));
+    }
+
+    /** Sign a transaction, unlocking the required keys with `getPassword` when needed */
+    public async sign(args: SignatureProviderArgs): Promise<PushTransactionArgs> {
+        const requiredKeys = args.requiredKeys.map(convertLegacyPublicKey);
+        for (const key of requiredKeys) {
+            if (!this.unlocked.has(key)) {
+                const keystore = this.keystores.get(key);
+                if (!keystore) {
+                    throw new Error(`No keystore for ${key}`);
+                }
+                if (!this.getPassword) {
+                    throw new Error(`Keystore of ${key} is locked`);
+                }
+                this.unlock(key, await this.getPassword(keystore));
+            }
+        }
+        const signatureProvider = new JsSignatureProvider(requiredKeys.map((key) => this.unlocked.get(key).privateKey));
+        try {
+            return await signatureProvider.sign({ ...args, requiredKeys });
+        } finally {
+            requiredKeys.forEach((key) => this.autoLockTimeout ? this.scheduleLock(key) : this.lock(key));
+        }
+    }
+
+    /** Lock `publicKey` once it wasn't used for `autoLockTimeout` */
+    private scheduleLock(publicKey: string): void {
+        const entry = this.unlocked.get(publicKey);
+        if (!entry) {
+            return;
+        }
+        clearTimeout(entry.timer);
+        if (!this.autoLockTimeout) {
+            return;
+        }
+        entry.timer = setTimeout(() => this.lock(publicKey), this.autoLockTimeout);
+        // Don't keep node processes alive just to lock keys
+        const timer = entry.timer as any;
+        if (timer && timer.unref) {
+            timer.unref();
+        }
+    }
+}
@@ -0,0 +1,297 @@
+/**
+ * @module Local-Authority
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { AuthorityProvider, AuthorityProviderArgs } from './eosjs-api-interfaces';
+import { JsonRpc } from './eosjs-jsonrpc';
+import { convertLegacyPublicKey } from './eosjs-numeric';
+import { KeyWeight, Permission, PermissionLevel, WaitWeight } from './eosjs-rpc-interfaces';
+
+/** Deepest nesting of account authorities nodeos follows */
+const maxAuthorityDepth = 6;
+
+/** Permission an action is linked to when any permission of the actor satisfies it */
+const anyPermission = 'eosio.any';
+
+/** Does `get_account` report the links of `permissions`? EOSIO 2.x and older nodes leave out `linked_actions` */
+const reportsLinkedActions = (permissions: Permission[]): boolean =>
+    permissions.every(({ linked_actions }) => Array.isArray(linked_actions));
+
+/** A link made with `linkauth`: actions `account::action`, or every action of `account`, require `permission` */
+interface Link {
+    account: string;
+    action?: string;
+    permission: string;
+}
+
+/** Permissions of an account and its links, `undefined` if neither the node nor the link table report them */
+interface AccountAuthorities {
+    permissions: Permission[];
+    links?: Link[];
+}
+
+/** Row of `LocalAuthorityProviderOptions.linkTable`, with the fields of nodeos' `permission_link` */
+export interface LinkTableRow {
+    code: string;
+    message_type: string;
+    required_permission: string;
+}
+
+/** How an authority is satisfied: the keys, account authorities and waits used to reach its threshold */
+export interface AuthorityPath {
+    /** `actor@permission` */
+    permission: string;
+    threshold: number;
+    keys: KeyWeight[];
+    accounts: { weight: number, path: AuthorityPath }[];
+    waits: WaitWeight[];
+}
+
+/** Keys satisfying one authorization of an action, and how they satisfy it */
+export interface AuthorizationExplanation {
+    /** `account::name` of the action */
+    action: string;
+    authorization: PermissionLevel;
+
+    /**
+     * Permission of the actor the action is linked to with `linkauth`, `active` without link. `eosio.any` if any
+     * permission of the actor satisfies it
+     */
+    requiredPermission: string;
+
+    keys: string[];
+    path: AuthorityPath;
+}
+
+export interface LocalAuthorityProviderOptions {
+    /** Milliseconds the permissions of an account are cached, defaults to 60000. `0` caches until `invalidate` */
+    cacheTtl?: number;
+
+    /**
+     * Table of `LinkTableRow`s scoped by the account which made the links, read with `get_table_rows` when the
+     * node doesn't report `linked_actions`
+     */
+    linkTable?: { code: string, table: string };
+
+    /**
+     * Ask the node's `get_required_keys` when the links of an actor are unknown, instead of throwing. Off by
+     * default, as it sends every available key to the node
+     */
+    fallbackToNode?: boolean;
+}
+
+/**
+ * Computes the keys a transaction needs from the on-chain permissions of its actors, loaded with `get_account`,
+ * instead of sending the available keys to the node with `get_required_keys`. Links made with `linkauth` are
+ * taken from the `linked_actions` of the permissions. EOSIO 2.x and older nodes don't report them: they are then
+ * read from `linkTable` if there is one, else the provider throws unless `fallbackToNode` is set.
+ */
+export class LocalAuthorityProvider implements AuthorityProvider {
+    public cacheTtl: number;
+    public linkTable?: { code: string, table: string };
+    public fallbackToNode: boolean;
+
+    private accounts = new Map<string, { authorities: Promise<AccountAuthorities>, fetchedAt: number }>();
+
+    constructor(
+        private rpc: JsonRpc, { cacheTtl = 60 * 1000, linkTable, fallbackToNode = false }: LocalAuthorityProviderOptions = {}
+    ) {
+        this.cacheTtl = cacheTtl;
+        this.linkTable = linkTable;
+        this.fallbackToNode = fallbackToNode;
+    }
+
+    /**
+     * Subset of `availableKeys` which satisfies every action authorization of `transaction`. Keys are picked
+     * greedily, so the subset is small but not always the smallest.
+     * Asks the node with `get_required_keys` if the links of an actor are unknown and `fallbackToNode` is set.
+     */
+    public async getRequiredKeys(args: AuthorityProviderArgs): Promise<string[]> {
+        if (this.fallbackToNode) {
+            for (const { authorization } of args.transaction.actions) {
+                for (const { actor } of authorization) {
+                    if (!(await this.getAuthorities(actor)).links) {
+                        return this.rpc.getRequiredKeys(args);
+                    }
+                }
+            }
+        }
+        const keys = new Set<string>();
+        for (const explanation of await this.explainRequiredKeys(args)) {
+            explanation.keys.forEach((key) => keys.add(key));
+        }
+        return [...keys];
+    }
+
+    /** Keys needed for each action authorization of `transaction`, and how they satisfy it */
+    public async explainRequiredKeys({ transaction, availableKeys }: AuthorityProviderArgs): Promise<AuthorizationExplanation[]> {
+        const explanations = [];
+        for (const { account, name, authorization } of transaction.actions) {
+            for (const level of authorization) {
+                explanations.push(await this.explainAuthorization(account, name, level, availableKeys, transaction.delay_sec));
+            }
+        }
+        return explanations;
+    }
+
+    /**
+     * How `keys` satisfy `authorization` of action `account::name`. Throws if `authorization` doesn't meet the
+     * permission the action is linked to, if the links of the actor are unknown, or if `keys` don't satisfy its
+     * authority.
+     * Waits count towards thresholds when they are no longer than `delaySec`.
+     */
+    public async explainAuthorization(
+        account: string, name: string, authorization: PermissionLevel, keys: string[], delaySec = 0
+    ): Promise<AuthorizationExplanation> {
+        const { actor, permission } = authorization;
+        const action = `${account}::${name}`;
+        const { permissions, links } = await this.getAuthorities(actor);
+        if (!permissions.some(({ perm_name }) => perm_name === permission)) {
+            throw new Error(`Unknown permission ${actor}@${permission}`);
+        }
+        if (!links) {
+            throw new Error(`Cannot resolve linked permission of ${action} for ${actor}: the node does not report `
+                + 'linked_actions and no linkTable is configured');
+        }
+        const requiredPermission = this.linkedPermission(links, account, name);
+        if (requiredPermission !== anyPermission && !this.isAncestorOrSelf(permissions, permission, requiredPermission)) {
+            throw new Error(`${action} requires ${actor}@${requiredPermission}, which ${actor}@${permission} does not satisfy`);
+        }
+        const satisfied = await this.satisfy(authorization, new Set(keys.map(convertLegacyPublicKey)), delaySec, 0, new Set());
+        if (!satisfied) {
+            throw new Error(`Keys do not satisfy ${actor}@${permission} for ${action}`);
+        }
+        return {
+            action,
+            authorization: { actor, permission },
+            requiredPermission,
+            keys: [...satisfied.keys],
+            path: satisfied.path,
+        };
+    }
+
+    /** Permissions of `accountName`, from the cache or `get_account` */
+    public async getPermissions(accountName: string): Promise<Permission[]> {
+        return (await this.getAuthorities(accountName)).permissions;
+    }
+
+    /** Drop the cached permissions of `accountName`, or of every account, e.g. after `updateauth` */
+    public invalidate(accountName?: string): void {
+        if (accountName === undefined) {
+            this.accounts.clear();
+        } else {
+            this.accounts.delete(accountName);
+        }
+    }
+
+    /** Permissions and links of `accountName`, from the cache or `get_account` and `linkTable` */
+    private getAuthorities(accountName: string): Promise<AccountAuthorities> {
+        const cached = this.accounts.get(accountName);
+        if (cached && (!this.cacheTtl || Date.now() - cached.fetchedAt < this.cacheTtl)) {
+            return cached.authorities;
+        }
+        const authorities = this.loadAuthorities(accountName);
+        const entry = { authorities, fetchedAt: Date.now() };
+        this.accounts.set(accountName, entry);
+        authorities.catch(() => {
+            if (this.accounts.get(accountName) === entry) {
+                this.accounts.delete(accountName);
+            }
+        });
+        return authorities;
+    }
+
+    private async loadAuthorities(accountName: string): Promise<AccountAuthorities> {
+        const { permissions } = await this.rpc.get_account(accountName);
+        if (reportsLinkedActions(permissions)) {
+            const links = [] as Link[];
+            for (const { perm_name, linked_actions } of permissions) {
+                linked_actions.forEach(({ account, action }) => links.push({ account, action, permission: perm_name }));
+            }
+            return { permissions, links };
+        }
+        if (!this.linkTable) {
+            return { permissions };
+        }
+        const links = [] as Link[];
+        const rows = this.rpc.iterateTableRows<LinkTableRow>({ json: true, ...this.linkTable, scope: accountName });
+        for await (const { code, message_type, required_permission } of rows) {
+            links.push({ account: code, action: message_type, permission: required_permission });
+        }
+        return { permissions, links };
+    }
+
+    /** Permission `account::name` is linked to: a link to the action, else to the whole contract, else `active` */
+    private linkedPermission(links: Link[], account: string, name: string): string {
+        const link = links.find((l) => l.account === account && l.action === name)
+            || links.find((l) => l.account === account && !l.action);
+        return link ? link.permission : 'active';
+    }
+
+    /** Is `permission` the permission `descendant` or one of its parents? */
+    private isAncestorOrSelf(permissions: Permission[], permission: string, descendant: string): boolean {
+        let current = descendant;
+        for (let i = 0; current && i <= permissions.length; ++i) {
+            if (current === permission) {
+                return true;
+            }
+            const entry = permissions.find(({ perm_name }) => perm_name === current);
+            current = entry && entry.parent;
+        }
+        return false;
+    }
+
+    /**
+     * Keys of `keys` satisfying the authority of `level` and how, or `undefined` if they can't.
+     * Entries are used in order of the number of keys they add, preferring keys in `preferred`
+     * (keys the enclosing authorities can use as well), then the heaviest.
+     */
+    private async satisfy(
+        level: PermissionLevel, keys: Set<string>, delaySec: number, depth: number, preferred: Set<string>
+    ): Promise<{ keys: Set<string>, path: AuthorityPath } | undefined> {
+        if (depth > maxAuthorityDepth) {
+            return undefined;
+        }
+        const permission = (await this.getPermissions(level.actor)).find(({ perm_name }) => perm_name === level.permission);
+        if (!permission) {
+            return undefined;
+        }
+        const { threshold } = permission.required_auth;
+        const candidates: { weight: number, keys: Set<string>, use: (path: AuthorityPath) => void }[] = [];
+        for (const { key, weight } of permission.required_auth.keys) {
+            const publicKey = convertLegacyPublicKey(key);
+            if (keys.has(publicKey)) {
+                candidates.push({ weight, keys: new Set([publicKey]), use: (path) => path.keys.push({ key: publicKey, weight }) });
+            }
+        }
+        const nestedPreferred = new Set(preferred);
+        candidates.forEach((candidate) => candidate.keys.forEach((key) => nestedPreferred.add(key)));
+        for (const { permission: account, weight } of permission.required_auth.accounts) {
+            const satisfied = await this.satisfy(account, keys, delaySec, depth + 1, nestedPreferred);
+            if (satisfied) {
+                candidates.push({ weight, keys: satisfied.keys, use: (path) => path.accounts.push({ weight, path: satisfied.path }) });
+            }
+        }
+        for (const wait of permission.required_auth.waits) {
+            if (wait.wait_sec <= delaySec) {
+                candidates.push({ weight: wait.weight, keys: new Set(), use: (path) => path.waits.push(wait) });
+            }
+        }
+
+        const path: AuthorityPath = { permission: `${level.actor}@${level.permission}`, threshold, keys: [], accounts: [], waits: [] };
+        const used = new Set<string>();
+        const added = (candidate: { keys: Set<string> }, exclude?: Set<string>): number =>
+            [...candidate.keys].filter((key) => !used.has(key) && !(exclude && exclude.has(key))).length;
+        let weight = 0;
+        while (weight < threshold && candidates.length) {
+            candidates.sort((a, b) =>
+                added(a) - added(b) || added(a, preferred) - added(b, preferred) || b.weight - a.weight);
+            const candidate = candidates.shift();
+            weight += candidate.weight;
+            candidate.keys.forEach((key) => used.add(key));
+            candidate.use(path);
+        }
+        return weight >= threshold ? { keys: used, path } : undefined;
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * @module Message-Encryption
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import BN = require('bn.js');
+import { sha256, sha512 } from 'hash.js';
+
+import { aesCbcDecrypt, aesCbcEncrypt, randomBytes, toUtf8 } from './eosjs-crypto';
+import { PrivateKey, PublicKey } from './eosjs-key-conversions';
+
+/**
+ * A message encrypted with the shared secret of two keys, in the format of eosjs-ecc's `Aes`:
+ * AES-256-CBC keyed with sha512(nonce || shared secret)
+ */
+export interface EncryptedMessage {
+    /** uint64 as a decimal string, unique for every message between the same keys */
+    nonce: string;
+    message: Uint8Array;
+
+    /** First 4 bytes of sha256 of the encryption key, as a little-endian uint32. Tells the keys apart before decrypting */
+    checksum: number;
+}
+
+let nonceEntropy: number;
+
+/** Nonce built like eosjs-ecc did: milliseconds since 1970 shifted by 16 bits, or a counter starting at random */
+export const uniqueNonce = (): string => {
+    if (nonceEntropy === undefined) {
+        const bytes = randomBytes(2);
+        nonceEntropy = bytes[0] << 8 | bytes[1];
+    }
+    nonceEntropy = (nonceEntropy + 1) % 0xffff;
+    return new BN(Date.now()).shln(16).or(new BN(nonceEntropy)).toString();
+};
+
+const messageKey = (privateKey: PrivateKey, publicKey: PublicKey, nonce: string) => {
+    const nonceNumber = new BN(nonce, 10);
+    if (!/^\d+$/.test(nonce) || nonceNumber.bitLength() > 64) {
+        throw new Error(`Invalid nonce ${nonce}`);
+    }
+    const encryptionKey = sha512()
+        .update(nonceNumber.toArray('le', 8))
+        .update(privateKey.getSharedSecret(publicKey))
+        .digest();
+    const check = sha256().update(encryptionKey).digest();
+    return {
+        key: new Uint8Array(encryptionKey.slice(0, 32)),
+        iv: new Uint8Array(encryptionKey.slice(32, 48)),
+        checksum: (check[0] | check[1] << 8 | check[2] << 16 | check[3] << 24) >>> 0,
+    };
+};
+
+/**
+ * Encrypt `message` from `privateKey` to `publicKey`; the recipient decrypts it with their private key and the
+ * sender's public key. Strings are encoded as UTF-8.
+ */
+export const encryptMessage = (
+    privateKey: PrivateKey, publicKey: PublicKey, message: Uint8Array | string, nonce: string = uniqueNonce()
+): EncryptedMessage => {
+    const { key, iv, checksum } = messageKey(privateKey, publicKey, nonce);
+    const plaintext = typeof message === 'string' ? new Uint8Array(toUtf8(message)) : message;
+    return { nonce, message: aesCbcEncrypt(key, iv, plaintext), checksum };
+};
+
+/** Decrypt `encrypted` with `privateKey` and the public key of the other party. Throws if the checksum doesn't match */
+export const decryptMessage = (privateKey: PrivateKey, publicKey: PublicKey, encrypted: EncryptedMessage): Uint8Array => {
+    const { key, iv, checksum } = messageKey(privateKey, publicKey, encrypted.nonce);
+    if (checksum !== encrypted.checksum) {
+        throw new Error('Message was not encrypted with the shared secret of these keys');
+    }
+    return aesCbcDecrypt(key, iv, encrypted.message);
+};
@@ -0,0 +1,148 @@
+/**
+ * @module Message-Signing
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { sha256 } from 'hash.js';
+
+import { PublicKey, Signature } from './eosjs-key-conversions';
+import { Abi } from './eosjs-rpc-interfaces';
+import * as ser from './eosjs-serialize';
+
+/**
+ * First bytes of every signed message digest. Transaction digests hash the chain id, the transaction and the hash of
+ * its context-free data, which is longer than this prefix and the two hashes following it
+ */
+export const messageSigningPrefix = new Uint8Array([0x19, 0x01]);
+
+/** Who the message is for: a dApp, optionally a contract, on one chain */
+export interface MessageDomain {
+    name: string;
+    version: string;
+    chainId: string;
+    contract?: string;
+}
+
+/** ABI struct definition, as in the `structs` of an ABI */
+export interface MessageStruct {
+    name: string;
+    base: string;
+    fields: { name: string, type: string }[];
+}
+
+/** A message of `primaryType`, one of `types` or a type built into the ABI serializer */
+export interface TypedMessage {
+    domain: MessageDomain;
+    types: MessageStruct[];
+    primaryType: string;
+    message: any;
+}
+
+export interface MessageSigningOptions {
+    /** `TextEncoder` instance to use. Pass in `null` if running in a browser */
+    textEncoder?: TextEncoder;
+
+    /** `TextDecoder` instance to use. Pass in `null` if running in a browser */
+    textDecoder?: TextDecoder;
+}
+
+const domainStruct: MessageStruct = {
+    name: 'eosio_message_domain',
+    base: '',
+    fields: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chain_id', type: 'checksum256' },
+        { name: 'contract', type: 'name' },
+    ],
+};
+
+/**
+ * Canonical description of `primaryType` and the structs it uses, as `name:base(type field,...)`:
+ * `primaryType` first, then the others sorted by name
+ */
+export const encodeMessageType = (types: MessageStruct[], primaryType: string): string => {
+    const structs = new Map(types.map((struct) => [struct.name, struct] as [string, MessageStruct]));
+    const used = new Set<string>();
+    const visit = (typeName: string) => {
+        const name = typeName.replace(/(\[\]|\?|\$)+$/, '');
+        const struct = structs.get(name);
+        if (!struct || used.has(name)) {
+            return;
+        }
+        used.add(name);
+        visit(struct.base);
+        struct.fields.forEach((field) => visit(field.type));
+    };
+    visit(primaryType);
+    const describe = ({ name, base, fields }: MessageStruct) =>
+        `${name}:${base}(${fields.map((field) => `${field.type} ${field.name}`).join(',')})`;
+    const others = [...used].filter((name) => name !== primaryType).sort();
+    return [primaryType, ...others].filter((name) => structs.has(name)).map((name) => describe(structs.get(name))).join('');
+};
+
+/** sha256 of the type description of `type` followed by `value` serialized as `type` */
+const hashStruct = (
+    types: Map<string, ser.Type>, structs: MessageStruct[], type: string, value: any, options: MessageSigningOptions
+): number[] => {
+    const buffer = new ser.SerialBuffer({ textEncoder: options.textEncoder, textDecoder: options.textDecoder });
+    ser.getType(types, type).serialize(buffer, value);
+    return sha256()
+        .update(sha256().update(buffer.textEncoder.encode(encodeMessageType(structs, type))).digest())
+        .update(buffer.asUint8Array())
+        .digest();
+};
+
+/** Digest signed for `typedMessage`: sha256 of `messageSigningPrefix`, the hash of the domain and the hash of the message */
+export const hashTypedMessage = (typedMessage: TypedMessage, options: MessageSigningOptions = {}): Uint8Array => {
+    const { domain, types: structs, primaryType, message } = typedMessage;
+    if (structs.some((struct) => struct.name === domainStruct.name)) {
+        throw new Error(`${domainStruct.name} is reserved for the domain of messages`);
+    }
+    const types = ser.getTypesFromAbi(ser.createInitialTypes(), { structs: [domainStruct, ...structs] } as Abi);
+    const domainHash = hashStruct(types, [domainStruct], domainStruct.name, {
+        name: domain.name,
+        version: domain.version,
+        chain_id: domain.chainId,
+        contract: domain.contract || '',
+    }, options);
+    const messageHash = hashStruct(types, structs, primaryType, message, options);
+    return new Uint8Array(sha256().update(messageSigningPrefix).update(domainHash).update(messageHash).digest());
+};
+
+/** Domain a verifier accepts messages for: its own `name` and `chainId`, and optionally `version` and `contract` */
+export type ExpectedMessageDomain = Pick<MessageDomain, 'name' | 'chainId'> & Partial<MessageDomain>;
+
+const domainMatches = (domain: MessageDomain, expected: ExpectedMessageDomain): boolean =>
+    expected.name === domain.name
+    && expected.chainId.toLowerCase() === domain.chainId.toLowerCase()
+    && (expected.version === undefined || expected.version === domain.version)
+    && (expected.contract === undefined || expected.contract === (domain.contract || ''));
+
+/** Public key which signed `typedMessage` */
+export const recoverTypedMessage = (
+    typedMessage: TypedMessage, signature: string, options: MessageSigningOptions = {}
+): string =>
+    Signature.fromString(signature).recoverTypedMessage(typedMessage, options).toString();
+
+/**
+ * Is `signature` a signature of `typedMessage` by `publicKey`, for a domain matching the fields of `expectedDomain`.
+ * `name` and `chainId` must be given, so messages meant for other dapps or chains aren't accepted.
+ */
+export const verifyTypedMessage = (
+    typedMessage: TypedMessage,
+    signature: string,
+    publicKey: string,
+    expectedDomain: ExpectedMessageDomain,
+    options: MessageSigningOptions = {},
+): boolean => {
+    if (!expectedDomain || !expectedDomain.name || !expectedDomain.chainId) {
+        throw new Error('expectedDomain must include the name and chainId of the domain');
+    }
+    if (!domainMatches(typedMessage.domain, expectedDomain)) {
+        return false;
+    }
+    const sig = Signature.fromString(signature);
+    const key = PublicKey.fromString(publicKey);
+    return sig.getType() === key.getType() && sig.verifyTypedMessage(typedMessage, key, options);
+};
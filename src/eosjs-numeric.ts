@@ -251,6 +251,21 @@ export const base64ToBinary = (s: string): Uint8Array => {
     return result;
 };
 
+/** Convert `bin` to padded base-64 */
+export const binaryToBase64 = (bin: Uint8Array): string => {
+    let result = '';
+    for (let i = 0; i < bin.length; i += 3) {
+        const byte0 = bin[i];
+        const byte1 = i + 1 < bin.length ? bin[i + 1] : 0;
+        const byte2 = i + 2 < bin.length ? bin[i + 2] : 0;
+        result += base64Chars[byte0 >> 2];
+        result += base64Chars[((byte0 & 3) << 4) | (byte1 >> 4)];
+        result += i + 1 < bin.length ? base64Chars[((byte1 & 15) << 2) | (byte2 >> 6)] : '=';
+        result += i + 2 < bin.length ? base64Chars[byte2 & 63] : '=';
+    }
+    return result;
+};
+
 /** Key types this library supports */
 export enum KeyType {
     k1 = 0,
@@ -0,0 +1,177 @@
+/**
+ * @module Partially-Signed
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { Api } from './eosjs-api';
+import { BinaryAbi, SignatureProvider, TransactConfig, Transaction, TransactResult } from './eosjs-api-interfaces';
+import { digestFromSerializedData } from './eosjs-jssig';
+import { Signature } from './eosjs-key-conversions';
+import { convertLegacyPublicKey } from './eosjs-numeric';
+import { PushTransactionArgs, ReadOnlyTransactResult } from './eosjs-rpc-interfaces';
+import { arrayToHex, hexToUint8Array } from './eosjs-serialize';
+import { TransactionVerification, verifyTransaction, VerifyTransactionOptions } from './eosjs-transaction-verifier';
+
+/** JSON form of a `PartiallySignedTransaction`, to pass it between the signing parties */
+export interface PartiallySignedTransactionData {
+    chainId: string;
+
+    /** Hex */
+    serializedTransaction: string;
+
+    /** Hex */
+    serializedContextFreeData?: string;
+
+    signatures: string[];
+
+    /** Keys which have to sign before the transaction is complete */
+    requiredKeys: string[];
+}
+
+/**
+ * A transaction collecting the signatures of several parties before it is broadcast. Every party signs
+ * with the required keys it owns, and the signatures collected separately are combined with `merge`.
+ */
+export class PartiallySignedTransaction {
+    public requiredKeys: string[];
+
+    constructor(
+        public chainId: string,
+        public serializedTransaction: Uint8Array,
+        public serializedContextFreeData?: Uint8Array,
+        public signatures: string[] = [],
+        requiredKeys: string[] = [],
+    ) {
+        this.requiredKeys = requiredKeys.map(convertLegacyPublicKey);
+    }
+
+    /**
+     * Serialize `transaction` without signing it, see `Api.transact` for `config`.
+     * `requiredKeys` are the keys of every party which has to sign.
+     */
+    public static async create(
+        api: Api, transaction: Transaction, requiredKeys: string[], config: TransactConfig = {}
+    ): Promise<PartiallySignedTransaction> {
+        const { serializedTransaction, serializedContextFreeData } = await api.transact(transaction, {
+            ...config,
+            sign: false,
+            broadcast: false,
+        }) as PushTransactionArgs;
+        return new PartiallySignedTransaction(api.chainId, serializedTransaction, serializedContextFreeData, [], requiredKeys);
+    }
+
+    public static fromJSON(data: PartiallySignedTransactionData): PartiallySignedTransaction {
+        return new PartiallySignedTransaction(
+            data.chainId,
+            hexToUint8Array(data.serializedTransaction),
+            data.serializedContextFreeData ? hexToUint8Array(data.serializedContextFreeData) : undefined,
+            data.signatures,
+            data.requiredKeys,
+        );
+    }
+
+    public toJSON(): PartiallySignedTransactionData {
+        return {
+            chainId: this.chainId,
+            serializedTransaction: arrayToHex(this.serializedTransaction),
+            serializedContextFreeData: this.serializedContextFreeData && arrayToHex(this.serializedContextFreeData),
+            signatures: this.signatures,
+            requiredKeys: this.requiredKeys,
+        };
+    }
+
+    /** Add the signatures of the required keys held by `signatureProvider` which didn't sign yet */
+    public async sign(signatureProvider: SignatureProvider, abis: BinaryAbi[] = []): Promise<PartiallySignedTransaction> {
+        const available = new Set((await signatureProvider.getAvailableKeys()).map(convertLegacyPublicKey));
+        const keys = this.missingKeys().filter((key) => available.has(key));
+        if (keys.length) {
+            const { signatures } = await signatureProvider.sign({
+                chainId: this.chainId,
+                requiredKeys: keys,
+                serializedTransaction: this.serializedTransaction,
+                serializedContextFreeData: this.serializedContextFreeData,
+                abis,
+            });
+            this.addSignatures(signatures);
+        }
+        return this;
+    }
+
+    /** Add the signatures collected by copies of this transaction. Throws if they are for another transaction */
+    public merge(...others: PartiallySignedTransaction[]): PartiallySignedTransaction {
+        for (const other of others) {
+            if (other.chainId !== this.chainId
+                || arrayToHex(other.serializedTransaction) !== arrayToHex(this.serializedTransaction)
+                || arrayToHex(other.serializedContextFreeData || new Uint8Array(0))
+                    !== arrayToHex(this.serializedContextFreeData || new Uint8Array(0))) {
+                throw new Error('Cannot merge signatures of a different transaction');
+            }
+            this.addSignatures(other.signatures);
+        }
+        return this;
+    }
+
+    /**
+     * Add `signatures`, ignoring those by keys which already signed. Throws without adding any if one is by a key
+     * which isn't required, as nodeos rejects transactions with irrelevant signatures
+     */
+    public addSignatures(signatures: string[]): PartiallySignedTransaction {
+        const required = new Set(this.requiredKeys.map(convertLegacyPublicKey));
+        const keys = signatures.map((signature) => this.recoverKey(signature));
+        const irrelevant = keys.find((key) => !required.has(key));
+        if (irrelevant) {
+            throw new Error(`Signature by ${irrelevant}, which is not a required key`);
+        }
+        const signed = new Set(this.signingKeys());
+        for (const [i, signature] of signatures.entries()) {
+            const key = keys[i];
+            if (!signed.has(key)) {
+                signed.add(key);
+                this.signatures.push(signature);
+            }
+        }
+        return this;
+    }
+
+    /** Keys recovered from the signatures collected so far */
+    public signingKeys(): string[] {
+        return this.signatures.map((signature) => this.recoverKey(signature));
+    }
+
+    /** Required keys which didn't sign yet */
+    public missingKeys(): string[] {
+        const signed = new Set(this.signingKeys());
+        return this.requiredKeys.filter((key) => !signed.has(key));
+    }
+
+    public isComplete(): boolean {
+        return !this.missingKeys().length;
+    }
+
+    /** Check the collected signatures against the on-chain authorities, see `verifyTransaction` */
+    public async verify(api: Api, options: VerifyTransactionOptions = {}): Promise<TransactionVerification> {
+        return verifyTransaction(api, this.toPushTransactionArgs(), { chainId: this.chainId, ...options });
+    }
+
+    public toPushTransactionArgs(): PushTransactionArgs {
+        return {
+            signatures: [...this.signatures],
+            serializedTransaction: this.serializedTransaction,
+            serializedContextFreeData: this.serializedContextFreeData,
+        };
+    }
+
+    /** Push the transaction once every required key signed */
+    public async broadcast(api: Api): Promise<TransactResult | ReadOnlyTransactResult> {
+        const missing = this.missingKeys();
+        if (missing.length) {
+            throw new Error(`Missing signatures of ${missing.join(', ')}`);
+        }
+        return api.pushSignedTransaction(this.toPushTransactionArgs());
+    }
+
+    private recoverKey(signature: string): string {
+        const digest = digestFromSerializedData(this.chainId, this.serializedTransaction, this.serializedContextFreeData);
+        return Signature.fromString(signature).recover(digest, false).toString();
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * @module RPC-Cache
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+/**
+ * Storage for cached responses. Values are JSON strings and `ttl` is in milliseconds (`Infinity` for no expiry).
+ * Methods may return promises so remote stores (e.g. Redis) can be plugged in.
+ */
+export interface RpcCacheStorage {
+    /** Stored value, or `undefined` if missing or expired */
+    get: (key: string) => string | undefined | Promise<string | undefined>;
+    set: (key: string, value: string, ttl: number) => void | Promise<void>;
+    delete: (key: string) => void | Promise<void>;
+    clear: () => void | Promise<void>;
+}
+
+/** Chain state known to the cache, taken from responses passing through it */
+export interface RpcCacheState {
+    /** Highest `last_irreversible_block_num` seen */
+    lastIrreversibleBlockNum: number;
+}
+
+/** Milliseconds to cache a response for, or a function computing it. `0` disables caching. */
+export type RpcCacheRule = number | ((body: any, json: any, state: RpcCacheState) => number);
+
+export interface RpcCacheOptions {
+    /** Defaults to an in-memory `LruCacheStorage` */
+    storage?: RpcCacheStorage;
+
+    /** Rules by path, added to and overriding `defaultCacheRules`. Paths without a rule are never cached. */
+    rules?: { [path: string]: RpcCacheRule };
+
+    /**
+     * Prefix of the storage keys, e.g. the chain id, so a storage can be shared between chains. `JsonRpc` defaults
+     * it to its list of endpoints.
+     */
+    namespace?: string;
+}
+
+/** Irreversible blocks never change, so they are cached without expiry. Reversible blocks are not cached. */
+const irreversibleBlockRule = (body: any, json: any, state: RpcCacheState): number =>
+    json && typeof json.block_num === 'number' && json.block_num <= state.lastIrreversibleBlockNum ? Infinity : 0;
+
+/** Rules used unless overridden. Table reads are left out, they only get cached when a rule is added for them. */
+export const defaultCacheRules: { [path: string]: RpcCacheRule } = {
+    '/v1/chain/get_abi': 60 * 1000,
+    '/v1/chain/get_raw_abi': 60 * 1000,
+    '/v1/chain/get_code_hash': 60 * 1000,
+    '/v1/chain/get_currency_stats': 60 * 1000,
+    '/v1/chain/get_block': irreversibleBlockRule,
+    '/v1/chain/get_block_info': irreversibleBlockRule,
+};
+
+/** Calls which take `{ account_name }` and return data that changes when the account's contract is updated */
+const accountPaths = ['/v1/chain/get_abi', '/v1/chain/get_raw_abi', '/v1/chain/get_code_hash'];
+
+/** In-memory storage which drops the least recently used entry once `maxEntries` is reached */
+export class LruCacheStorage implements RpcCacheStorage {
+    private entries = new Map<string, { value: string, expires: number }>();
+
+    constructor(public maxEntries = 1000) {}
+
+    public get(key: string): string | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (entry.expires <= Date.now()) {
+            return undefined;
+        }
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    public set(key: string, value: string, ttl: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expires: Date.now() + ttl });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+    }
+
+    public delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Caches responses of read-only calls according to per-path rules. Cached responses are returned without a request,
+ * so no `JsonRpcMiddleware` hooks run for them.
+ */
+export class RpcCache {
+    public storage: RpcCacheStorage;
+    public rules: { [path: string]: RpcCacheRule };
+    public state: RpcCacheState = { lastIrreversibleBlockNum: 0 };
+    public namespace: string;
+
+    constructor({ storage, rules, namespace = '' }: RpcCacheOptions = {}) {
+        this.storage = storage || new LruCacheStorage();
+        this.rules = { ...defaultCacheRules, ...rules };
+        this.namespace = namespace;
+    }
+
+    /** Cached response to a call, or `undefined` */
+    public async get(path: string, body: any): Promise<any> {
+        if (!this.rules[path]) {
+            return undefined;
+        }
+        const value = await this.storage.get(this.key(path, body));
+        return value === undefined ? undefined : JSON.parse(value);
+    }
+
+    /** Store a response if its path has a rule allowing it, and learn the irreversible block from it */
+    public async put(path: string, body: any, json: any): Promise<void> {
+        if (json && typeof json.last_irreversible_block_num === 'number') {
+            this.state.lastIrreversibleBlockNum = Math.max(
+                this.state.lastIrreversibleBlockNum, json.last_irreversible_block_num);
+        }
+        const rule = this.rules[path];
+        const ttl = typeof rule === 'function' ? rule(body, json, this.state) : rule;
+        if (ttl > 0) {
+            await this.storage.set(this.key(path, body), JSON.stringify(json), ttl);
+        }
+    }
+
+    /** Remove a cached response */
+    public async invalidate(path: string, body: any): Promise<void> {
+        await this.storage.delete(this.key(path, body));
+    }
+
+    /** Remove cached abis and code hashes of `accountName`, e.g. after deploying a contract to it */
+    public async invalidateAccount(accountName: string): Promise<void> {
+        await Promise.all(accountPaths.map((path) => this.invalidate(path, { account_name: accountName })));
+    }
+
+    public async clear(): Promise<void> {
+        await this.storage.clear();
+    }
+
+    private key(path: string, body: any): string {
+        return `${this.namespace}:${path}:${JSON.stringify(body)}`;
+    }
+}
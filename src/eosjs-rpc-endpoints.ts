@@ -0,0 +1,136 @@
+/**
+ * @module RPC-Endpoints
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { GetInfoResult } from './eosjs-rpc-interfaces';
+
+/**
+ * Order in which endpoints are tried
+ * * `priority`: in the order they were given
+ * * `round-robin`: rotate the first endpoint on every call
+ * * `lowest-latency`: fastest measured endpoint first, endpoints not measured yet after all measured ones
+ */
+export type RoutingPolicy = 'priority' | 'round-robin' | 'lowest-latency';
+
+/** Options controlling how calls are spread over several endpoints */
+export interface EndpointPoolOptions {
+    /** Order in which healthy endpoints are tried, defaults to `priority` */
+    routing?: RoutingPolicy;
+
+    /** Milliseconds an unhealthy endpoint is skipped before it is tried again, defaults to 30 seconds */
+    unhealthyTimeout?: number;
+
+    /** `get_info` reporting a `head_block_time` older than this (milliseconds) marks the endpoint unhealthy. `0` disables the check */
+    maxHeadBlockAge?: number;
+}
+
+/** Health and latency of a single endpoint */
+export interface EndpointStatus {
+    /** Endpoint url, without trailing slash */
+    url: string;
+
+    /** Did the last call to this endpoint succeed? */
+    healthy: boolean;
+
+    /** Time (`Date.now()`) until which an unhealthy endpoint is skipped */
+    unhealthyUntil: number;
+
+    /** Consecutive failures */
+    failures: number;
+
+    /** Moving average of the response time in milliseconds, `null` until measured */
+    latency: number|null;
+
+    /** Error which marked this endpoint unhealthy */
+    lastError?: Error;
+}
+
+/** Weight of the newest sample in the latency moving average */
+const latencySmoothing = 0.3;
+
+/** Latency to sort by: endpoints not measured yet count as slowest */
+const sortLatency = (status: EndpointStatus): number => status.latency === null ? Infinity : status.latency;
+
+/** Tracks endpoint health and decides which endpoints a call is sent to */
+export class EndpointPool {
+    public statuses: EndpointStatus[];
+    public routing: RoutingPolicy;
+    public unhealthyTimeout: number;
+    public maxHeadBlockAge: number;
+
+    private nextIndex = 0;
+
+    constructor(urls: string[], {
+        routing = 'priority',
+        unhealthyTimeout = 30 * 1000,
+        maxHeadBlockAge = 60 * 1000,
+    }: EndpointPoolOptions = {}) {
+        if (!urls.length) {
+            throw new Error('At least one endpoint is required');
+        }
+        this.statuses = urls.map((url) => ({
+            url: url.replace(/\/$/, ''),
+            healthy: true,
+            unhealthyUntil: 0,
+            failures: 0,
+            latency: null,
+        }));
+        this.routing = routing;
+        this.unhealthyTimeout = unhealthyTimeout;
+        this.maxHeadBlockAge = maxHeadBlockAge;
+    }
+
+    /**
+     * Endpoints to try, in order. Endpoints which are usable come first, ordered by the routing policy.
+     * Endpoints still inside their unhealthy timeout follow as a last resort, soonest to recover first.
+     */
+    public select(): EndpointStatus[] {
+        const now = Date.now();
+        let usable = this.statuses.filter((status) => status.healthy || status.unhealthyUntil <= now);
+        const resting = this.statuses
+            .filter((status) => !status.healthy && status.unhealthyUntil > now)
+            .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+
+        if (this.routing === 'round-robin' && usable.length) {
+            const start = this.nextIndex++ % usable.length;
+            usable = usable.slice(start).concat(usable.slice(0, start));
+        } else if (this.routing === 'lowest-latency') {
+            usable = usable.slice().sort((a, b) =>
+                sortLatency(a) === sortLatency(b) ? 0 : sortLatency(a) < sortLatency(b) ? -1 : 1);
+        }
+        return usable.concat(resting);
+    }
+
+    /** Record a response from `status` which took `latency` milliseconds */
+    public markSuccess(status: EndpointStatus, latency: number): void {
+        status.healthy = true;
+        status.unhealthyUntil = 0;
+        status.failures = 0;
+        delete status.lastError;
+        status.latency = status.latency === null
+            ? latency
+            : status.latency + (latency - status.latency) * latencySmoothing;
+    }
+
+    /** Skip `status` for `unhealthyTimeout` milliseconds */
+    public markFailure(status: EndpointStatus, error: Error): void {
+        status.healthy = false;
+        status.unhealthyUntil = Date.now() + this.unhealthyTimeout;
+        status.failures += 1;
+        status.lastError = error;
+    }
+
+    /** Mark `status` unhealthy if `info` shows it lagging behind the chain. Returns `false` when it does. */
+    public checkInfo(status: EndpointStatus, info: GetInfoResult): boolean {
+        if (!this.maxHeadBlockAge || !info || !info.head_block_time) {
+            return true;
+        }
+        const age = Date.now() - Date.parse(info.head_block_time + 'Z');
+        if (age <= this.maxHeadBlockAge) {
+            return true;
+        }
+        this.markFailure(status, new Error(`head block is ${Math.round(age / 1000)} seconds old`));
+        return false;
+    }
+}
@@ -104,6 +104,9 @@ export interface Permission {
     perm_name: string;
     parent: string;
     required_auth: Authority;
+
+    /** Actions linked to the permission with `linkauth`, reported by newer nodes. `action` is empty for a whole contract */
+    linked_actions?: { account: string, action?: string }[];
 }
 
 export interface PermissionLevel {
@@ -0,0 +1,52 @@
+/**
+ * @module RPC-Middleware
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+/** State of a single request to a single endpoint, shared by the hooks of every `JsonRpcMiddleware` */
+export interface RpcRequestContext {
+    /** Endpoint the request is sent to */
+    endpoint: string;
+
+    /** Path of the call, e.g. `/v1/chain/get_info` */
+    path: string;
+
+    /** Request body before JSON encoding. May be replaced in `beforeRequest` */
+    body: any;
+
+    /** Extra headers to send. May be modified in `beforeRequest` */
+    headers: { [name: string]: string };
+
+    /** Attempt number when the call is retried, starting at 1 */
+    attempt: number;
+
+    /** Time (`Date.now()`) the request was started */
+    startTime: number;
+
+    /** Milliseconds from `startTime` until the response or error */
+    elapsed?: number;
+
+    /** Response returned by `fetch` */
+    response?: any;
+
+    /** Decoded response body. May be replaced in `afterResponse` */
+    json?: any;
+
+    /** Error which failed the request, set for `onError` */
+    error?: Error;
+}
+
+/**
+ * Hook into every request made by `JsonRpc`. Hooks run in the order the middleware was added.
+ * Calls answered from the `JsonRpc` cache make no request and run no hooks.
+ */
+export interface JsonRpcMiddleware {
+    /** Called before the request is sent, e.g. to add headers or sign the body */
+    beforeRequest?: (context: RpcRequestContext) => void | Promise<void>;
+
+    /** Called after a response was decoded and before it is checked for errors */
+    afterResponse?: (context: RpcRequestContext) => void | Promise<void>;
+
+    /** Called when the request failed, because of the network or an error reported by the node */
+    onError?: (context: RpcRequestContext) => void | Promise<void>;
+}
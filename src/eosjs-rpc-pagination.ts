@@ -0,0 +1,96 @@
+/**
+ * @module RPC-Pagination
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+/** Options shared by the `JsonRpc.iterate*` helpers */
+export interface PaginationOptions {
+    /** Maximum number of items to yield in total, defaults to all of them */
+    limit?: number;
+
+    /** Maximum number of items requested per call, defaults to 100 */
+    pageSize?: number;
+}
+
+/** Options of `JsonRpc.iterateTableRows`, see `JsonRpc.get_table_rows` */
+export interface IterateTableRowsOptions extends PaginationOptions {
+    json?: boolean;
+    code: string;
+    scope: string;
+    table: string;
+    lower_bound?: string;
+    upper_bound?: string;
+    index_position?: number | string;
+    key_type?: string;
+    reverse?: boolean;
+    show_payer?: boolean;
+}
+
+/** Options of `JsonRpc.iterateKvTableRows`, see `JsonRpc.get_kv_table_rows` */
+export interface IterateKvTableRowsOptions extends PaginationOptions {
+    json?: boolean;
+    code: string;
+    table: string;
+    index_name: string;
+    encode_type?: string;
+    lower_bound?: string;
+    upper_bound?: string;
+    reverse?: boolean;
+    show_payer?: boolean;
+}
+
+/** Options of `JsonRpc.iterateScopes`, see `JsonRpc.get_table_by_scope` */
+export interface IterateScopesOptions extends PaginationOptions {
+    code: string;
+    table?: string;
+    lower_bound?: string;
+    upper_bound?: string;
+    reverse?: boolean;
+}
+
+/** One page of results, and the cursor to fetch the next one with (`undefined` after the last page) */
+export interface Page<T> {
+    items: T[];
+    next?: string;
+}
+
+/**
+ * Items of the pages returned by `fetchPage`, fetched one page at a time as they are consumed.
+ * `fetchPage` receives the cursor of the page (`undefined` for the first one) and the number of items to request.
+ * Every iteration starts from the first page, so several consumers can iterate concurrently.
+ * Breaking out of the iteration stops fetching.
+ */
+export const paginate = <T>(
+    fetchPage: (cursor: string | undefined, pageSize: number) => Promise<Page<T>>,
+    { limit = Infinity, pageSize = 100 }: PaginationOptions = {},
+): AsyncIterable<T> => ({
+    [Symbol.asyncIterator]: async function* (): AsyncGenerator<T> {
+        let remaining = limit;
+        let cursor: string;
+        while (remaining > 0) {
+            const page = await fetchPage(cursor, Math.min(pageSize, remaining));
+            for (const item of page.items.slice(0, remaining)) {
+                --remaining;
+                yield item;
+            }
+            if (page.next === undefined) {
+                return;
+            }
+            if (page.next === cursor) {
+                throw new Error(`Pagination did not advance past ${cursor}`);
+            }
+            cursor = page.next;
+        }
+    },
+});
+
+/** Cursor of the page after one with `more` rows and `next_key`, for results of `get_table_rows` and `get_kv_table_rows` */
+export const nextKey = ({ more, next_key }: { more: boolean, next_key: string }): string | undefined => {
+    if (!more) {
+        return undefined;
+    }
+    if (!next_key) {
+        throw new Error('More rows are available but the node did not return next_key');
+    }
+    return next_key;
+};
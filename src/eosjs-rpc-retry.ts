@@ -0,0 +1,122 @@
+/**
+ * @module RPC-Retry
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { inflate } from 'pako';
+import { sha256 } from 'hash.js';
+
+import { RpcError } from './eosjs-rpcerror';
+import { hexToUint8Array } from './eosjs-serialize';
+
+/** Timeout and retry behaviour of `JsonRpc.fetch` */
+export interface RetryPolicy {
+    /** Milliseconds before a request to a single endpoint is aborted, `0` for no timeout */
+    timeout?: number;
+
+    /** Total number of attempts, including the first one */
+    maxAttempts?: number;
+
+    /** Milliseconds before the first retry, doubled for every further retry */
+    backoff?: number;
+
+    /** Upper limit of the delay between two attempts */
+    maxBackoff?: number;
+
+    /** Pick a random delay between 0 and the computed backoff */
+    jitter?: boolean;
+
+    /** HTTP statuses of error responses which are retried */
+    retryableStatuses?: number[];
+
+    /** `RpcError` codes (`json.error.code`) which are retried */
+    retryableErrorCodes?: number[];
+}
+
+/** Policy used for any field a `RetryPolicy` leaves out. Calls are attempted once without a timeout. */
+export const defaultRetryPolicy: RetryPolicy = {
+    timeout: 0,
+    maxAttempts: 1,
+    backoff: 500,
+    maxBackoff: 10 * 1000,
+    jitter: true,
+    retryableStatuses: [408, 429, 502, 503, 504],
+    retryableErrorCodes: [],
+};
+
+/** Error code of `tx_duplicate`: the transaction was already accepted by the chain */
+export const duplicateTransactionErrorCode = 3040008;
+
+/** Error code of `expired_tx_exception`: the transaction expired before it was applied */
+export const expiredTransactionErrorCode = 3040005;
+
+/** Error code of `tx_ref_block_exception`: the TAPoS reference block is not part of the chain */
+export const refBlockErrorCode = 3040007;
+
+/** Calls which change chain state when they reach a node */
+const transactionPaths = ['/v1/chain/push_transaction', '/v1/chain/send_transaction'];
+const nonIdempotentPaths = [...transactionPaths, '/v1/chain/push_transactions'];
+
+/** Can a call to `path` be repeated without side effects? */
+export const isIdempotentPath = (path: string): boolean => !nonIdempotentPaths.includes(path);
+
+/**
+ * Id of the transaction pushed by a call to `path` with `body`, if the call pushes a single transaction.
+ * A repeated push of the same id is rejected by the chain as a duplicate, which makes the call safe to retry.
+ */
+export const transactionIdFromBody = (path: string, body: any): string | undefined => {
+    if (!transactionPaths.includes(path) || !body || typeof body.packed_trx !== 'string') {
+        return undefined;
+    }
+    let packedTrx = hexToUint8Array(body.packed_trx);
+    if (body.compression === 1) {
+        packedTrx = inflate(packedTrx);
+    }
+    return sha256().update(packedTrx).digest('hex');
+};
+
+/** Is `error` the chain rejecting a transaction it already accepted? */
+export const isDuplicateTransaction = (error: any): boolean =>
+    error instanceof RpcError && !!error.json && !!error.json.error
+    && error.json.error.code === duplicateTransactionErrorCode;
+
+/** Should a call which failed with `error` be attempted again under `policy`? */
+export const isRetryable = (error: any, policy: RetryPolicy): boolean => {
+    if (!(error instanceof RpcError)) {
+        return true;
+    }
+    if (error.status && policy.retryableStatuses.includes(error.status)) {
+        return true;
+    }
+    return !!error.json && !!error.json.error && policy.retryableErrorCodes.includes(error.json.error.code);
+};
+
+/** Milliseconds to wait before attempt number `attempt + 1` */
+export const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+    const delay = Math.min(policy.maxBackoff, policy.backoff * Math.pow(2, attempt - 1));
+    return policy.jitter ? Math.random() * delay : delay;
+};
+
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Reject with a timeout error if `promise` takes longer than `ms` milliseconds. `onTimeout` can abort the work. */
+export const withTimeout = <T>(promise: Promise<T>, ms: number, onTimeout?: () => void): Promise<T> => {
+    if (!ms) {
+        return promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            if (onTimeout) {
+                onTimeout();
+            }
+            reject(new Error(`Request timed out after ${ms} ms`));
+        }, ms);
+        promise.then((value) => {
+            clearTimeout(timer);
+            resolve(value);
+        }, (error) => {
+            clearTimeout(timer);
+            reject(error);
+        });
+    });
+};
@@ -9,6 +9,9 @@ export class RpcError extends Error {
     public json: any;
     public details: any;
 
+    /** HTTP status of the response, if the node answered with an error status */
+    public status?: number;
+
     constructor(json: any) {
         if (json.error && json.error.details && json.error.details.length && json.error.details[0].message) {
             super(json.error.details[0].message);
@@ -26,3 +29,15 @@ export class RpcError extends Error {
         this.json = json;
     }
 }
+
+/** A repeated push was rejected as `tx_duplicate`: an earlier copy of the transaction did reach the chain */
+export class DuplicateTransactionError extends RpcError {
+    /** Id of the transaction which reached the chain */
+    public transactionId: string;
+
+    constructor(json: any, transactionId: string) {
+        super(json);
+        Object.setPrototypeOf(this, DuplicateTransactionError.prototype);
+        this.transactionId = transactionId;
+    }
+}
@@ -0,0 +1,287 @@
+/**
+ * @module Signing-Envelope
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { sha256 } from 'hash.js';
+
+import { Api } from './eosjs-api';
+import { AbiProvider, BinaryAbi, SignatureProvider, Transaction } from './eosjs-api-interfaces';
+import { digestFromSerializedData } from './eosjs-jssig';
+import { JsonRpc } from './eosjs-jsonrpc';
+import { Signature } from './eosjs-key-conversions';
+import { convertLegacyPublicKey } from './eosjs-numeric';
+import { PushTransactionArgs } from './eosjs-rpc-interfaces';
+import { arrayToHex, hexToUint8Array, SerialBuffer } from './eosjs-serialize';
+
+/** Version of the envelope encoding written by `encodeSigningEnvelope` */
+export const signingEnvelopeVersion = 1;
+
+/** Everything an offline machine needs to check and sign a transaction */
+export interface SigningEnvelope {
+    chainId: string;
+    serializedTransaction: Uint8Array;
+    serializedContextFreeData?: Uint8Array;
+
+    /** Abis of the contracts of every action, to decode them without network access */
+    abis: BinaryAbi[];
+
+    signatures: string[];
+
+    /** Keys which have to sign the transaction */
+    requiredKeys: string[];
+}
+
+/** JSON form of a `SigningEnvelope`. Binary fields are hex */
+export interface SigningEnvelopeJson {
+    version: number;
+    chainId: string;
+    serializedTransaction: string;
+    serializedContextFreeData?: string;
+    abis: { accountName: string, abi: string }[];
+    signatures: string[];
+    requiredKeys: string[];
+
+    /** sha256 of the binary encoding of the other fields */
+    checksum: string;
+}
+
+export interface SigningEnvelopeOptions {
+    /** `TextEncoder` instance to use. Pass in `null` if running in a browser */
+    textEncoder?: TextEncoder;
+
+    /** `TextDecoder` instance to use. Pass in `null` if running in a browser */
+    textDecoder?: TextDecoder;
+}
+
+export interface SigningEnvelopeCheckOptions extends SigningEnvelopeOptions {
+    /** Chain the offline machine expects to sign for. Envelopes for any other chain are rejected */
+    chainId?: string;
+}
+
+/** Human-readable content of a `SigningEnvelope`, as it will be signed */
+export interface SigningEnvelopePreview {
+    chainId: string;
+    transactionId: string;
+
+    /** The transaction with the data of its actions decoded using the abis of the envelope */
+    transaction: Transaction;
+
+    requiredKeys: string[];
+
+    /** Keys recovered from the signatures of the envelope */
+    signingKeys: string[];
+}
+
+const checksumLength = 32;
+
+/** Prepare `serializedTransaction` for offline signing, with the abis of its actions */
+export const createSigningEnvelope = async (
+    api: Api,
+    { serializedTransaction, serializedContextFreeData, signatures = [] }: Partial<PushTransactionArgs>,
+    requiredKeys: string[],
+): Promise<SigningEnvelope> => {
+    const chainId = api.chainId || (await api.rpc.get_info()).chain_id;
+    const abis = await api.getTransactionAbis(api.deserializeTransaction(serializedTransaction));
+    abis.sort((a, b) => a.accountName < b.accountName ? -1 : a.accountName > b.accountName ? 1 : 0);
+    return {
+        chainId,
+        serializedTransaction,
+        serializedContextFreeData,
+        abis,
+        signatures: [...signatures],
+        requiredKeys: requiredKeys.map(convertLegacyPublicKey),
+    };
+};
+
+/** Binary encoding of the fields of `envelope`, without version and checksum */
+const encodeFields = (envelope: SigningEnvelope, { textEncoder, textDecoder }: SigningEnvelopeOptions): Uint8Array => {
+    const buffer = new SerialBuffer({ textEncoder, textDecoder });
+    buffer.pushArray(hexToUint8Array(envelope.chainId));
+    buffer.pushBytes(envelope.serializedTransaction);
+    buffer.push(envelope.serializedContextFreeData ? 1 : 0);
+    if (envelope.serializedContextFreeData) {
+        buffer.pushBytes(envelope.serializedContextFreeData);
+    }
+    buffer.pushVaruint32(envelope.abis.length);
+    for (const { accountName, abi } of envelope.abis) {
+        buffer.pushName(accountName);
+        buffer.pushBytes(abi);
+    }
+    for (const strings of [envelope.signatures, envelope.requiredKeys]) {
+        buffer.pushVaruint32(strings.length);
+        strings.forEach((s) => buffer.pushString(s));
+    }
+    return buffer.asUint8Array();
+};
+
+const decodeFields = (fields: Uint8Array, { textEncoder, textDecoder }: SigningEnvelopeOptions): SigningEnvelope => {
+    const buffer = new SerialBuffer({ textEncoder, textDecoder, array: fields });
+    const chainId = arrayToHex(buffer.getUint8Array(32)).toLowerCase();
+    const serializedTransaction = buffer.getBytes();
+    const serializedContextFreeData = buffer.get() ? buffer.getBytes() : undefined;
+    const abis: BinaryAbi[] = [];
+    for (let count = buffer.getVaruint32(); count; --count) {
+        abis.push({ accountName: buffer.getName(), abi: buffer.getBytes() });
+    }
+    const [signatures, requiredKeys] = [0, 1].map(() => {
+        const strings = [];
+        for (let count = buffer.getVaruint32(); count; --count) {
+            strings.push(buffer.getString());
+        }
+        return strings;
+    });
+    if (buffer.haveReadData()) {
+        throw new Error('Signing envelope has trailing data');
+    }
+    return { chainId, serializedTransaction, serializedContextFreeData, abis, signatures, requiredKeys };
+};
+
+const checksum = (fields: Uint8Array): Uint8Array => new Uint8Array(sha256().update(fields).digest());
+
+/** Canonical binary encoding of `envelope`: version, fields, then the sha256 of the fields */
+export const encodeSigningEnvelope = (envelope: SigningEnvelope, options: SigningEnvelopeOptions = {}): Uint8Array => {
+    const fields = encodeFields(envelope, options);
+    const result = new Uint8Array(1 + fields.length + checksumLength);
+    result[0] = signingEnvelopeVersion;
+    result.set(fields, 1);
+    result.set(checksum(fields), 1 + fields.length);
+    return result;
+};
+
+/** Decode the output of `encodeSigningEnvelope`. Throws if the version or checksum don't match */
+export const decodeSigningEnvelope = (data: Uint8Array, options: SigningEnvelopeOptions = {}): SigningEnvelope => {
+    if (data[0] !== signingEnvelopeVersion) {
+        throw new Error(`Unsupported signing envelope version ${data[0]}`);
+    }
+    if (data.length < 1 + checksumLength) {
+        throw new Error('Signing envelope is truncated');
+    }
+    const fields = data.subarray(1, data.length - checksumLength);
+    if (arrayToHex(checksum(fields)) !== arrayToHex(data.subarray(data.length - checksumLength))) {
+        throw new Error('Signing envelope checksum mismatch');
+    }
+    return decodeFields(fields, options);
+};
+
+/** JSON form of `envelope`, its checksum matching the binary encoding */
+export const signingEnvelopeToJson = (envelope: SigningEnvelope, options: SigningEnvelopeOptions = {}): SigningEnvelopeJson => ({
+    version: signingEnvelopeVersion,
+    chainId: envelope.chainId,
+    serializedTransaction: arrayToHex(envelope.serializedTransaction),
+    serializedContextFreeData: envelope.serializedContextFreeData && arrayToHex(envelope.serializedContextFreeData),
+    abis: envelope.abis.map(({ accountName, abi }) => ({ accountName, abi: arrayToHex(abi) })),
+    signatures: envelope.signatures,
+    requiredKeys: envelope.requiredKeys,
+    checksum: arrayToHex(checksum(encodeFields(envelope, options))),
+});
+
+/** Decode the output of `signingEnvelopeToJson`. Throws if the version or checksum don't match */
+export const signingEnvelopeFromJson = (json: SigningEnvelopeJson, options: SigningEnvelopeOptions = {}): SigningEnvelope => {
+    if (json.version !== signingEnvelopeVersion) {
+        throw new Error(`Unsupported signing envelope version ${json.version}`);
+    }
+    const envelope: SigningEnvelope = {
+        chainId: json.chainId.toLowerCase(),
+        serializedTransaction: hexToUint8Array(json.serializedTransaction),
+        serializedContextFreeData: json.serializedContextFreeData ? hexToUint8Array(json.serializedContextFreeData) : undefined,
+        abis: json.abis.map(({ accountName, abi }) => ({ accountName, abi: hexToUint8Array(abi) })),
+        signatures: json.signatures,
+        requiredKeys: json.requiredKeys,
+    };
+    if (arrayToHex(checksum(encodeFields(envelope, options))) !== (json.checksum || '').toUpperCase()) {
+        throw new Error('Signing envelope checksum mismatch');
+    }
+    return envelope;
+};
+
+/**
+ * Decode the transaction of `envelope` with its abis, without network access. Throws if the envelope
+ * is for another chain than `chainId`, if an abi is missing, or if the decoded transaction doesn't
+ * serialize back to the exact bytes which would be signed.
+ */
+export const previewSigningEnvelope = async (
+    envelope: SigningEnvelope, { chainId, textEncoder, textDecoder }: SigningEnvelopeCheckOptions = {}
+): Promise<SigningEnvelopePreview> => {
+    if (!/^[0-9a-f]{64}$/.test(envelope.chainId)) {
+        throw new Error(`Invalid chain id ${envelope.chainId}`);
+    }
+    if (chainId && chainId.toLowerCase() !== envelope.chainId) {
+        throw new Error(`Signing envelope is for chain ${envelope.chainId}, expected ${chainId.toLowerCase()}`);
+    }
+    const abis = new Map<string, BinaryAbi>();
+    for (const abi of envelope.abis) {
+        if (abis.has(abi.accountName)) {
+            throw new Error(`Signing envelope has several abis for ${abi.accountName}`);
+        }
+        abis.set(abi.accountName, abi);
+    }
+    const abiProvider: AbiProvider = {
+        getRawAbi: async (accountName: string) => {
+            if (!abis.has(accountName)) {
+                throw new Error(`Signing envelope has no abi for ${accountName}`);
+            }
+            return abis.get(accountName);
+        },
+    };
+    const offlineFetch = async (): Promise<any> => {
+        throw new Error('Signing envelopes are checked without network access');
+    };
+    const api = new Api({
+        rpc: new JsonRpc('', { fetch: offlineFetch }),
+        abiProvider,
+        signatureProvider: null,
+        chainId: envelope.chainId,
+        textEncoder,
+        textDecoder,
+    });
+
+    const transaction = await api.deserializeTransactionWithActions(envelope.serializedTransaction);
+    const actions = transaction.context_free_actions.concat(transaction.actions);
+    const serializedActions = await api.serializeActions(actions);
+    const raw = api.deserializeTransaction(envelope.serializedTransaction);
+    raw.context_free_actions.concat(raw.actions).forEach(({ account, name, data }, index) => {
+        if (arrayToHex(hexToUint8Array(data)) !== arrayToHex(hexToUint8Array(serializedActions[index].data))) {
+            throw new Error(`Data of action ${account}::${name} does not match its decoded form`);
+        }
+    });
+    if (arrayToHex(api.serializeTransaction(raw)) !== arrayToHex(envelope.serializedTransaction)) {
+        throw new Error('Serialized transaction does not match its decoded form');
+    }
+
+    const digest = digestFromSerializedData(envelope.chainId, envelope.serializedTransaction, envelope.serializedContextFreeData);
+    return {
+        chainId: envelope.chainId,
+        transactionId: sha256().update(envelope.serializedTransaction).digest('hex'),
+        transaction,
+        requiredKeys: envelope.requiredKeys,
+        signingKeys: envelope.signatures.map((signature) => Signature.fromString(signature).recover(digest, false).toString()),
+    };
+};
+
+/**
+ * Check `envelope` with `previewSigningEnvelope`, then add the signatures of the required keys `signatureProvider`
+ * holds which didn't sign yet. Returns a new envelope.
+ */
+export const signSigningEnvelope = async (
+    envelope: SigningEnvelope, signatureProvider: SignatureProvider, options: SigningEnvelopeCheckOptions = {}
+): Promise<SigningEnvelope> => {
+    if (!envelope.requiredKeys.length) {
+        throw new Error('Signing envelope does not list the required keys');
+    }
+    const { signingKeys } = await previewSigningEnvelope(envelope, options);
+    const available = new Set((await signatureProvider.getAvailableKeys()).map(convertLegacyPublicKey));
+    const requiredKeys = envelope.requiredKeys.map(convertLegacyPublicKey)
+        .filter((key) => available.has(key) && !signingKeys.includes(key));
+    if (!requiredKeys.length) {
+        return envelope;
+    }
+    const { signatures } = await signatureProvider.sign({
+        chainId: envelope.chainId,
+        requiredKeys,
+        serializedTransaction: envelope.serializedTransaction,
+        serializedContextFreeData: envelope.serializedContextFreeData,
+        abis: envelope.abis,
+    });
+    return { ...envelope, signatures: envelope.signatures.concat(signatures) };
+};
@@ -0,0 +1,442 @@
+/**
+ * @module Signing-Request
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { deflateRaw, inflateRaw } from 'pako';
+import { sha256 } from 'hash.js';
+
+import { Api } from './eosjs-api';
+import { Transaction } from './eosjs-api-interfaces';
+import { Abi, PermissionLevel, PushTransactionArgs } from './eosjs-rpc-interfaces';
+import * as ser from './eosjs-serialize';
+
+/** Version of the signing requests (EEP-7) created and understood */
+export const signingRequestVersion = 2;
+
+/** Name replaced by the actor of the signer when a request is resolved */
+export const placeholderActor = '............1';
+
+/** Name replaced by the permission of the signer when a request is resolved */
+export const placeholderPermission = '............2';
+
+/** Chains a request can refer to by alias instead of chain id */
+export const chainAliases: { [alias: number]: string } = {
+    1: 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906', // EOS
+    2: '4667b205c6838ef70ff7988f6e8257e8be0e1284a2f59699054a018f743b1d11', // TELOS
+    3: 'e70aaab8997e1dfce58fbfac80cbbb8fecec7b99cf982a9444273cbc64c41473', // JUNGLE
+    4: '5fff1dae8dc8e2fc4d5b23b2c7665c97f9e9d8edf2b6485a86ba311c25639191', // KYLIN
+    5: '73647cde120091e0a4b85bced2f3cfdb3041e266cbbe95cee59b73235a1b3b6f', // WORBLI
+    6: 'd5a3d18fbb3c084e3b1f3fa98c21014b5f3db536cc15d08f9f6479517c6a3d86', // BOS
+    7: 'cfe6486a83bad4962f232d48003b1824ab5665c36778141034d75e57b956e422', // MEETONE
+    8: 'b042025541e25a472bffde2d62edd457b7e70cee943412b1ea0f044f88591664', // INSIGHTS
+    9: 'b912d19a6abd2b1b05611ae5be473355d64d95aeff0c09bedc8c166cd6468fe4', // BEOS
+    10: '1064487b3cd1a897ce03ae5b6a865651747e2e152090f99c1d19d44e01aea5a4', // WAX
+    11: '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0', // PROTON
+    12: '21dcae42c0182200e93f954a074011f9048a7624c6fe81d3c9541a614a88bd1c', // FIO
+};
+
+const flagBroadcast = 1 << 0;
+const flagBackground = 1 << 1;
+
+/** TAPoS of requested transactions the wallet has to fill in */
+const emptyTapos = { expiration: '1970-01-01T00:00:00', ref_block_num: 0, ref_block_prefix: 0 };
+
+const esrAbi = {
+    version: 'eosio::abi/1.1',
+    types: [{ new_type_name: 'chain_alias', type: 'uint8' }],
+    structs: [
+        { name: 'identity', base: '', fields: [{ name: 'permission', type: 'permission_level?' }] },
+        { name: 'info_pair', base: '', fields: [{ name: 'key', type: 'string' }, { name: 'value', type: 'bytes' }] },
+        {
+            name: 'signing_request',
+            base: '',
+            fields: [
+                { name: 'chain_id', type: 'variant_id' },
+                { name: 'req', type: 'variant_req' },
+                { name: 'flags', type: 'uint8' },
+                { name: 'callback', type: 'string' },
+                { name: 'info', type: 'info_pair[]' },
+            ],
+        },
+        { name: 'request_signature', base: '', fields: [{ name: 'signer', type: 'name' }, { name: 'signature', type: 'signature' }] },
+    ],
+    variants: [
+        { name: 'variant_id', types: ['chain_alias', 'checksum256'] },
+        { name: 'variant_req', types: ['action', 'action[]', 'transaction', 'identity'] },
+    ],
+    actions: [], tables: [], ricardian_clauses: [], error_messages: [], abi_extensions: [],
+} as Abi;
+
+const esrTypes = ser.getTypesFromAbi(ser.createTransactionTypes(), esrAbi);
+
+/** `signing_request` as serialized. Variants are `[type, value]` pairs and action data is hex */
+export interface SigningRequestData {
+    chain_id: ['chain_alias', number] | ['checksum256', string];
+    req: ['action', ser.Action] | ['action[]', ser.Action[]] | ['transaction', Transaction]
+        | ['identity', { permission: PermissionLevel | null }];
+    flags: number;
+    callback: string;
+    info: { key: string, value: string }[];
+}
+
+/** Signature of the creator of a request, carried after the request */
+export interface SigningRequestSignature {
+    signer: string;
+    signature: string;
+}
+
+export interface SigningRequestOptions {
+    /** `TextEncoder` instance to use. Pass in `null` if running in a browser */
+    textEncoder?: TextEncoder;
+
+    /** `TextDecoder` instance to use. Pass in `null` if running in a browser */
+    textDecoder?: TextDecoder;
+}
+
+/** What to request, exactly one of `action`, `actions`, `transaction` or `identity` */
+export interface SigningRequestCreateArgs {
+    action?: ser.Action;
+    actions?: ser.Action[];
+    transaction?: Transaction;
+
+    /** Request the wallet to prove it controls an account, optionally a given one */
+    identity?: { permission?: PermissionLevel };
+
+    /** Defaults to the chain of the api. Known chains are encoded by alias */
+    chainId?: string;
+
+    /** Url the wallet calls once the request is signed, see `ResolvedSigningRequest.getCallback` */
+    callback?: string;
+
+    /** Should the wallet broadcast the transaction, defaults to `true` except for identity requests */
+    broadcast?: boolean;
+
+    /** Should the wallet call the callback in the background */
+    background?: boolean;
+
+    info?: { [key: string]: string | Uint8Array };
+}
+
+/** Callback of a signed request: where to send it and the values substituted in its url */
+export interface SigningRequestCallback {
+    url: string;
+    background: boolean;
+    payload: { [key: string]: string };
+}
+
+const base64uChars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/** Url-safe base64 without padding */
+const toBase64u = (data: Uint8Array): string => {
+    let result = '';
+    for (let i = 0; i < data.length; i += 3) {
+        const bits = (data[i] << 16) | ((data[i + 1] || 0) << 8) | (data[i + 2] || 0);
+        const chars = Math.min(4, Math.ceil((data.length - i) * 8 / 6));
+        for (let j = 0; j < chars; ++j) {
+            result += base64uChars[(bits >> (18 - 6 * j)) & 63];
+        }
+    }
+    return result;
+};
+
+const fromBase64u = (s: string): Uint8Array => {
+    const result = new Uint8Array(Math.floor(s.length * 6 / 8));
+    let bits = 0;
+    let bitCount = 0;
+    let pos = 0;
+    for (const c of s) {
+        const digit = base64uChars.indexOf(c);
+        if (digit < 0) {
+            throw new Error(`Invalid character in signing request: ${c}`);
+        }
+        bits = ((bits << 6) | digit) & 0xffff;
+        bitCount += 6;
+        if (bitCount >= 8) {
+            bitCount -= 8;
+            result[pos++] = (bits >> bitCount) & 0xff;
+        }
+    }
+    return result;
+};
+
+/** Replace the placeholders in `value` of type `type` */
+const resolvePlaceholders = (type: ser.Type, value: any, signer: PermissionLevel): any => {
+    if (value === null || value === undefined) {
+        return value;
+    }
+    if (type.name === 'name') {
+        return value === placeholderActor ? signer.actor : value === placeholderPermission ? signer.permission : value;
+    }
+    if (type.arrayOf) {
+        return value.map((item: any) => resolvePlaceholders(type.arrayOf, item, signer));
+    }
+    if (type.optionalOf || type.extensionOf) {
+        return resolvePlaceholders(type.optionalOf || type.extensionOf, value, signer);
+    }
+    if (Array.isArray(value)) {
+        const variant = type.fields.find(({ name }) => name === value[0]);
+        return variant ? [value[0], resolvePlaceholders(variant.type, value[1], signer)] : value;
+    }
+    if (type.fields.length || type.base) {
+        const result = { ...value };
+        if (type.base) {
+            Object.assign(result, resolvePlaceholders(type.base, value, signer));
+        }
+        for (const field of type.fields) {
+            if (field.name in value) {
+                result[field.name] = resolvePlaceholders(field.type, value[field.name], signer);
+            }
+        }
+        return result;
+    }
+    return value;
+};
+
+/**
+ * Signing request following EEP-7, as used by wallets through `esr:` uris. Create requests with `create`,
+ * read them with `from`, and turn them into a transaction for a signer with `resolve`.
+ */
+export class SigningRequest {
+    constructor(
+        public data: SigningRequestData,
+        public signature?: SigningRequestSignature,
+        private options: SigningRequestOptions = {},
+    ) {}
+
+    /** Create a request. Action data in structured form is serialized with the abis of `api` */
+    public static async create(api: Api, args: SigningRequestCreateArgs): Promise<SigningRequest> {
+        const serializeActions = async (actions: ser.Action[]): Promise<ser.Action[]> =>
+            (await api.serializeActions(actions)).map(({ account, name, authorization, data }) =>
+                ({ account, name, authorization, data }));
+        let req: SigningRequestData['req'];
+        if ([args.action, args.actions, args.transaction, args.identity].filter((r) => r).length !== 1) {
+            throw new Error('A signing request needs exactly one of action, actions, transaction or identity');
+        } else if (args.action) {
+            req = ['action', (await serializeActions([args.action]))[0]];
+        } else if (args.actions) {
+            req = ['action[]', await serializeActions(args.actions)];
+        } else if (args.transaction) {
+            req = ['transaction', {
+                ...emptyTapos,
+                max_net_usage_words: 0,
+                max_cpu_usage_ms: 0,
+                delay_sec: 0,
+                context_free_actions: [],
+                transaction_extensions: [],
+                ...args.transaction,
+                actions: await serializeActions(args.transaction.actions),
+            }];
+        } else {
+            req = ['identity', { permission: args.identity.permission || null }];
+        }
+
+        const chainId = (args.chainId || api.chainId || (await api.rpc.get_info()).chain_id).toLowerCase();
+        const alias = Object.keys(chainAliases).find((key) => chainAliases[+key] === chainId);
+        const broadcast = args.broadcast === undefined ? !args.identity : args.broadcast;
+        const encoder = api.textEncoder || new TextEncoder();
+        return new SigningRequest({
+            chain_id: alias ? ['chain_alias', +alias] : ['checksum256', chainId],
+            req,
+            flags: (broadcast ? flagBroadcast : 0) | (args.background ? flagBackground : 0),
+            callback: args.callback || '',
+            info: Object.keys(args.info || {}).map((key) => {
+                const value = args.info[key];
+                return { key, value: ser.arrayToHex(typeof value === 'string' ? encoder.encode(value) : value) };
+            }),
+        }, undefined, { textEncoder: api.textEncoder, textDecoder: api.textDecoder });
+    }
+
+    /** Decode an `esr:` uri. Also accepts `esr://` and `web+esr:` */
+    public static from(uri: string, options: SigningRequestOptions = {}): SigningRequest {
+        const match = /^(?:web\+)?esr:(?:\/\/)?([A-Za-z0-9_-]*)$/.exec(uri);
+        if (!match) {
+            throw new Error('Invalid signing request uri');
+        }
+        return SigningRequest.fromData(fromBase64u(match[1]), options);
+    }
+
+    /** Decode the binary form of a request: a header byte (version and compression flag) and the request */
+    public static fromData(data: Uint8Array, options: SigningRequestOptions = {}): SigningRequest {
+        const version = data[0] & ~(1 << 7);
+        if (version !== signingRequestVersion) {
+            throw new Error(`Unsupported signing request version ${version}`);
+        }
+        const payload = data[0] & (1 << 7) ? inflateRaw(data.subarray(1)) : data.subarray(1);
+        const buffer = new ser.SerialBuffer({ ...options, array: payload });
+        const request = esrTypes.get('signing_request').deserialize(buffer);
+        const signature = buffer.haveReadData() ? esrTypes.get('request_signature').deserialize(buffer) : undefined;
+        return new SigningRequest(request, signature, options);
+    }
+
+    /** Binary form of the request, deflated if `compress` */
+    public getData(compress = true): Uint8Array {
+        const buffer = new ser.SerialBuffer(this.options);
+        esrTypes.get('signing_request').serialize(buffer, this.data);
+        if (this.signature) {
+            esrTypes.get('request_signature').serialize(buffer, this.signature);
+        }
+        const payload = compress ? deflateRaw(buffer.asUint8Array(), { level: 9 }) : buffer.asUint8Array();
+        const data = new Uint8Array(payload.length + 1);
+        data[0] = signingRequestVersion | (compress ? 1 << 7 : 0);
+        data.set(payload, 1);
+        return data;
+    }
+
+    /** `esr:` uri of the request */
+    public encode(compress = true): string {
+        return `esr:${toBase64u(this.getData(compress))}`;
+    }
+
+    public getChainId(): string {
+        const [type, value] = this.data.chain_id;
+        if (type === 'checksum256') {
+            return (value as string).toLowerCase();
+        }
+        if (!chainAliases[value as number]) {
+            throw new Error(`Unknown chain alias ${value}`);
+        }
+        return chainAliases[value as number];
+    }
+
+    public isIdentity(): boolean {
+        return this.data.req[0] === 'identity';
+    }
+
+    /** Should the wallet broadcast the transaction once signed */
+    public get broadcast(): boolean {
+        return !!(this.data.flags & flagBroadcast) && !this.isIdentity();
+    }
+
+    public get background(): boolean {
+        return !!(this.data.flags & flagBackground);
+    }
+
+    public get callback(): string {
+        return this.data.callback;
+    }
+
+    /** Info pairs of the request, decoded as utf8 */
+    public getInfo(): { [key: string]: string } {
+        const decoder = this.options.textDecoder || new TextDecoder();
+        const info: { [key: string]: string } = {};
+        for (const { key, value } of this.data.info) {
+            info[key] = decoder.decode(ser.hexToUint8Array(value));
+        }
+        return info;
+    }
+
+    /** Requested actions with data in hex, placeholders unresolved */
+    public getRawActions(): ser.Action[] {
+        const [type, req] = this.data.req;
+        switch (type) {
+            case 'action':
+                return [req as ser.Action];
+            case 'action[]':
+                return req as ser.Action[];
+            case 'transaction':
+                return (req as Transaction).actions;
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Transaction `signer` has to sign for this request, its actions decoded with the abis of `api` and the
+     * placeholders replaced by `signer`. The TAPoS fields are those of `tapos` when the request leaves them to the
+     * wallet; without `tapos` they are left out for `Api.transact` to fill in.
+     */
+    public async resolve(
+        api: Api,
+        signer: PermissionLevel,
+        tapos?: { expiration: string, ref_block_num: number, ref_block_prefix: number },
+    ): Promise<ResolvedSigningRequest> {
+        const resolveAuthorization = ({ actor, permission }: PermissionLevel): PermissionLevel => ({
+            actor: actor === placeholderActor ? signer.actor : actor,
+            permission: permission === placeholderActor || permission === placeholderPermission ? signer.permission : permission,
+        });
+        const [type, req] = this.data.req;
+        let transaction: Transaction;
+        if (type === 'identity') {
+            const buffer = new ser.SerialBuffer(this.options);
+            esrTypes.get('identity').serialize(buffer, { permission: signer });
+            transaction = {
+                ...emptyTapos,
+                actions: [{
+                    account: '',
+                    name: 'identity',
+                    authorization: [signer],
+                    data: ser.arrayToHex(buffer.asUint8Array()),
+                }],
+            };
+        } else {
+            const actions = await Promise.all(this.getRawActions().map(async ({ account, name, authorization, data }) => {
+                const contract = await api.getContract(account);
+                const action = ser.deserializeAction(
+                    contract, account, name, authorization, data, api.textEncoder, api.textDecoder);
+                return {
+                    ...action,
+                    authorization: authorization.map(resolveAuthorization),
+                    data: resolvePlaceholders(contract.actions.get(name), action.data, signer),
+                };
+            }));
+            const { expiration, ref_block_num, ref_block_prefix, ...header } = type === 'transaction'
+                ? req as Transaction
+                : { ...emptyTapos };
+            const needsTapos = !ser.dateToTimePointSec(expiration) && !ref_block_num && !ref_block_prefix;
+            transaction = {
+                ...(needsTapos ? tapos : { expiration, ref_block_num, ref_block_prefix }),
+                ...header,
+                actions,
+            };
+        }
+        return new ResolvedSigningRequest(this, signer, transaction, this.getChainId(), this.options);
+    }
+}
+
+/** Transaction a signer has to sign for a `SigningRequest` */
+export class ResolvedSigningRequest {
+    constructor(
+        public request: SigningRequest,
+        public signer: PermissionLevel,
+        public transaction: Transaction,
+        public chainId: string,
+        private options: SigningRequestOptions = {},
+    ) {}
+
+    /**
+     * The callback of the request once `args` are signed, with the placeholders of its url
+     * (`{{sig}}`, `{{tx}}`, `{{sa}}`, ...) replaced. `undefined` if the request has no callback.
+     * As in EEP-7, `sig` is the first signature and `sig0`, `sig1`, ... are the ones following it.
+     * `blockNum` is the block the transaction was included in, if the wallet broadcast it.
+     */
+    public getCallback(
+        { signatures, serializedTransaction }: PushTransactionArgs, blockNum?: number
+    ): SigningRequestCallback | undefined {
+        if (!this.request.callback) {
+            return undefined;
+        }
+        const buffer = new ser.SerialBuffer({ ...this.options, array: serializedTransaction });
+        const { expiration, ref_block_num, ref_block_prefix } = esrTypes.get('transaction').deserialize(buffer);
+        const payload: { [key: string]: string } = {
+            sig: signatures[0],
+            tx: sha256().update(serializedTransaction).digest('hex'),
+            rbn: String(ref_block_num),
+            rid: String(ref_block_prefix),
+            ex: expiration,
+            req: this.request.encode(),
+            sa: this.signer.actor,
+            sp: this.signer.permission,
+            cid: this.chainId,
+        };
+        signatures.slice(1).forEach((signature, index) => payload[`sig${index}`] = signature);
+        if (blockNum !== undefined) {
+            payload.bn = String(blockNum);
+        }
+        return {
+            url: this.request.callback.replace(/{{([a-z0-9]+)}}/g, (match, key) => payload[key] || ''),
+            background: this.request.background,
+            payload,
+        };
+    }
+}
@@ -0,0 +1,105 @@
+/**
+ * @module Transaction-Extensions
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { Abi } from './eosjs-rpc-interfaces';
+import * as ser from './eosjs-serialize';
+
+/** A transaction extension: data held in a field of the transaction object and serialized into `transaction_extensions` */
+export interface TransactionExtension {
+    /** Id of the extension in `transaction_extensions` */
+    id: number;
+
+    /** Field of the transaction object holding the extension data, e.g. `resource_payer` */
+    field: string;
+
+    /** Abi type of the extension data */
+    type: string;
+
+    /** Structs, aliases and variants used by `type`, in addition to the builtin types */
+    abi?: Partial<Abi>;
+
+    /** Adjust the data after it is deserialized, e.g. to convert uint64 strings to numbers */
+    afterDeserialize?: (data: any) => any;
+}
+
+/** `resource_payer` (id 1): account paying for the resources of the transaction */
+export const resourcePayerExtension: TransactionExtension = {
+    id: 1,
+    field: 'resource_payer',
+    type: 'resource_payer',
+    afterDeserialize: (data) => ({
+        ...data,
+        max_net_bytes: Number(data.max_net_bytes),
+        max_cpu_us: Number(data.max_cpu_us),
+        max_memory_bytes: Number(data.max_memory_bytes),
+    }),
+};
+
+/** Extensions known to every `TransactionExtensionRegistry` */
+export const defaultTransactionExtensions: TransactionExtension[] = [resourcePayerExtension];
+
+/** Transaction extensions `Api` serializes and deserializes, by id */
+export class TransactionExtensionRegistry {
+    private extensions = new Map<number, { extension: TransactionExtension, type: ser.Type }>();
+
+    constructor(extensions: TransactionExtension[] = defaultTransactionExtensions) {
+        for (const extension of extensions) {
+            this.register(extension);
+        }
+    }
+
+    /** Add `extension`. Its id and field must not be registered already */
+    public register(extension: TransactionExtension): TransactionExtensionRegistry {
+        if (this.extensions.has(extension.id)) {
+            throw new Error(`Transaction extension ${extension.id} is already registered`);
+        }
+        if (this.list().some(({ field }) => field === extension.field)) {
+            throw new Error(`Transaction extension field ${extension.field} is already registered`);
+        }
+        const types = ser.getTypesFromAbi(ser.createTransactionExtensionTypes(), extension.abi as Abi);
+        this.extensions.set(extension.id, { extension, type: ser.getType(types, extension.type) });
+        return this;
+    }
+
+    public unregister(id: number): boolean {
+        return this.extensions.delete(id);
+    }
+
+    public get(id: number): TransactionExtension | undefined {
+        const entry = this.extensions.get(id);
+        return entry && entry.extension;
+    }
+
+    /** Registered extensions, in ascending id order as required in `transaction_extensions` */
+    public list(): TransactionExtension[] {
+        return [...this.extensions.values()]
+            .map(({ extension }) => extension)
+            .sort((a, b) => a.id - b.id);
+    }
+
+    /** Serialize `data` of extension `id` to hex */
+    public serialize(id: number, data: any, textEncoder: TextEncoder, textDecoder: TextDecoder): string {
+        const buffer = new ser.SerialBuffer({ textEncoder, textDecoder });
+        this.entry(id).type.serialize(buffer, data);
+        return ser.arrayToHex(buffer.asUint8Array());
+    }
+
+    /** Deserialize the `hex` data of extension `id` */
+    public deserialize(id: number, hex: string, textEncoder: TextEncoder, textDecoder: TextDecoder): any {
+        const { extension, type } = this.entry(id);
+        const buffer = new ser.SerialBuffer({ textEncoder, textDecoder });
+        buffer.pushArray(ser.hexToUint8Array(hex));
+        const data = type.deserialize(buffer);
+        return extension.afterDeserialize ? extension.afterDeserialize(data) : data;
+    }
+
+    private entry(id: number): { extension: TransactionExtension, type: ser.Type } {
+        const entry = this.extensions.get(id);
+        if (!entry) {
+            throw new Error(`Transaction extension ${id} is not registered`);
+        }
+        return entry;
+    }
+}
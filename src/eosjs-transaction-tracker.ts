@@ -0,0 +1,226 @@
+/**
+ * @module Transaction-Tracker
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { JsonRpc } from './eosjs-jsonrpc';
+import { GetBlockResult } from './eosjs-rpc-interfaces';
+import { sleep } from './eosjs-rpc-retry';
+
+/**
+ * Lifecycle of a pushed transaction
+ * * `accepted`: accepted by the node, not yet seen in a block
+ * * `in-block`: included in a reversible block
+ * * `irreversible`: included in an irreversible block; final
+ * * `expired`: not included in any block before its expiration; final
+ * * `forked-out`: the block including it was replaced by a fork; it may still be included again
+ */
+export type TransactionState = 'accepted' | 'in-block' | 'irreversible' | 'expired' | 'forked-out';
+
+/** State at which a transaction counts as confirmed */
+export type FinalityLevel = 'in-block' | 'irreversible';
+
+export interface TransactionStatus {
+    transactionId: string;
+    state: TransactionState;
+
+    /** Block including the transaction, while `in-block` or `irreversible` */
+    blockNum?: number;
+    blockId?: string;
+
+    /** Chain state seen by the last poll */
+    headBlockNum?: number;
+    lastIrreversibleBlockNum?: number;
+}
+
+export interface TransactionTrackerOptions {
+    /** Block the transaction is expected in, e.g. `processed.block_num` of the push result. The search starts there */
+    blockNum?: number;
+
+    /** `ref_block_num` of the transaction; without `blockNum` the search starts at the reference block */
+    refBlockNum?: number;
+
+    /** `expiration` of the transaction. Once blocks past it don't include the transaction, it is `expired` */
+    expiration?: string;
+
+    /** Milliseconds between polls, defaults to 500 */
+    pollInterval?: number;
+
+    /** Maximum number of blocks fetched per poll while searching for the transaction, defaults to 20 */
+    blocksPerPoll?: number;
+}
+
+export type TransactionListener = (status: TransactionStatus) => void;
+
+const finalStates: TransactionState[] = ['irreversible', 'expired'];
+
+/** Does `block` include the transaction `transactionId`? `trx` is the id, or the packed transaction with its id */
+const blockIncludes = (block: GetBlockResult, transactionId: string): boolean =>
+    (block.transactions || []).some(({ trx }: { trx: any }) =>
+        (typeof trx === 'string' ? trx : trx && trx.id) === transactionId);
+
+const parseTime = (time: string): number => Date.parse(time.endsWith('Z') ? time : time + 'Z');
+
+/**
+ * Follows a pushed transaction until it is irreversible or expired by polling `get_info`, `get_block` and
+ * `get_block_info`. Listeners registered with `on` are called on every state change.
+ */
+export class TransactionTracker {
+    public status: TransactionStatus;
+    public pollInterval: number;
+    public blocksPerPoll: number;
+
+    private expiration?: string;
+    private refBlockNum?: number;
+    private nextBlockNum?: number;
+    private listeners = new Map<TransactionState | 'change', TransactionListener[]>();
+    private waiters = new Set<(error: Error) => void>();
+    private running: Promise<void>;
+    private stopped = false;
+
+    constructor(private rpc: JsonRpc, transactionId: string, {
+        blockNum,
+        refBlockNum,
+        expiration,
+        pollInterval = 500,
+        blocksPerPoll = 20,
+    }: TransactionTrackerOptions = {}) {
+        this.status = { transactionId, state: 'accepted' };
+        this.nextBlockNum = blockNum;
+        this.refBlockNum = refBlockNum;
+        this.expiration = expiration;
+        this.pollInterval = pollInterval;
+        this.blocksPerPoll = blocksPerPoll;
+    }
+
+    /** Call `listener` when the transaction enters `state`, or on every change for `change` */
+    public on(event: TransactionState | 'change', listener: TransactionListener): TransactionTracker {
+        this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+        return this;
+    }
+
+    public off(event: TransactionState | 'change', listener: TransactionListener): TransactionTracker {
+        this.listeners.set(event, (this.listeners.get(event) || []).filter((l) => l !== listener));
+        return this;
+    }
+
+    /** Poll until the transaction reaches a final state or `stop` is called */
+    public start(): Promise<void> {
+        if (!this.running) {
+            this.stopped = false;
+            this.running = this.run();
+        }
+        return this.running;
+    }
+
+    /** Stop polling. Pending `wait` calls reject, as the transaction can no longer reach their finality */
+    public stop(): void {
+        this.stopped = true;
+        const error = new Error(`Stopped tracking transaction ${this.status.transactionId} while ${this.status.state}`);
+        for (const reject of [...this.waiters]) {
+            reject(error);
+        }
+    }
+
+    /**
+     * Resolve once the transaction reaches `finality`. Rejects if it expires first, if `stop` is called,
+     * or after `timeout` milliseconds (`0` for no timeout). Starts polling if needed.
+     */
+    public wait(finality: FinalityLevel = 'irreversible', timeout = 0): Promise<TransactionStatus> {
+        const reached = (status: TransactionStatus): boolean =>
+            status.state === 'irreversible' || (finality === 'in-block' && status.state === 'in-block');
+        return new Promise<TransactionStatus>((resolve, reject) => {
+            let timer: any;
+            const listener = (status: TransactionStatus): void => {
+                if (reached(status)) {
+                    done();
+                    resolve({ ...status });
+                } else if (status.state === 'expired') {
+                    done();
+                    reject(new Error(`Transaction ${status.transactionId} expired`));
+                }
+            };
+            const cancel = (error: Error): void => {
+                done();
+                reject(error);
+            };
+            const done = (): void => {
+                clearTimeout(timer);
+                this.off('change', listener);
+                this.waiters.delete(cancel);
+            };
+            if (timeout) {
+                timer = setTimeout(() => {
+                    cancel(new Error(`Transaction ${this.status.transactionId} not ${finality} after ${timeout} ms`));
+                }, timeout);
+            }
+            this.waiters.add(cancel);
+            this.on('change', listener);
+            listener(this.status);
+            this.start();
+        });
+    }
+
+    /** Check the chain once and update `status` */
+    public async poll(): Promise<TransactionStatus> {
+        const info = await this.rpc.get_info();
+        this.status.headBlockNum = info.head_block_num;
+        this.status.lastIrreversibleBlockNum = info.last_irreversible_block_num;
+        if (this.status.state === 'accepted' || this.status.state === 'forked-out') {
+            await this.search(info.head_block_num);
+        }
+        if (this.status.state === 'in-block') {
+            const block = await this.rpc.get_block_info(this.status.blockNum);
+            if (block.id !== this.status.blockId) {
+                this.nextBlockNum = this.status.blockNum;
+                this.setState('forked-out', { blockNum: undefined, blockId: undefined });
+            } else if (this.status.blockNum <= info.last_irreversible_block_num) {
+                this.setState('irreversible');
+            }
+        }
+        return this.status;
+    }
+
+    /** Look for the transaction in the blocks up to `headBlockNum` which were not searched yet */
+    private async search(headBlockNum: number): Promise<void> {
+        if (this.nextBlockNum === undefined) {
+            this.nextBlockNum = this.refBlockNum === undefined
+                ? headBlockNum
+                : headBlockNum - ((headBlockNum - this.refBlockNum) & 0xffff);
+        }
+        for (let i = 0; i < this.blocksPerPoll && this.nextBlockNum <= headBlockNum; ++i) {
+            const block = await this.rpc.get_block(this.nextBlockNum);
+            if (blockIncludes(block, this.status.transactionId)) {
+                this.setState('in-block', { blockNum: block.block_num, blockId: block.id });
+                return;
+            }
+            if (this.expiration && parseTime(block.timestamp) > parseTime(this.expiration)) {
+                this.setState('expired');
+                return;
+            }
+            ++this.nextBlockNum;
+        }
+    }
+
+    private setState(state: TransactionState, fields: Partial<TransactionStatus> = {}): void {
+        this.status = { ...this.status, ...fields, state };
+        const status = { ...this.status };
+        for (const listener of [...(this.listeners.get(state) || []), ...(this.listeners.get('change') || [])]) {
+            listener(status);
+        }
+    }
+
+    private async run(): Promise<void> {
+        while (!this.stopped && !finalStates.includes(this.status.state)) {
+            try {
+                await this.poll();
+            } catch (e) {
+                // Keep polling; failed calls were already retried according to the JsonRpc retry policy
+            }
+            if (!finalStates.includes(this.status.state)) {
+                await sleep(this.pollInterval);
+            }
+        }
+        this.running = undefined;
+    }
+}
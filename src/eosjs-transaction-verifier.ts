@@ -0,0 +1,108 @@
+/**
+ * @module Transaction-Verifier
+ */
+// copyright defined in eosjs/LICENSE.txt
+
+import { Api } from './eosjs-api';
+import { digestFromSerializedData } from './eosjs-jssig';
+import { Signature } from './eosjs-key-conversions';
+import { AuthorizationExplanation, LocalAuthorityProvider } from './eosjs-local-authority';
+import { PermissionLevel, PushTransactionArgs } from './eosjs-rpc-interfaces';
+
+export interface VerifyTransactionOptions {
+    /** Chain the transaction was signed for, defaults to `api.chainId` */
+    chainId?: string;
+
+    /** Loads the authorities to check against, defaults to a new `LocalAuthorityProvider` using `api.rpc` */
+    authorityProvider?: LocalAuthorityProvider;
+}
+
+/** Outcome of checking one authorization of an action */
+export interface AuthorizationVerification {
+    /** `account::name` of the action */
+    action: string;
+    authorization: PermissionLevel;
+    satisfied: boolean;
+
+    /** Keys and path satisfying the authorization, if `satisfied` */
+    explanation?: AuthorizationExplanation;
+
+    /** Why the authorization isn't satisfied */
+    error?: string;
+}
+
+export interface TransactionVerification {
+    /** Every signature is valid and every authorization is satisfied by the signing keys */
+    valid: boolean;
+
+    /** Key recovered from each signature, in the order of `signatures` (`undefined` for invalid signatures) */
+    recoveredKeys: string[];
+
+    authorizations: AuthorizationVerification[];
+
+    /** Recovered keys no authorization needed. Nodes reject transactions bearing irrelevant signatures */
+    unusedKeys: string[];
+
+    /** Problems with the signatures themselves, e.g. a signature which can't be parsed or a duplicate key */
+    errors: string[];
+}
+
+/**
+ * Check signed transaction `args` before it is pushed: recover the key of every signature from the transaction
+ * digest and check that they satisfy the on-chain authority of every action authorization.
+ */
+export const verifyTransaction = async (
+    api: Api,
+    { signatures, serializedTransaction, serializedContextFreeData }: PushTransactionArgs,
+    { chainId = api.chainId, authorityProvider = new LocalAuthorityProvider(api.rpc) }: VerifyTransactionOptions = {},
+): Promise<TransactionVerification> => {
+    if (!chainId) {
+        chainId = (await api.rpc.get_info()).chain_id;
+    }
+    const digest = digestFromSerializedData(chainId, serializedTransaction, serializedContextFreeData);
+    const errors: string[] = [];
+    const recoveredKeys = signatures.map((signature, index) => {
+        try {
+            return Signature.fromString(signature).recover(digest, false).toString();
+        } catch (e) {
+            errors.push(`Signature ${index} can not be recovered: ${e.message}`);
+            return undefined;
+        }
+    });
+    const keys = recoveredKeys.filter((key) => key);
+    keys.forEach((key, index) => {
+        if (keys.indexOf(key) !== index) {
+            errors.push(`Duplicate signature by ${key}`);
+        }
+    });
+
+    const transaction = api.deserializeTransaction(serializedTransaction);
+    const authorizations: AuthorizationVerification[] = [];
+    const usedKeys = new Set<string>();
+    for (const { account, name, authorization } of transaction.actions) {
+        for (const { actor, permission } of authorization) {
+            const verification: AuthorizationVerification = {
+                action: `${account}::${name}`,
+                authorization: { actor, permission },
+                satisfied: false,
+            };
+            try {
+                verification.explanation = await authorityProvider.explainAuthorization(
+                    account, name, { actor, permission }, keys, transaction.delay_sec);
+                verification.satisfied = true;
+                verification.explanation.keys.forEach((key) => usedKeys.add(key));
+            } catch (e) {
+                verification.error = e.message;
+            }
+            authorizations.push(verification);
+        }
+    }
+
+    return {
+        valid: !errors.length && authorizations.every(({ satisfied }) => satisfied),
+        recoveredKeys,
+        authorizations,
+        unusedKeys: keys.filter((key) => !usedKeys.has(key)),
+        errors,
+    };
+};
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { generateTypes, toPascalCase } from '../eosjs-abi-codegen';
+import { main } from '../eosjs-abi-codegen-cli';
+import { Abi } from '../eosjs-rpc-interfaces';
+
+const tokenAbi: Abi = {
+    version: 'eosio::abi/1.2',
+    types: [{ new_type_name: 'account_name', type: 'name' }],
+    structs: [
+        { name: 'account', base: '', fields: [{ name: 'balance', type: 'asset' }] },
+        {
+            name: 'currency_stats',
+            base: '',
+            fields: [
+                { name: 'supply', type: 'asset' },
+                { name: 'max_supply', type: 'asset' },
+                { name: 'issuer', type: 'account_name' },
+            ],
+        },
+        {
+            name: 'transfer',
+            base: '',
+            fields: [
+                { name: 'from', type: 'account_name' },
+                { name: 'to', type: 'name' },
+                { name: 'quantity', type: 'asset' },
+                { name: 'memo', type: 'string' },
+            ],
+        },
+        { name: 'memo_base', base: '', fields: [{ name: 'memo', type: 'string' }] },
+        {
+            name: 'retire',
+            base: 'memo_base',
+            fields: [
+                { name: 'quantity', type: 'asset' },
+                { name: 'ids', type: 'uint64[]' },
+                { name: 'note', type: 'string?' },
+                { name: 'extra', type: 'payload$' },
+            ],
+        },
+    ],
+    actions: [
+        { name: 'transfer', type: 'transfer', ricardian_contract: '' },
+        { name: 'retire', type: 'retire', ricardian_contract: '' },
+    ],
+    tables: [
+        { name: 'accounts', type: 'account', index_type: 'i64', key_names: [], key_types: [] },
+        { name: 'stat', type: 'currency_stats', index_type: 'i64', key_names: [], key_types: [] },
+    ],
+    ricardian_clauses: [],
+    error_messages: [],
+    abi_extensions: [],
+    variants: [{ name: 'payload', types: ['uint64', 'string'] }],
+    action_results: [{ name: 'retire', result_type: 'asset' }],
+};
+
+/** Syntax errors of `code` */
+const syntaxErrors = (code: string): string[] => {
+    const { diagnostics } = ts.transpileModule(code, { reportDiagnostics: true });
+    return diagnostics.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+};
+
+describe('abi codegen', () => {
+    const fetchMock = fetch as any;
+
+    beforeEach(() => {
+        fetchMock.resetMocks();
+    });
+
+    it('converts names to PascalCase', () => {
+        expect(toPascalCase('eosio.token')).toBe('EosioToken');
+        expect(toPascalCase('currency_stats')).toBe('CurrencyStats');
+        expect(toPascalCase('1abc')).toBe('_1abc');
+    });
+
+    it('generates interfaces for structs, aliases and variants', () => {
+        const code = generateTypes(tokenAbi, { contractName: 'eosio.token' });
+
+        expect(syntaxErrors(code)).toEqual([]);
+        expect(code).toContain('export type AccountName = string;');
+        expect(code).toContain('export type Payload = [\'uint64\', number | string] | [\'string\', string];');
+        expect(code).toContain('export interface CurrencyStats {\n    supply: string;\n    max_supply: string;\n    issuer: AccountName;\n}');
+        expect(code).toContain('export interface Retire extends MemoBase {');
+        expect(code).toContain('    ids: (number | string)[];');
+        expect(code).toContain('    note?: string | null;');
+        expect(code).toContain('    extra?: Payload;');
+    });
+
+    it('generates action, table and action result maps', () => {
+        const code = generateTypes(tokenAbi, { contractName: 'eosio.token' });
+
+        expect(code).toContain('export interface EosioTokenActions {\n    transfer: Transfer;\n    retire: Retire;\n}');
+        expect(code).toContain('export interface EosioTokenTables {\n    accounts: Account;\n    stat: CurrencyStats;\n}');
+        expect(code).toContain('export interface EosioTokenActionResults {\n    retire: string;\n}');
+    });
+
+    it('generates a typed action serializer', () => {
+        const code = generateTypes(tokenAbi, { contractName: 'eosio.token', eosjsImport: '../eosjs' });
+
+        expect(code).toContain('import { Serialize } from \'../eosjs\';');
+        expect(code).toContain('    transfer(from: AccountName, to: string, quantity: string, memo: string): Serialize.SerializedAction;');
+        expect(code).toContain('    transfer(data: Transfer): Serialize.SerializedAction;');
+        expect(code).toContain(
+            '    retire(memo: string, quantity: string, ids: (number | string)[], note?: string | null, extra?: Payload)'
+            + ': Serialize.SerializedAction;');
+    });
+
+    it('gives colliding names unique declarations', () => {
+        const abi: Abi = {
+            ...tokenAbi,
+            types: [],
+            structs: [
+                { name: 'foo_bar', base: '', fields: [] },
+                { name: 'foo.bar', base: '', fields: [{ name: 'x', type: 'foo_bar' }] },
+            ],
+            actions: [],
+            tables: [],
+            variants: [],
+            action_results: [],
+        };
+        const code = generateTypes(abi);
+
+        expect(code).toContain('export interface FooBar {\n}');
+        expect(code).toContain('export interface FooBar2 {\n    x: FooBar;\n}');
+        expect(code).toContain('export interface ContractActions {');
+    });
+
+    it('throws on unknown types', () => {
+        const abi = { ...tokenAbi, structs: [{ name: 'bad', base: '', fields: [{ name: 'x', type: 'nonsense' }] }] };
+        expect(() => generateTypes(abi)).toThrow('Unknown type: nonsense');
+    });
+
+    it('cli reads an abi file and writes the declarations', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'eosjs-abi-codegen-'));
+        const abiFile = path.join(directory, 'token.abi.json');
+        const outFile = path.join(directory, 'token.ts');
+        fs.writeFileSync(abiFile, JSON.stringify(tokenAbi));
+
+        const code = await main([abiFile, '--out', outFile]);
+
+        expect(code).toBe(0);
+        expect(fs.readFileSync(outFile, 'utf8')).toBe(generateTypes(tokenAbi, { contractName: 'token' }));
+    });
+
+    it('cli fetches the abi of an account', async () => {
+        fetchMock.once(JSON.stringify({ account_name: 'eosio.token', abi: tokenAbi }));
+        const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+        const code = await main(['eosio.token', '--url', 'http://node:8888'], fetch);
+        const written = write.mock.calls.map((call) => call[0]);
+        write.mockRestore();
+
+        expect(code).toBe(0);
+        expect(fetch).toBeCalledWith('http://node:8888/v1/chain/get_abi', {
+            body: JSON.stringify({ account_name: 'eosio.token' }),
+            method: 'POST',
+        });
+        expect(written).toEqual([generateTypes(tokenAbi, { contractName: 'eosio.token' })]);
+    });
+
+    it('cli fetches with node-fetch without a global fetch', async () => {
+        const globalFetch = global.fetch;
+        global.fetch = undefined;
+        jest.doMock('node-fetch', () => fetchMock);
+        fetchMock.once(JSON.stringify({ account_name: 'eosio.token', abi: tokenAbi }));
+        const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+        const code = await main(['eosio.token']);
+        write.mockRestore();
+        global.fetch = globalFetch;
+
+        expect(code).toBe(0);
+        expect(fetchMock).toBeCalledWith('http://127.0.0.1:8888/v1/chain/get_abi', expect.anything());
+    });
+
+    it('cli asks to install node-fetch without a global fetch', async () => {
+        const globalFetch = global.fetch;
+        global.fetch = undefined;
+        jest.resetModules();
+        jest.doMock('node-fetch', () => {
+            throw new Error("Cannot find module 'node-fetch'");
+        });
+        const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const code = await main(['eosio.token']);
+        const [[message]] = error.mock.calls;
+        error.mockRestore();
+        jest.dontMock('node-fetch');
+        global.fetch = globalFetch;
+
+        expect(code).toBe(1);
+        expect(message).toContain('npm install node-fetch@2');
+    });
+
+    it('cli reports bad arguments', async () => {
+        const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await main([])).toBe(2);
+        expect(await main(['abi.json', '--color', 'red'])).toBe(2);
+
+        expect(error.mock.calls[1][0]).toContain('Unknown option: --color');
+        error.mockRestore();
+    });
+});
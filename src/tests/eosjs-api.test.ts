@@ -1,11 +1,17 @@
 const { TextEncoder, TextDecoder } = require('util');
 import { Api } from '../eosjs-api';
 import { JsonRpc } from '../eosjs-jsonrpc';
+import { DuplicateTransactionError, RpcError } from '../eosjs-rpcerror';
 import { JsSignatureProvider } from '../eosjs-jssig';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as ser from '../eosjs-serialize';
 import { Action } from '../eosjs-serialize';
+import { actionDataFromArgs } from '../eosjs-contract';
 import { base64ToBinary } from '../eosjs-numeric';
+import { FileSystemAbiCache, MemoryAbiCache, StorageAbiCache } from '../eosjs-abi-cache';
+import { sha256 } from 'hash.js';
 
 const transaction = {
     expiration: '2018-09-04T18:42:49',
@@ -350,4 +356,635 @@ describe('eosjs-api', () => {
             expect(deserializedTransactionExtensions).toEqual(deserialized);
         });
     });
+
+    describe('transaction extensions', () => {
+        const memoExtension = {
+            id: 3,
+            field: 'trace_memo',
+            type: 'trace_memo',
+            abi: { structs: [{ name: 'trace_memo', base: '', fields: [{ name: 'memo', type: 'string' }] }] },
+        };
+        const resourcePayer = { payer: 'payer', max_net_bytes: 4096, max_cpu_us: 250, max_memory_bytes: 0 };
+
+        it('serializes, deserializes and strips registered extensions in id order', () => {
+            api.transactionExtensions.register(memoExtension);
+            const trx = { actions: [] as any[], trace_memo: { memo: 'hi' }, resource_payer: resourcePayer };
+
+            const serialized = api.serializeTransactionExtensions(trx);
+
+            expect(serialized).toEqual([
+                [1, '0000000080ABBCA90010000000000000FA000000000000000000000000000000'],
+                [3, '026869'],
+            ]);
+            expect(api.deserializeTransactionExtensions(serialized))
+                .toEqual({ resource_payer: resourcePayer, trace_memo: { memo: 'hi' } });
+            expect(api.deleteTransactionExtensionObjects(trx)).toEqual({ actions: [] });
+        });
+
+        it('takes extensions in the constructor and includes them in transactions', async () => {
+            api = new Api({ rpc, signatureProvider: api.signatureProvider, transactionExtensions: [memoExtension] });
+
+            const { serializedTransaction } = await api.transact({
+                expiration: '2018-09-04T18:42:49',
+                ref_block_num: 38096,
+                ref_block_prefix: 505360011,
+                actions: [],
+                trace_memo: { memo: 'hi' },
+            } as any, { sign: false, broadcast: false });
+
+            expect(api.deserializeTransaction(serializedTransaction).transaction_extensions).toEqual([[3, '026869']]);
+        });
+
+        it('rejects conflicting and unknown extensions', () => {
+            expect(() => api.transactionExtensions.register({ ...memoExtension, id: 1 }))
+                .toThrow('Transaction extension 1 is already registered');
+            expect(() => api.transactionExtensions.register({ ...memoExtension, field: 'resource_payer' }))
+                .toThrow('Transaction extension field resource_payer is already registered');
+            expect(() => api.transactionExtensions.register({ ...memoExtension, type: 'unknown' }))
+                .toThrow('Unknown type: unknown');
+            expect(() => api.deserializeTransactionExtensions([[2, '']]))
+                .toThrow('Transaction Extension could not be determined: 2,');
+        });
+    });
+
+    describe('api.contract()', () => {
+        it('serializes actions from positional arguments or named fields', async () => {
+            const token = await api.contract('testeostoken');
+
+            const positional = token.as('thegazelle')
+                .transfer('thegazelle', 'remasteryoda', '1.0000 EOS', 'For a secure future.');
+            const named = token.as('thegazelle').transfer({
+                from: 'thegazelle', to: 'remasteryoda', quantity: '1.0000 EOS', memo: 'For a secure future.',
+            });
+
+            expect(positional).toEqual(serializedActions[0]);
+            expect(named).toEqual(serializedActions[0]);
+            expect(token.actions.transfer(transaction.actions[0].data).authorization).toEqual([]);
+        });
+
+        it('validates field names and types before serializing', async () => {
+            const token = await api.contract('testeostoken');
+            const { transfer } = token.as('thegazelle');
+
+            expect(() => transfer({ from: 'thegazelle', to: 'remasteryoda', quantity: '1.0000 EOS', memo: '', fee: 1 }))
+                .toThrowError('transfer: unknown field fee');
+            expect(() => transfer({ from: 'thegazelle', to: 'remasteryoda', memo: '' }))
+                .toThrowError('transfer: missing field quantity');
+            expect(() => transfer('thegazelle', 'remasteryoda', 1, ''))
+                .toThrowError('transfer.quantity: expected asset, got number');
+            expect(() => transfer('thegazelle', 'remasteryoda', '1.0000 EOS', '', 'extra'))
+                .toThrowError('transfer: expected at most 4 arguments, got 5');
+        });
+
+        it('includes base struct fields', () => {
+            const types = ser.getTypesFromAbi(ser.createInitialTypes(), {
+                version: 'eosio::abi/1.1',
+                types: [],
+                structs: [
+                    { name: 'base', base: '', fields: [{ name: 'owner', type: 'name' }] },
+                    { name: 'setvalue', base: 'base', fields: [{ name: 'value', type: 'uint64' }, { name: 'note', type: 'string?' }] },
+                ],
+                actions: [],
+                tables: [],
+                ricardian_clauses: [],
+                error_messages: [],
+                abi_extensions: [],
+            });
+            const type = ser.getType(types, 'setvalue');
+
+            expect(actionDataFromArgs('setvalue', type, ['bob', 5], new Set())).toEqual({ owner: 'bob', value: 5 });
+            expect(() => actionDataFromArgs('setvalue', type, [{ value: '5' }], new Set()))
+                .toThrowError('setvalue: missing field owner');
+        });
+
+        it('exposes the tables declared in the abi', async () => {
+            const token = await api.contract('testeostoken');
+            rpc.get_table_rows = jest.fn(async () => ({ rows: [{ balance: '1.0000 EOS' }], more: false, next_key: '' }));
+
+            const result = await token.tables.accounts.rows({ scope: 'thegazelle', limit: 1 });
+
+            expect(Object.keys(token.tables)).toEqual(['accounts', 'stat']);
+            expect(result.rows).toEqual([{ balance: '1.0000 EOS' }]);
+            expect(rpc.get_table_rows).toHaveBeenCalledWith({
+                json: true, code: 'testeostoken', scope: 'thegazelle', table: 'accounts', limit: 1,
+            });
+        });
+        it('queries an index with encoded bounds and decodes the rows', async () => {
+            const token = await api.contract('testeostoken');
+            const accountType = ser.getType((await api.getContract('testeostoken')).types, 'account');
+            const rowHex = (balance: string) => {
+                const buffer = new ser.SerialBuffer({ textEncoder: api.textEncoder, textDecoder: api.textDecoder });
+                accountType.serialize(buffer, { balance });
+                return ser.arrayToHex(buffer.asUint8Array());
+            };
+            rpc.get_table_rows = jest.fn(async () => ({ rows: [rowHex('1.0000 EOS')], more: false, next_key: '' }));
+
+            const rows = [];
+            for await (const row of token.tables.accounts.query({ index: 'currency', lower: 5, upper: '10', scope: 'bob' })) {
+                rows.push(row);
+            }
+
+            expect(rows).toEqual([{ balance: '1.0000 EOS' }]);
+            expect(rpc.get_table_rows).toHaveBeenCalledWith(expect.objectContaining({
+                json: false, code: 'testeostoken', scope: 'bob', table: 'accounts',
+                index_position: 1, key_type: 'i64', lower_bound: '5', upper_bound: '10', limit: 100,
+            }));
+            expect(await token.tables.accounts.find(5)).toEqual({ balance: '1.0000 EOS' });
+            expect(() => token.tables.accounts.query({ index: 'owner' })).toThrowError('Table accounts has no index owner');
+        });
+    });
+
+    describe('Abi cache', () => {
+        let abiProvider: any;
+
+        const createApi = (args: any = {}): any => new Api({
+            rpc,
+            abiProvider,
+            signatureProvider: api.signatureProvider,
+            chainId: api.chainId,
+            textDecoder: new TextDecoder(),
+            textEncoder: new TextEncoder(),
+            ...args,
+        });
+
+        beforeEach(() => {
+            abiProvider = { getRawAbi: jest.fn((accountName: string) => rpc.getRawAbi(accountName)) };
+        });
+
+        it('restores abis from the abi cache without fetching', async () => {
+            const abiCache = new MemoryAbiCache();
+            const expected = await createApi({ abiCache }).getAbi('testeostoken');
+
+            const coldApi = createApi({ abiCache });
+            const actual = await coldApi.getAbi('testeostoken');
+
+            expect(actual).toEqual(expected);
+            expect(abiProvider.getRawAbi).toHaveBeenCalledTimes(1);
+        });
+
+        it('fetches abis again once they are older than abiCacheTtl', async () => {
+            const ttlApi = createApi({ abiCacheTtl: 1000 });
+            await ttlApi.getAbi('testeostoken');
+            await ttlApi.getAbi('testeostoken');
+            expect(abiProvider.getRawAbi).toHaveBeenCalledTimes(1);
+
+            ttlApi.cachedAbis.get('testeostoken').fetchedAt -= 2000;
+            await ttlApi.getAbi('testeostoken');
+            expect(abiProvider.getRawAbi).toHaveBeenCalledTimes(2);
+        });
+
+        it('invalidates abis when the abi_sequence in action receipts changes', async () => {
+            const abiCache = new MemoryAbiCache();
+            const sequenceApi = createApi({ abiCache });
+            const traceWithSequence = (abiSequence: number): any => ({
+                action_traces: [{
+                    receipt: { receiver: 'testeostoken', abi_sequence: abiSequence },
+                    act: { account: 'testeostoken', name: 'transfer' },
+                    inline_traces: [],
+                }],
+            });
+            await sequenceApi.getAbi('testeostoken');
+
+            await sequenceApi.updateAbiSequences(traceWithSequence(3));
+            expect((await abiCache.get('testeostoken')).abiSequence).toEqual(3);
+
+            await sequenceApi.updateAbiSequences(traceWithSequence(4));
+            expect(sequenceApi.cachedAbis.has('testeostoken')).toBe(false);
+            expect(await abiCache.get('testeostoken')).toBeUndefined();
+        });
+
+        it('reloads the abi when the code hash changed', async () => {
+            const hashApi = createApi();
+            rpc.get_code_hash = jest.fn()
+                .mockResolvedValueOnce({ code_hash: 'aa' })
+                .mockResolvedValueOnce({ code_hash: 'aa' })
+                .mockResolvedValueOnce({ code_hash: 'bb' });
+
+            expect(await hashApi.revalidateAbi('testeostoken')).toBe(false);
+            expect(await hashApi.revalidateAbi('testeostoken')).toBe(false);
+            expect(await hashApi.revalidateAbi('testeostoken')).toBe(true);
+            expect(abiProvider.getRawAbi).toHaveBeenCalledTimes(2);
+        });
+
+        it('reloads the abi when actions fail to deserialize with the cached one', async () => {
+            const abiCache = new MemoryAbiCache();
+            const abi = await api.getAbi('testeostoken');
+            await abiCache.set('testeostoken', {
+                rawAbi: api.jsonToRawAbi({ ...abi, actions: [] }),
+                fetchedAt: Date.now(),
+            });
+            const staleApi = createApi({ abiCache });
+
+            const response = await staleApi.deserializeActions(serializedActions);
+
+            expect(response).toEqual(deserializedActions);
+            expect(abiProvider.getRawAbi).toHaveBeenCalledTimes(1);
+        });
+
+        it('stores abis in files with FileSystemAbiCache', async () => {
+            const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'eosjs-abi-cache-'));
+            const abiCache = new FileSystemAbiCache(directory);
+            const { abi: rawAbi } = await rpc.getRawAbi('testeostoken');
+
+            await abiCache.set('testeostoken', { rawAbi, fetchedAt: 1, abiSequence: 2 });
+
+            expect(await abiCache.get('testeostoken')).toEqual({ rawAbi, fetchedAt: 1, abiSequence: 2 });
+            await abiCache.delete('testeostoken');
+            expect(await abiCache.get('testeostoken')).toBeUndefined();
+            fs.rmdirSync(directory);
+        });
+
+        it('keeps FileSystemAbiCache files inside its directory', async () => {
+            const abiCache = new FileSystemAbiCache(path.join(os.tmpdir(), 'eosjs-abi-cache-unused'));
+            const { abi: rawAbi } = await rpc.getRawAbi('testeostoken');
+
+            await expect(abiCache.get('../x')).rejects.toThrow('Invalid account name "../x"');
+            await expect(abiCache.set('/etc/x', { rawAbi, fetchedAt: 1 })).rejects.toThrow('Invalid account name "/etc/x"');
+            await expect(abiCache.delete('..\\x')).rejects.toThrow('Invalid account name');
+            expect(fs.existsSync(path.join(os.tmpdir(), 'eosjs-abi-cache-unused'))).toBe(false);
+        });
+
+        it('stores abis in Web Storage with StorageAbiCache', async () => {
+            const items = new Map<string, string>();
+            const storage: any = {
+                getItem: (key: string) => items.has(key) ? items.get(key) : null,
+                setItem: (key: string, value: string) => items.set(key, value),
+                removeItem: (key: string) => items.delete(key),
+            };
+            const abiCache = new StorageAbiCache(storage);
+            const { abi: rawAbi } = await rpc.getRawAbi('testeostoken');
+
+            await abiCache.set('testeostoken', { rawAbi, fetchedAt: 1 });
+
+            expect([...items.keys()]).toEqual(['eosjs-abi:testeostoken']);
+            expect(await abiCache.get('testeostoken')).toEqual({ rawAbi, fetchedAt: 1 });
+        });
+    });
+
+    const returnValueAbi = {
+        version: 'eosio::abi/1.2',
+        types: [] as any[],
+        structs: [
+            { name: 'sum', base: '', fields: [{ name: 'a', type: 'uint32' }, { name: 'b', type: 'uint32' }] },
+        ],
+        actions: [{ name: 'sum', type: 'sum', ricardian_contract: '' }],
+        tables: [] as any[],
+        ricardian_clauses: [] as any[],
+        error_messages: [] as any[],
+        abi_extensions: [] as any[],
+        variants: [] as any[],
+        action_results: [{ name: 'sum', result_type: 'uint32' }],
+    };
+
+    describe('dry run', () => {
+        const actionTrace = (ordinal: number, creator: number, receiver: string, extra: any = {}) => ({
+            action_ordinal: ordinal,
+            creator_action_ordinal: creator,
+            receiver,
+            act: { account: 'returnvalue', name: 'sum', authorization: [{ actor: 'bob', permission: 'active' }], data: { a: 5, b: 5 } },
+            console: `${receiver} `,
+            elapsed: 10,
+            account_ram_deltas: [{ account: 'bob', delta: 100 }],
+            ...extra,
+        });
+        const createTrace = () => ({
+            id: 'aabb',
+            receipt: { status: 'executed', cpu_usage_us: 150, net_usage_words: 14 },
+            elapsed: 30,
+            except: null as any,
+            action_traces: [
+                actionTrace(1, 0, 'returnvalue', { return_value_hex_data: '0a000000' }),
+                actionTrace(2, 1, 'alice', { return_value_hex_data: '', account_ram_deltas: [{ account: 'bob', delta: -30 }] }),
+            ],
+        });
+
+        beforeEach(async () => {
+            const rawAbi = api.jsonToRawAbi(returnValueAbi);
+            api.cachedAbis.set('returnvalue', { rawAbi, abi: returnValueAbi, fetchedAt: Date.now() });
+            rpc.push_transaction = jest.fn();
+            rpc.push_ro_transaction = jest.fn(async () => ({ result: createTrace() }));
+        });
+
+        const dryRun = () => api.transact({
+            expiration: '2018-09-04T18:42:49',
+            ref_block_num: 38096,
+            ref_block_prefix: 505360011,
+            actions: [{
+                account: 'returnvalue',
+                name: 'sum',
+                authorization: [{ actor: 'bob', permission: 'active' }],
+                data: { a: 5, b: 5 },
+            }],
+        }, { dryRun: true, requiredKeys: [] });
+
+        it('executes the transaction with compute_transaction and reports the traces', async () => {
+            rpc.compute_transaction = jest.fn(async () => ({ transaction_id: 'aabb', processed: createTrace() }));
+
+            const report = await dryRun();
+
+            expect(rpc.compute_transaction).toHaveBeenCalledWith(expect.objectContaining({ signatures: [] }));
+            expect(rpc.push_transaction).not.toHaveBeenCalled();
+            expect(report).toMatchObject({
+                transactionId: 'aabb',
+                endpoint: 'compute_transaction',
+                console: 'returnvalue alice ',
+                ramDeltas: [{ account: 'bob', delta: 70 }],
+                cpuUsageUs: 150,
+                netUsageWords: 14,
+                elapsed: 30,
+                except: null,
+            });
+            expect(report.actions.map((action: any) => [action.actionOrdinal, action.receiver, action.returnValue]))
+                .toEqual([[1, 'returnvalue', 10], [2, 'alice', undefined]]);
+            expect(report.actions[0].data).toEqual({ a: 5, b: 5 });
+        });
+
+        it('falls back to push_ro_transaction when compute_transaction is not available', async () => {
+            const notFound = new RpcError({ code: 404, message: 'Not Found' });
+            notFound.status = 404;
+            rpc.compute_transaction = jest.fn(async () => { throw notFound; });
+
+            const first = await dryRun();
+            const second = await dryRun();
+
+            expect(first.endpoint).toBe('push_ro_transaction');
+            expect(second.actions[0].returnValue).toBe(10);
+            expect(rpc.compute_transaction).toHaveBeenCalledTimes(1);
+            expect(rpc.push_ro_transaction).toHaveBeenCalledTimes(2);
+            expect(rpc.push_ro_transaction).toHaveBeenCalledWith(expect.anything(), true);
+        });
+
+        it('rejects with errors of the node', async () => {
+            rpc.compute_transaction = jest.fn(async () => { throw new RpcError({ error: { code: 3050003 } }); });
+
+            await expect(dryRun()).rejects.toBeInstanceOf(RpcError);
+            expect(rpc.push_ro_transaction).not.toHaveBeenCalled();
+        });
+
+        it('reports return values as hex when the abi declares no result type', async () => {
+            api.cachedAbis.set('returnvalue', {
+                rawAbi: api.jsonToRawAbi({ ...returnValueAbi, action_results: [] }),
+                abi: { ...returnValueAbi, action_results: [] },
+                fetchedAt: Date.now(),
+            });
+            api.contracts.delete('returnvalue');
+            rpc.compute_transaction = jest.fn(async () => ({ transaction_id: 'aabb', processed: createTrace() }));
+
+            const report = await dryRun();
+
+            expect(report.actions[0].returnValue).toBe('0a000000');
+        });
+    });
+
+    describe('action results', () => {
+        const actionTrace = (receiver: string, hex: string, extra: any = {}) => ({
+            receiver,
+            act: { account: 'returnvalue', name: 'sum', authorization: [] as any[], data: {} },
+            return_value_hex_data: hex,
+            ...extra,
+        });
+
+        beforeEach(() => {
+            api.cachedAbis.set('returnvalue', {
+                rawAbi: api.jsonToRawAbi(returnValueAbi), abi: returnValueAbi, fetchedAt: Date.now(),
+            });
+        });
+
+        it('decodes return values of transact, including inline traces', async () => {
+            const processed = {
+                id: 'aabb',
+                action_traces: [
+                    actionTrace('returnvalue', '0a000000', {
+                        inline_traces: [actionTrace('returnvalue', '14000000')],
+                    }),
+                ],
+            };
+            rpc.push_transaction = jest.fn(async () => ({ transaction_id: 'aabb', processed }));
+
+            const result = await api.transact({
+                expiration: '2018-09-04T18:42:49',
+                ref_block_num: 38096,
+                ref_block_prefix: 505360011,
+                actions: [{ account: 'returnvalue', name: 'sum', authorization: [], data: { a: 5, b: 5 } }],
+            }, { requiredKeys: [] });
+
+            expect(result.processed.action_traces[0].return_value_data).toBe(10);
+            expect(result.processed.action_traces[0].inline_traces[0].return_value_data).toBe(20);
+        });
+
+        it('keeps values decoded by the node and skips actions it cannot decode', async () => {
+            const trace: any = {
+                action_traces: [
+                    actionTrace('returnvalue', '0a000000', { return_value_data: 'from node' }),
+                    actionTrace('unknown', '0a000000', { act: { account: 'unknown', name: 'sum', authorization: [] } }),
+                    actionTrace('returnvalue', ''),
+                ],
+            };
+            api.getAbi = jest.fn(async (accountName: string) => {
+                if (accountName === 'unknown') {
+                    throw new Error('missing abi');
+                }
+                return returnValueAbi;
+            });
+
+            await api.deserializeActionResults(trace);
+
+            expect(trace.action_traces.map((t: any) => t.return_value_data)).toEqual(['from node', undefined, undefined]);
+        });
+    });
+
+    describe('confirmation', () => {
+        it('waits for the transaction to reach the finality level of waitForConfirmation', async () => {
+            rpc.push_transaction = jest.fn(async () => ({
+                transaction_id: 'aabb', processed: { id: 'aabb', block_num: 38100, action_traces: [] },
+            }));
+            rpc.get_info = jest.fn(async () => ({ head_block_num: 38101, last_irreversible_block_num: 38000 } as any));
+            rpc.get_block = jest.fn(async () => ({
+                block_num: 38100, id: 'block', timestamp: '2018-09-04T18:42:20.000', transactions: [{ trx: { id: 'aabb' } }],
+            } as any));
+            rpc.get_block_info = jest.fn(async () => ({ block_num: 38100, id: 'block' } as any));
+
+            const result = await api.transact({
+                expiration: '2018-09-04T18:42:49',
+                ref_block_num: 38096,
+                ref_block_prefix: 505360011,
+                actions: [],
+            }, { requiredKeys: [], waitForConfirmation: 'in-block' });
+
+            expect(rpc.get_block).toHaveBeenCalledWith(38100);
+            expect(result.confirmation).toEqual(expect.objectContaining({
+                transactionId: 'aabb', state: 'in-block', blockNum: 38100, blockId: 'block',
+            }));
+        });
+    });
+
+    describe('resubmission', () => {
+        let head: number;
+        let included: (trxId: string) => boolean;
+        const expiredError = () => new RpcError({ code: 500, error: { code: 3040005, name: 'expired_tx_exception' } });
+        const transfer = {
+            actions: [{
+                account: 'testeostoken',
+                name: 'transfer',
+                authorization: [{ actor: 'thegazelle', permission: 'active' }],
+                data: { from: 'thegazelle', to: 'remasteryoda', quantity: '1.0000 EOS', memo: '' },
+            }],
+        };
+        const pushedIds = () => rpc.push_transaction.mock.calls.map(([{ serializedTransaction }]: any) =>
+            sha256().update(serializedTransaction).digest('hex'));
+
+        beforeEach(() => {
+            head = 100;
+            included = () => false;
+            const blockId = (blockNum: number) => blockNum.toString(16).padStart(8, '0') + '0a'.repeat(28);
+            rpc.get_info = jest.fn(async () => ({ head_block_num: head += 10, last_irreversible_block_num: 50 }));
+            rpc.get_block_header_state = jest.fn(async (blockNum: number) => ({
+                block_num: blockNum, id: blockId(blockNum), header: { timestamp: '2018-09-04T18:42:19.000' },
+            }));
+            rpc.get_block = jest.fn(async (blockNum: number) => ({
+                block_num: blockNum,
+                id: blockId(blockNum),
+                timestamp: '2018-09-04T18:42:20.000',
+                transactions: pushedIds().filter(included).map((id: string) => ({ trx: { id } })),
+            }));
+            rpc.get_block_info = jest.fn(async (blockNum: number) => ({ block_num: blockNum, id: blockId(blockNum) }));
+            api.authorityProvider = { getRequiredKeys: async ({ availableKeys }: any) => availableKeys };
+        });
+
+        it('pushes the transaction again with a new TAPoS header after it expired', async () => {
+            rpc.get_block = jest.fn(async (blockNum: number) => ({
+                block_num: blockNum, id: 'block', timestamp: '2018-09-04T18:43:00.000', transactions: [],
+            }));
+            rpc.push_transaction = jest.fn()
+                .mockRejectedValueOnce(expiredError())
+                .mockResolvedValueOnce({ transaction_id: 'resubmitted', processed: { action_traces: [] } });
+
+            const result = await api.transact(transfer, { blocksBehind: 3, expireSeconds: 30, resubmit: {} });
+
+            expect(result.transaction_id).toBe('resubmitted');
+            const [first, second] = rpc.push_transaction.mock.calls.map(([args]: any) =>
+                api.deserializeTransaction(args.serializedTransaction));
+            expect(first.ref_block_num).toBe(107);
+            expect(second.ref_block_num).toBe(127);
+            expect(second.actions).toEqual(first.actions);
+            expect(rpc.push_transaction.mock.calls[1][0].signatures).toHaveLength(1);
+        });
+
+        it('does not resubmit a transaction which made it into a block', async () => {
+            included = () => true;
+            rpc.push_transaction = jest.fn().mockRejectedValue(expiredError());
+
+            const result = await api.transact(transfer, { blocksBehind: 3, expireSeconds: 30, resubmit: {} });
+
+            expect(rpc.push_transaction).toHaveBeenCalledTimes(1);
+            expect(result).toEqual({
+                transaction_id: pushedIds()[0],
+                duplicate: true,
+                confirmation: expect.objectContaining({ state: 'in-block', blockNum: 107 }),
+            });
+        });
+
+        it('resolves without a trace when a retried push was a duplicate of an earlier copy', async () => {
+            rpc.push_transaction = jest.fn().mockRejectedValue(new DuplicateTransactionError(
+                { code: 500, error: { code: 3040008, name: 'tx_duplicate' } }, 'aabb'));
+
+            const result = await api.transact(transfer, { blocksBehind: 3, expireSeconds: 30 });
+
+            expect(result).toEqual({ transaction_id: 'aabb', duplicate: true });
+        });
+
+        it('gives up after maxResubmits and does not resubmit other errors', async () => {
+            rpc.get_block = jest.fn(async () => ({ timestamp: '2018-09-04T18:43:00.000', transactions: [] }));
+            rpc.push_transaction = jest.fn().mockRejectedValue(expiredError());
+
+            await expect(api.transact(transfer, { blocksBehind: 3, expireSeconds: 30, resubmit: { maxResubmits: 2 } }))
+                .rejects.toThrow(RpcError);
+            expect(rpc.push_transaction).toHaveBeenCalledTimes(3);
+
+            rpc.push_transaction = jest.fn().mockRejectedValue(new RpcError({ error: { code: 3050003 } }));
+            await expect(api.transact(transfer, { blocksBehind: 3, expireSeconds: 30, resubmit: {} }))
+                .rejects.toThrow(RpcError);
+            expect(rpc.push_transaction).toHaveBeenCalledTimes(1);
+        });
+
+        it('requires the TAPoS settings to generate new headers', async () => {
+            await expect(api.transact({ expiration: '2018-09-04T18:42:49', ref_block_num: 1, ref_block_prefix: 2, ...transfer }, {
+                resubmit: {},
+            })).rejects.toThrow('resubmit requires blocksBehind or useLastIrreversible, and expireSeconds');
+        });
+    });
+
+    describe('plugins', () => {
+        const transfer = (memo: string) => ({
+            expiration: '2018-09-04T18:42:49',
+            ref_block_num: 38096,
+            ref_block_prefix: 505360011,
+            actions: [{
+                account: 'testeostoken',
+                name: 'transfer',
+                authorization: [{ actor: 'thegazelle', permission: 'active' }],
+                data: { from: 'thegazelle', to: 'remasteryoda', quantity: '1.0000 EOS', memo },
+            }],
+        });
+
+        beforeEach(() => {
+            rpc.push_transaction = jest.fn(async () => ({ transaction_id: 'aabb', processed: { action_traces: [] } }));
+        });
+
+        it('runs the hooks of every stage in order', async () => {
+            const calls: string[] = [];
+            const hooks = ['beforeSerialize', 'afterSerialize', 'beforeSign', 'afterSign', 'beforeBroadcast', 'afterBroadcast'];
+            const plugin = (name: string): any => {
+                const result: any = {};
+                hooks.forEach((hook) => result[hook] = () => calls.push(`${name}.${hook}`));
+                return result;
+            };
+            api.use(plugin('a')).use(plugin('b'));
+
+            await api.transact(transfer(''), { requiredKeys: [] });
+
+            expect(calls).toEqual([].concat(...hooks.map((hook) => [`a.${hook}`, `b.${hook}`])));
+        });
+
+        it('lets plugins add actions, cosign and replace the result', async () => {
+            api.use({
+                beforeSerialize: ({ transaction }: any) => {
+                    transaction.actions = [{ ...transaction.actions[0], data: { ...transaction.actions[0].data, memo: 'noop' } },
+                        ...transaction.actions];
+                },
+                afterSerialize: ({ transaction }: any) => {
+                    expect(transaction.actions[0].data).toMatch(/^[0-9A-F]+$/);
+                },
+                beforeSign: async (context: any) => {
+                    context.requiredKeys = await api.signatureProvider.getAvailableKeys();
+                },
+                afterSign: (context: any) => {
+                    context.pushTransactionArgs.signatures.push('SIG_K1_cosigner');
+                },
+                afterBroadcast: (context: any) => {
+                    context.result = { ...context.result, audited: true };
+                },
+            });
+
+            const result = await api.transact(transfer('paid'), { requiredKeys: [] });
+
+            const [{ serializedTransaction, signatures }] = rpc.push_transaction.mock.calls[0];
+            const actions = await api.deserializeActions(api.deserializeTransaction(serializedTransaction).actions);
+            expect(actions.map((action: any) => action.data.memo)).toEqual(['noop', 'paid']);
+            expect(signatures).toHaveLength(2);
+            expect(signatures[1]).toBe('SIG_K1_cosigner');
+            expect(result.audited).toBe(true);
+        });
+
+        it('rejects the transaction when a hook throws', async () => {
+            api.use({
+                beforeBroadcast: () => {
+                    throw new Error('transfers are disabled');
+                },
+            });
+
+            await expect(api.transact(transfer(''), { requiredKeys: [] })).rejects.toThrow('transfers are disabled');
+            expect(rpc.push_transaction).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,166 @@
+const { webcrypto } = require('crypto');
+import { createWebCryptoBackend, ellipticBackend, pureBackend } from '../eosjs-crypto-backend';
+import { JsSignatureProvider } from '../eosjs-jssig';
+import { PrivateKey, Signature } from '../eosjs-key-conversions';
+import { KeyType, stringToPrivateKey } from '../eosjs-numeric';
+
+describe('crypto backends', () => {
+    const privateKeys = [
+        '5Juww5SS6aLWxopXBAWzwqrwadiZKz7XpKAiktXTKcfBGi1DWg8',
+        '5JnHjSFwe4r7xyqAUAaVs51G7HmzE86DWGa3VAA5VvQriGYnSUr',
+        'PVT_R1_GrfEfbv5at9kbeHcGagQmvbFLdm6jqEpgE1wsGbrfbZNjpVgT',
+        'PVT_R1_wCpPsaY9o8NU9ZsuwaYVQUDkCfj1aWJZGVcmMM6XyYHJVqvqp',
+    ];
+    const message = new Uint8Array([...'message signed by the backends'].map((c) => c.charCodeAt(0)));
+    const otherMessage = new Uint8Array([1, 2, 3]);
+
+    it('derives the public keys elliptic derives', async () => {
+        for (const key of privateKeys) {
+            const privateKey = PrivateKey.fromString(key);
+            const expected = (await privateKey.getPublicKeyAsync(ellipticBackend)).toString();
+            expect((await privateKey.getPublicKeyAsync(pureBackend)).toString()).toEqual(expected);
+            expect(privateKey.getPublicKey().toString()).toEqual(expected);
+            expect(PrivateKey.fromString(key, undefined, pureBackend).getPublicKey().toString()).toEqual(expected);
+        }
+    }, 60000);
+
+    it('makes the signatures elliptic makes without Buffer', async () => {
+        const buffer = (global as any).Buffer;
+        for (const key of privateKeys) {
+            const privateKey = PrivateKey.fromString(key, undefined, pureBackend);
+            const expected = (await privateKey.signAsync(message, ellipticBackend)).toString();
+            expect(PrivateKey.fromString(key).sign(message).toString()).toEqual(expected);
+            (global as any).Buffer = undefined;
+            try {
+                expect((await privateKey.signAsync(message)).toString()).toEqual(expected);
+                expect(privateKey.sign(message).toString()).toEqual(expected);
+            } finally {
+                (global as any).Buffer = buffer;
+            }
+        }
+    }, 60000);
+
+    it('verifies and recovers signatures', async () => {
+        for (const backend of [ellipticBackend, pureBackend]) {
+            for (const index of [0, 2]) {
+                const key = privateKeys[index];
+                const privateKey = PrivateKey.fromString(key);
+                const publicKey = privateKey.getPublicKey();
+                const signature = await privateKey.signAsync(message, backend);
+                expect(await signature.verifyAsync(message, publicKey, backend)).toBe(true);
+                expect(await signature.verifyAsync(otherMessage, publicKey, backend)).toBe(false);
+                expect(await signature.verifyAsync(message, PrivateKey.fromString(privateKeys[index ^ 1]).getPublicKey(), backend))
+                    .toBe(false);
+                expect((await signature.recoverAsync(message, backend)).toString()).toEqual(publicKey.toString());
+                expect((await signature.recoverAsync(otherMessage, backend)).toString()).not.toEqual(publicKey.toString());
+            }
+        }
+    }, 60000);
+
+    it('signs and verifies R1 with WebCrypto', async () => {
+        const backend = createWebCryptoBackend(webcrypto.subtle);
+        for (const key of [privateKeys[0], privateKeys[2]]) {
+            const privateKey = PrivateKey.fromString(key);
+            const publicKey = privateKey.getPublicKey();
+            const signature = await privateKey.signAsync(message, backend);
+            expect(signature.verify(message, publicKey)).toBe(true);
+            expect(signature.recover(message).toString()).toEqual(publicKey.toString());
+            expect(await signature.verifyAsync(message, publicKey, backend)).toBe(true);
+            expect(await signature.verifyAsync(otherMessage, publicKey, backend)).toBe(false);
+            const ellipticSignature = await privateKey.signAsync(message, ellipticBackend);
+            expect(await ellipticSignature.verifyAsync(message, publicKey, backend)).toBe(true);
+        }
+    }, 60000);
+
+    it('signs transactions with a backend', async () => {
+        const args = {
+            chainId: '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca',
+            requiredKeys: privateKeys.map((key) => PrivateKey.fromString(key).getPublicKey().toString()),
+            serializedTransaction: new Uint8Array([1, 2, 3]),
+            serializedContextFreeData: new Uint8Array([4, 5, 6]),
+            abis: [] as any[],
+        };
+        const expected = await new JsSignatureProvider(privateKeys, { backend: ellipticBackend }).sign(args);
+        const buffer = (global as any).Buffer;
+        (global as any).Buffer = undefined;
+        try {
+            const signed = await new JsSignatureProvider(privateKeys, { backend: pureBackend }).sign(args);
+            expect(signed.signatures).toEqual(expected.signatures);
+            const webCryptoSigned = await new JsSignatureProvider(privateKeys, { backend: createWebCryptoBackend(webcrypto.subtle) })
+                .sign(args);
+            webCryptoSigned.signatures.forEach((signature, i) => {
+                expect(Signature.fromString(signature).getType()).toEqual(stringToPrivateKey(privateKeys[i]).type);
+            });
+            expect(webCryptoSigned.signatures.slice(0, 2)).toEqual(expected.signatures.slice(0, 2));
+        } finally {
+            (global as any).Buffer = buffer;
+        }
+        await expect(pureBackend.sign({ ...stringToPrivateKey(privateKeys[0]), type: KeyType.wa }, message))
+            .rejects.toThrow('Only K1 and R1 keys are supported by crypto backends');
+    }, 60000);
+
+    it('signs without loading elliptic', async () => {
+        const args = {
+            chainId: '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca',
+            requiredKeys: [PrivateKey.fromString(privateKeys[0]).getPublicKey().toString()],
+            serializedTransaction: new Uint8Array([1, 2, 3]),
+            abis: [] as any[],
+        };
+        const expected = await new JsSignatureProvider(privateKeys, { backend: ellipticBackend }).sign(args);
+        jest.resetModules();
+        jest.doMock('elliptic', () => {
+            throw new Error('elliptic was loaded');
+        });
+        try {
+            const provider = new (require('../eosjs-jssig').JsSignatureProvider)(privateKeys, { backend: pureBackend });
+            expect(provider.availableKeys[0]).toEqual(args.requiredKeys[0]);
+            expect((await provider.sign(args)).signatures).toEqual(expected.signatures);
+        } finally {
+            jest.dontMock('elliptic');
+            jest.resetModules();
+        }
+    }, 60000);
+
+    it('uses the backend set as default for keys and signatures', () => {
+        const expected = PrivateKey.fromString(privateKeys[0]).sign(message);
+        jest.resetModules();
+        jest.doMock('elliptic', () => {
+            throw new Error('elliptic was loaded');
+        });
+        try {
+            const backends = require('../eosjs-crypto-backend');
+            const { PrivateKey: FreshPrivateKey, Signature: FreshSignature } = require('../eosjs-key-conversions');
+            expect(backends.getDefaultCryptoBackend()).toBe(backends.ellipticBackend);
+            backends.setDefaultCryptoBackend(backends.pureBackend);
+            const privateKey = FreshPrivateKey.fromString(privateKeys[0]);
+            const signature = privateKey.sign(message);
+            expect(signature.toString()).toEqual(expected.toString());
+            expect(signature.verify(message, privateKey.getPublicKey())).toBe(true);
+            expect(FreshSignature.fromString(expected.toString()).recover(message).toString())
+                .toEqual(privateKey.getPublicKey().toString());
+        } finally {
+            jest.dontMock('elliptic');
+            jest.resetModules();
+        }
+    }, 60000);
+
+    it('loads without BigInt', async () => {
+        const bigInt = (global as any).BigInt;
+        const args = {
+            chainId: '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca',
+            requiredKeys: [PrivateKey.fromString(privateKeys[0]).getPublicKey().toString()],
+            serializedTransaction: new Uint8Array([1, 2, 3]),
+            abis: [] as any[],
+        };
+        const expected = await new JsSignatureProvider(privateKeys).sign(args);
+        jest.resetModules();
+        (global as any).BigInt = undefined;
+        try {
+            const provider = new (require('../eosjs-jssig').JsSignatureProvider)(privateKeys);
+            expect((await provider.sign(args)).signatures).toEqual(expected.signatures);
+        } finally {
+            (global as any).BigInt = bigInt;
+            jest.resetModules();
+        }
+    }, 60000);
+});
@@ -122,4 +122,21 @@ describe('ecc Migration', () => {
         const eccMigrationKPub = eccMigration.recoverHash(eccSig, eccMigrationHash, 'utf8');
         expect(eccKPub).toEqual(eccMigrationKPub);
     });
+
+    it('verifies `Aes` encrypts and decrypts messages the same as ecc', () => {
+        const message = 'a memo for the other key';
+        const nonce = '1234567890123456789';
+        const eccEncrypted = ecc.Aes.encrypt(privateKeys[0], legacyPublicKeys[1], message, nonce);
+        const eccMigrationEncrypted = eccMigration.Aes.encrypt(privateKeys[0], legacyPublicKeys[1], message, nonce);
+        expect(eccMigrationEncrypted.message).toEqual(eccEncrypted.message);
+        expect(eccMigrationEncrypted.checksum).toEqual(eccEncrypted.checksum);
+
+        const eccMigrationMessage = eccMigration.Aes.decrypt(
+            privateKeys[1], legacyPublicKeys[0], eccEncrypted.nonce.toString(), eccEncrypted.message, eccEncrypted.checksum
+        );
+        expect(eccMigrationMessage.toString()).toEqual(message);
+        const fresh = eccMigration.Aes.encrypt(privateKeys[1], legacyPublicKeys[0], message);
+        expect(ecc.Aes.decrypt(privateKeys[0], legacyPublicKeys[1], fresh.nonce, fresh.message, fresh.checksum).toString())
+            .toEqual(message);
+    });
 });
@@ -0,0 +1,109 @@
+const { pbkdf2Sync } = require('crypto');
+import { english } from '../eosjs-bip39-wordlists';
+import {
+    entropyToMnemonic,
+    eosDerivationPath,
+    generateMnemonic,
+    HDKey,
+    hardenedOffset,
+    mnemonicToEntropy,
+    mnemonicToSeed,
+    validateMnemonic,
+} from '../eosjs-hd-keys';
+import { JsSignatureProvider } from '../eosjs-jssig';
+import { PublicKey, Signature } from '../eosjs-key-conversions';
+import { hexToUint8Array } from '../eosjs-serialize';
+
+const toHex = (data: Uint8Array) => Buffer.from(data).toString('hex');
+
+describe('BIP39 mnemonics', () => {
+    const vectors: [string, string][] = [
+        ['00000000000000000000000000000000', 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'],
+        ['7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f', 'legal winner thank year wave sausage worth useful legal winner thank yellow'],
+        ['80808080808080808080808080808080', 'letter advice cage absurd amount doctor acoustic avoid letter advice cage above'],
+        ['ffffffffffffffffffffffffffffffff', 'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong'],
+        [
+            'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+            'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote',
+        ],
+    ];
+
+    it('encodes entropy as words with a checksum', () => {
+        expect(english.length).toBe(2048);
+        for (const [entropy, mnemonic] of vectors) {
+            expect(entropyToMnemonic(hexToUint8Array(entropy))).toBe(mnemonic);
+            expect(toHex(mnemonicToEntropy(mnemonic))).toBe(entropy);
+        }
+    });
+
+    it('validates mnemonics', () => {
+        expect(validateMnemonic(vectors[1][1])).toBe(true);
+        expect(validateMnemonic(vectors[1][1].replace('yellow', 'year'))).toBe(false);
+        expect(() => mnemonicToEntropy('legal winner thank')).toThrow('Mnemonic must have 12, 15, 18, 21 or 24 words');
+        expect(() => mnemonicToEntropy(vectors[0][1].replace('about', 'eosio'))).toThrow('Unknown mnemonic word "eosio"');
+        expect(() => mnemonicToEntropy(vectors[0][1].replace('about', 'zoo'))).toThrow('Invalid mnemonic checksum');
+    });
+
+    it('generates random mnemonics', () => {
+        const mnemonic = generateMnemonic(256, { secureEnv: true });
+
+        expect(mnemonic.split(' ').length).toBe(24);
+        expect(validateMnemonic(mnemonic)).toBe(true);
+        expect(generateMnemonic(128, { secureEnv: true })).not.toBe(generateMnemonic(128, { secureEnv: true }));
+        expect(() => generateMnemonic()).toThrow(/INSECURE/);
+    });
+
+    it('generates mnemonics of the standard strengths only', () => {
+        expect([128, 160, 192, 224, 256].map((strength) =>
+            generateMnemonic(strength, { secureEnv: true }).split(' ').length)).toEqual([12, 15, 18, 21, 24]);
+        expect(() => generateMnemonic(64, { secureEnv: true })).toThrow('Strength must be 128, 160, 192, 224 or 256 bits');
+        expect(() => generateMnemonic(129, { secureEnv: true })).toThrow('Strength must be 128, 160, 192, 224 or 256 bits');
+    });
+
+    it('derives seeds with PBKDF2-HMAC-SHA512', () => {
+        const [, mnemonic] = vectors[1];
+
+        expect(toHex(mnemonicToSeed(mnemonic, 'TREZOR')))
+            .toBe(pbkdf2Sync(mnemonic, 'mnemonicTREZOR', 2048, 64, 'sha512').toString('hex'));
+    });
+});
+
+describe('HDKey', () => {
+    const master = HDKey.fromSeed(hexToUint8Array('000102030405060708090a0b0c0d0e0f'));
+    const privateKeyHex = (key: HDKey) => toHex(key.getPrivateKey().toElliptic().getPrivate().toArrayLike(Buffer, 'be', 32));
+
+    it('derives the BIP32 test vectors', () => {
+        expect(toHex(master.chainCode)).toBe('873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508');
+        expect(privateKeyHex(master)).toBe('e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35');
+        expect(privateKeyHex(master.derive("m/0'"))).toBe('edb2e14f9ee77d26dd93b4ecede8d16ed408ce149b6cd80b0715a2d911a0afea');
+        expect(privateKeyHex(master.derive("m/0'/1/2h/2")))
+            .toBe('0f479245fb19a38a1954c5c7c0ebab2f9bdfd96a17563ef28a6a4b1a2a764ef4');
+        expect(master.derive("m/0'/1/2h/2").depth).toBe(4);
+    });
+
+    it('derives public children without the private key', () => {
+        const parent = master.derive("m/0'");
+
+        const child = parent.neuter().derive('1/5');
+
+        expect(child.hasPrivateKey()).toBe(false);
+        expect(child.getPublicKey().toString()).toBe(parent.derive('1/5').getPublicKey().toString());
+        expect(() => parent.neuter().deriveChild(hardenedOffset)).toThrow('Hardened children need the private key');
+        expect(() => child.getPrivateKey()).toThrow('HD key has no private key');
+    });
+
+    it('derives EOSIO keys usable for signing', async () => {
+        const key = HDKey.fromMnemonic(generateMnemonic(128, { secureEnv: true })).derive(eosDerivationPath(0, 0, 1));
+        const privateKey = key.getPrivateKey();
+        const provider = new JsSignatureProvider([privateKey.toString()]);
+        const publicKey = key.getPublicKey().toString();
+
+        expect(eosDerivationPath(0, 0, 1)).toBe("m/44'/194'/0'/0/1");
+        expect(await provider.getAvailableKeys()).toEqual([publicKey]);
+        expect(privateKey.getPublicKey().toString()).toBe(publicKey);
+        const digest = new Uint8Array(32).fill(1);
+        const signature: Signature = privateKey.sign(digest, false);
+        expect(signature.verify(digest, PublicKey.fromString(publicKey), false)).toBe(true);
+        expect(() => master.derive("0/1'/x")).toThrow("Invalid derivation path 0/1'/x");
+    });
+});
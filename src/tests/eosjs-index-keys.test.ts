@@ -0,0 +1,45 @@
+import { encodeIndexKey, indexKeyType } from '../eosjs-index-keys';
+
+describe('index keys', () => {
+    const checksum = 'f58262c8005bb64b8f99ec6083faf050c502d099d9929ae37ffed2fe1bb954fb';
+
+    it('encodes names as their uint64 value', () => {
+        expect(encodeIndexKey('name', 'eosio')).toEqual({ key_type: 'i64', value: '6138663577826885632' });
+        expect(encodeIndexKey('name', '12345')).toEqual({ key_type: 'i64', value: '614251516705898496' });
+    });
+
+    it('encodes 64 bit integers as decimal strings', () => {
+        expect(encodeIndexKey('uint64', 42)).toEqual({ key_type: 'i64', value: '42' });
+        expect(encodeIndexKey('i64', '18446744073709551615')).toEqual({ key_type: 'i64', value: '18446744073709551615' });
+        expect(() => encodeIndexKey('i64', '18446744073709551616')).toThrow('number is out of range');
+    });
+
+    it('encodes 128 bit integers as big-endian hex', () => {
+        expect(encodeIndexKey('i128', '1')).toEqual({ key_type: 'i128', value: '0x00000000000000000000000000000001' });
+        expect(encodeIndexKey('uint128', '340282366920938463463374607431768211455'))
+            .toEqual({ key_type: 'i128', value: '0xffffffffffffffffffffffffffffffff' });
+    });
+
+    it('encodes floats as decimal strings', () => {
+        expect(encodeIndexKey('float64', 1.5)).toEqual({ key_type: 'float64', value: '1.5' });
+        expect(() => encodeIndexKey('float64', 'abc')).toThrow('Expected float64, got abc');
+    });
+
+    it('sends checksums as hex for sha256 and ripemd160 keys', () => {
+        expect(encodeIndexKey('checksum256', checksum.toUpperCase())).toEqual({ key_type: 'sha256', value: checksum });
+        expect(encodeIndexKey('ripemd160', 'a'.repeat(40))).toEqual({ key_type: 'ripemd160', value: 'a'.repeat(40) });
+        expect(() => encodeIndexKey('sha256', 'abcd')).toThrow('Expected 32 byte hex string, got abcd');
+    });
+
+    it('reverses the bytes of checksums for i256 keys', () => {
+        expect(encodeIndexKey('i256', checksum)).toEqual({
+            key_type: 'i256',
+            value: '0xfb54b91bfed2fe7fe39a92d999d002c550f0fa8360ec998f4bb65b00c86282f5',
+        });
+        expect(encodeIndexKey('i256', '0x01')).toEqual({ key_type: 'i256', value: '0x01' });
+    });
+
+    it('rejects unsupported key types', () => {
+        expect(() => indexKeyType('float128')).toThrow('Unsupported key type: float128');
+    });
+});
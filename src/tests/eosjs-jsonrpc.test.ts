@@ -1,5 +1,6 @@
 import { JsonRpc } from '../eosjs-jsonrpc';
-import { RpcError } from '../eosjs-rpcerror';
+import { DuplicateTransactionError, RpcError } from '../eosjs-rpcerror';
+import { LruCacheStorage } from '../eosjs-rpc-cache';
 
 describe('JSON RPC', () => {
     const endpointExtraSlash = 'http://localhost/';
@@ -562,6 +563,7 @@ describe('JSON RPC', () => {
             lower_bound: lowerBound,
             upper_bound: upperBound,
             limit,
+            reverse: false,
         };
         const expParams = {
             body: JSON.stringify(callParams),
@@ -595,6 +597,7 @@ describe('JSON RPC', () => {
                 lower_bound: lowerBound,
                 upper_bound: upperBound,
                 limit,
+                reverse: false,
             }),
             method: 'POST',
         };
@@ -875,4 +878,545 @@ describe('JSON RPC', () => {
         expect(fetch).toBeCalledWith(endpoint + expPath, expParams);
     });
 
+    describe('endpoint failover', () => {
+        const endpoints = ['http://node-a', 'http://node-b/', 'http://node-c'];
+        const infoAt = (time: Date) => ({ head_block_time: time.toISOString().slice(0, -1) });
+
+        it('fails over to the next endpoint on network errors', async () => {
+            const expReturn = { data: '12345' };
+            jsonRpc = new JsonRpc(endpoints);
+
+            fetchMock.mockRejectOnce(new Error('connect ECONNREFUSED'));
+            fetchMock.once(JSON.stringify(expReturn));
+
+            const response = await jsonRpc.get_abi('myaccountaaa');
+
+            expect(response).toEqual(expReturn);
+            expect(fetchMock.mock.calls[0][0]).toEqual('http://node-a/v1/chain/get_abi');
+            expect(fetchMock.mock.calls[1][0]).toEqual('http://node-b/v1/chain/get_abi');
+            expect(jsonRpc.endpointPool.statuses[0].healthy).toBe(false);
+            expect(jsonRpc.endpointPool.statuses[1].healthy).toBe(true);
+        });
+
+        it('skips unhealthy endpoints until their timeout expires', async () => {
+            jsonRpc = new JsonRpc(endpoints);
+
+            fetchMock.mockRejectOnce(new Error('connect ECONNREFUSED'));
+            fetchMock.mockResponse(JSON.stringify({ data: '12345' }));
+
+            await jsonRpc.get_abi('myaccountaaa');
+            await jsonRpc.get_abi('myaccountaaa');
+            expect(fetchMock.mock.calls[2][0]).toEqual('http://node-b/v1/chain/get_abi');
+
+            jsonRpc.endpointPool.statuses[0].unhealthyUntil = Date.now() - 1;
+            await jsonRpc.get_abi('myaccountaaa');
+            expect(fetchMock.mock.calls[3][0]).toEqual('http://node-a/v1/chain/get_abi');
+        });
+
+        it('does not fail over on errors reported by the node', async () => {
+            let error: any;
+            jsonRpc = new JsonRpc(endpoints);
+
+            fetchMock.once(JSON.stringify({ message: 'Not Found' }), { status: 404 });
+
+            try {
+                await jsonRpc.get_abi('myaccountaaa');
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(RpcError);
+            expect(fetchMock.mock.calls.length).toEqual(1);
+        });
+
+        it('fails over on retryable statuses and records only 2xx responses as successes', async () => {
+            const expReturn = { data: '12345' };
+            jsonRpc = new JsonRpc(endpoints);
+
+            fetchMock.once(JSON.stringify({ message: 'Service Unavailable' }), { status: 503 });
+            fetchMock.once(JSON.stringify({ message: 'Not Found' }), { status: 404 });
+            fetchMock.once(JSON.stringify(expReturn));
+
+            await expect(jsonRpc.get_abi('myaccountaaa')).rejects.toBeInstanceOf(RpcError);
+            expect(fetchMock.mock.calls[1][0]).toEqual('http://node-b/v1/chain/get_abi');
+            expect(jsonRpc.endpointPool.statuses[0].healthy).toBe(false);
+            expect(jsonRpc.endpointPool.statuses[1].healthy).toBe(true);
+            expect(jsonRpc.endpointPool.statuses[1].latency).toBeNull();
+
+            expect(await jsonRpc.get_abi('myaccountaaa')).toEqual(expReturn);
+            expect(jsonRpc.endpointPool.statuses[1].latency).not.toBeNull();
+        });
+
+        it('does not send push_transactions to another endpoint', async () => {
+            jsonRpc = new JsonRpc(endpoints);
+
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+
+            await expect(jsonRpc.push_transactions([{
+                signatures: ['SIG_K1_fake'],
+                serializedTransaction: new Uint8Array([1, 2, 3]),
+            }])).rejects.toThrow('socket hang up');
+            expect(fetchMock.mock.calls.length).toEqual(1);
+        });
+
+        it('throws the last network error when every endpoint fails', async () => {
+            jsonRpc = new JsonRpc(endpoints);
+
+            fetchMock.mockReject(new Error('connect ECONNREFUSED'));
+
+            await expect(jsonRpc.get_info()).rejects.toThrow('connect ECONNREFUSED');
+            expect(fetchMock.mock.calls.length).toEqual(3);
+        });
+
+        it('marks endpoints with a stale head block unhealthy', async () => {
+            const fresh = infoAt(new Date());
+            jsonRpc = new JsonRpc(endpoints, { maxHeadBlockAge: 10000 });
+
+            fetchMock.once(JSON.stringify(infoAt(new Date(Date.now() - 60000))));
+            fetchMock.once(JSON.stringify(fresh));
+
+            const response = await jsonRpc.get_info();
+
+            expect(response).toEqual(fresh);
+            expect(jsonRpc.endpointPool.statuses[0].healthy).toBe(false);
+        });
+
+        it('rotates endpoints with round-robin routing', async () => {
+            jsonRpc = new JsonRpc(endpoints, { routing: 'round-robin' });
+
+            fetchMock.mockResponse(JSON.stringify({ data: '12345' }));
+
+            await jsonRpc.get_abi('myaccountaaa');
+            await jsonRpc.get_abi('myaccountaaa');
+            await jsonRpc.get_abi('myaccountaaa');
+
+            expect(fetchMock.mock.calls.map((call: any[]) => call[0])).toEqual([
+                'http://node-a/v1/chain/get_abi',
+                'http://node-b/v1/chain/get_abi',
+                'http://node-c/v1/chain/get_abi',
+            ]);
+        });
+
+        it('prefers the fastest endpoint with lowest-latency routing', async () => {
+            jsonRpc = new JsonRpc(endpoints, { routing: 'lowest-latency' });
+            jsonRpc.endpointPool.statuses[0].latency = 300;
+            jsonRpc.endpointPool.statuses[1].latency = 20;
+            jsonRpc.endpointPool.statuses[2].latency = 100;
+
+            fetchMock.once(JSON.stringify({ data: '12345' }));
+
+            await jsonRpc.get_abi('myaccountaaa');
+
+            expect(fetchMock.mock.calls[0][0]).toEqual('http://node-b/v1/chain/get_abi');
+        });
+
+        it('tries endpoints without a measured latency last with lowest-latency routing', () => {
+            jsonRpc = new JsonRpc(endpoints, { routing: 'lowest-latency' });
+            jsonRpc.endpointPool.statuses[1].latency = 300;
+            jsonRpc.endpointPool.statuses[2].latency = 20;
+
+            expect(jsonRpc.endpointPool.select().map(({ url }) => url))
+                .toEqual(['http://node-c', 'http://node-b', 'http://node-a']);
+        });
+    });
+
+    describe('retry policy', () => {
+        const retryPolicy = { maxAttempts: 3, backoff: 1, jitter: false };
+        const duplicateError = { code: 500, message: 'Internal Service Error', error: { code: 3040008, name: 'tx_duplicate' } };
+        const pushArgs = {
+            signatures: ['SIG_K1_fake'],
+            serializedTransaction: new Uint8Array([1, 2, 3]),
+        };
+        const pushedId = '039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81';
+
+        it('does not retry by default', async () => {
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+
+            await expect(jsonRpc.get_info()).rejects.toThrow('socket hang up');
+            expect(fetchMock.mock.calls.length).toEqual(1);
+        });
+
+        it('retries network errors up to maxAttempts', async () => {
+            const expReturn = { data: '12345' };
+            jsonRpc = new JsonRpc(endpoint, { retryPolicy });
+
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+            fetchMock.once(JSON.stringify(expReturn));
+
+            const response = await jsonRpc.get_abi('myaccountaaa');
+
+            expect(response).toEqual(expReturn);
+            expect(fetchMock.mock.calls.length).toEqual(3);
+        });
+
+        it('retries retryable statuses but not other node errors', async () => {
+            jsonRpc = new JsonRpc(endpoint, { retryPolicy });
+
+            fetchMock.once(JSON.stringify({ message: 'Too Many Requests' }), { status: 429 });
+            fetchMock.once(JSON.stringify({ message: 'Not Found' }), { status: 404 });
+
+            await expect(jsonRpc.get_abi('myaccountaaa')).rejects.toThrow('Not Found');
+            expect(fetchMock.mock.calls.length).toEqual(2);
+        });
+
+        it('retries retryable error codes', async () => {
+            const expReturn = { data: '12345' };
+            jsonRpc = new JsonRpc(endpoint, { retryPolicy: { ...retryPolicy, retryableErrorCodes: [3080004] } });
+
+            fetchMock.once(JSON.stringify({ code: 500, message: 'deadline', error: { code: 3080004 } }), { status: 500 });
+            fetchMock.once(JSON.stringify(expReturn));
+
+            expect(await jsonRpc.get_abi('myaccountaaa')).toEqual(expReturn);
+        });
+
+        it('aborts requests which exceed the timeout', async () => {
+            const hangingFetch = jest.fn(() => new Promise(() => undefined));
+            jsonRpc = new JsonRpc(endpoint, { fetch: hangingFetch, retryPolicy: { ...retryPolicy, timeout: 10 } });
+
+            await expect(jsonRpc.get_info()).rejects.toThrow('Request timed out after 10 ms');
+            expect(hangingFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('applies a per-call policy with withRetryPolicy', async () => {
+            const expReturn = { data: '12345' };
+
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+            fetchMock.once(JSON.stringify(expReturn));
+
+            const response = await jsonRpc.withRetryPolicy(retryPolicy).get_abi('myaccountaaa');
+
+            expect(response).toEqual(expReturn);
+            expect(jsonRpc.retryPolicy).toEqual({});
+        });
+
+        it('keeps the middleware of a withRetryPolicy copy apart from the original', async () => {
+            const beforeRequest = jest.fn();
+            const copy = jsonRpc.withRetryPolicy(retryPolicy).use({ beforeRequest });
+
+            fetchMock.once(JSON.stringify({ data: '12345' }));
+            await jsonRpc.get_abi('myaccountaaa');
+            fetchMock.once(JSON.stringify({ data: '12345' }));
+            await copy.get_abi('myaccountaaa');
+
+            expect(jsonRpc.middleware).toEqual([]);
+            expect(beforeRequest).toHaveBeenCalledTimes(1);
+            expect(copy.endpointPool).toBe(jsonRpc.endpointPool);
+        });
+
+        it('retries push_transaction and reports when the chain rejects the retry as duplicate', async () => {
+            jsonRpc = new JsonRpc(endpoint, { retryPolicy });
+
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+            fetchMock.once(JSON.stringify(duplicateError), { status: 500 });
+
+            const error = await jsonRpc.push_transaction(pushArgs).catch((e) => e);
+
+            expect(error).toBeInstanceOf(DuplicateTransactionError);
+            expect(error.transactionId).toBe(pushedId);
+            expect(error.status).toBe(500);
+        });
+
+        it('reports duplicates of a transaction pushed only once', async () => {
+            jsonRpc = new JsonRpc(endpoint, { retryPolicy });
+
+            fetchMock.once(JSON.stringify(duplicateError), { status: 500 });
+
+            await expect(jsonRpc.push_transaction(pushArgs)).rejects.toBeInstanceOf(RpcError);
+        });
+
+        it('does not retry push_transactions', async () => {
+            jsonRpc = new JsonRpc(endpoint, { retryPolicy });
+
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+
+            await expect(jsonRpc.push_transactions([pushArgs])).rejects.toThrow('socket hang up');
+            expect(fetchMock.mock.calls.length).toEqual(1);
+        });
+    });
+
+    describe('middleware', () => {
+        it('adds headers before the request is sent', async () => {
+            jsonRpc.use({
+                beforeRequest: (context) => {
+                    context.headers['x-api-key'] = 'secret';
+                },
+            });
+
+            fetchMock.once(JSON.stringify({ data: '12345' }));
+
+            await jsonRpc.get_info();
+
+            expect(fetch).toBeCalledWith(endpoint + '/v1/chain/get_info', {
+                body: JSON.stringify({}),
+                method: 'POST',
+                headers: { 'x-api-key': 'secret' },
+            });
+        });
+
+        it('runs hooks in order with access to path, body, response and timing', async () => {
+            const calls: string[] = [];
+            jsonRpc = new JsonRpc(endpoint, {
+                middleware: [{
+                    beforeRequest: (context) => { calls.push(`first before ${context.path}`); },
+                    afterResponse: (context) => {
+                        calls.push(`first after ${context.response.status} ${typeof context.elapsed}`);
+                    },
+                }, {
+                    beforeRequest: async (context) => { calls.push(`second before ${context.body.account_name}`); },
+                    afterResponse: async (context) => { calls.push(`second after ${context.json.data}`); },
+                }],
+            });
+
+            fetchMock.once(JSON.stringify({ data: '12345' }));
+
+            await jsonRpc.get_abi('myaccountaaa');
+
+            expect(calls).toEqual([
+                'first before /v1/chain/get_abi',
+                'second before myaccountaaa',
+                'first after 200 number',
+                'second after 12345',
+            ]);
+        });
+
+        it('lets afterResponse rewrite the response', async () => {
+            jsonRpc.use({
+                afterResponse: (context) => {
+                    context.json = { ...context.json, rewritten: true };
+                },
+            });
+
+            fetchMock.once(JSON.stringify({ data: '12345' }));
+
+            expect(await jsonRpc.get_info()).toEqual({ data: '12345', rewritten: true });
+        });
+
+        it('calls onError for network errors and errors reported by the node', async () => {
+            const errors: string[] = [];
+            jsonRpc.use({
+                onError: (context) => { errors.push(`${context.path}: ${context.error.message}`); },
+            });
+
+            fetchMock.mockRejectOnce(new Error('socket hang up'));
+            fetchMock.once(JSON.stringify({ message: 'Not Found' }), { status: 404 });
+
+            await expect(jsonRpc.get_info()).rejects.toThrow('socket hang up');
+            await expect(jsonRpc.get_abi('myaccountaaa')).rejects.toThrow('Not Found');
+            expect(errors).toEqual(['/v1/chain/get_info: socket hang up', '/v1/chain/get_abi: Not Found']);
+        });
+    });
+
+    describe('response cache', () => {
+        beforeEach(() => {
+            jsonRpc = new JsonRpc(endpoint, { cache: {} });
+        });
+
+        it('serves repeated read-only calls from the cache', async () => {
+            const expReturn = { account_name: 'myaccountaaa', abi: { version: 'eosio::abi/1.1' } };
+
+            fetchMock.once(JSON.stringify(expReturn));
+
+            expect(await jsonRpc.get_abi('myaccountaaa')).toEqual(expReturn);
+            expect(await jsonRpc.get_abi('myaccountaaa')).toEqual(expReturn);
+            expect(fetchMock.mock.calls.length).toEqual(1);
+        });
+
+        it('refetches after invalidateAccount', async () => {
+            fetchMock.mockResponse(JSON.stringify({ account_name: 'myaccountaaa', code_hash: '00' }));
+
+            await jsonRpc.get_code_hash('myaccountaaa');
+            await jsonRpc.cache.invalidateAccount('myaccountaaa');
+            await jsonRpc.get_code_hash('myaccountaaa');
+
+            expect(fetchMock.mock.calls.length).toEqual(2);
+        });
+
+        it('caches irreversible blocks only', async () => {
+            fetchMock.once(JSON.stringify({ head_block_num: 120, last_irreversible_block_num: 100 }));
+            fetchMock.mockResponse((request: any) => {
+                const { block_num_or_id } = JSON.parse(request.body);
+                return Promise.resolve(JSON.stringify({ block_num: block_num_or_id }));
+            });
+
+            await jsonRpc.get_info();
+            await jsonRpc.get_block(100);
+            await jsonRpc.get_block(100);
+            await jsonRpc.get_block(110);
+            await jsonRpc.get_block(110);
+
+            expect(fetchMock.mock.calls.length).toEqual(4);
+        });
+
+        it('never caches table reads unless a rule is added', async () => {
+            const params = { code: 'eosio.token', scope: 'alice', table: 'accounts' };
+            fetchMock.mockResponse(JSON.stringify({ rows: [], more: false }));
+
+            await jsonRpc.get_table_rows(params);
+            await jsonRpc.get_table_rows(params);
+            expect(fetchMock.mock.calls.length).toEqual(2);
+
+            jsonRpc = new JsonRpc(endpoint, { cache: { rules: { '/v1/chain/get_table_rows': 1000 } } });
+            await jsonRpc.get_table_rows(params);
+            await jsonRpc.get_table_rows(params);
+            expect(fetchMock.mock.calls.length).toEqual(3);
+        });
+
+        it('uses a pluggable storage', async () => {
+            const store = new Map<string, string>();
+            const storage = {
+                get: async (key: string) => store.get(key),
+                set: async (key: string, value: string) => { store.set(key, value); },
+                delete: async (key: string) => { store.delete(key); },
+                clear: async () => store.clear(),
+            };
+            jsonRpc = new JsonRpc(endpoint, { cache: { storage } });
+
+            fetchMock.once(JSON.stringify({ 'SYS': { supply: '1.0000 SYS' } }));
+
+            await jsonRpc.get_currency_stats('eosio.token', 'SYS');
+
+            expect([...store.keys()]).toEqual([`${endpoint}:/v1/chain/get_currency_stats:{"code":"eosio.token","symbol":"SYS"}`]);
+        });
+
+        it('keeps the responses of different chains apart in a shared storage', async () => {
+            const storage = new LruCacheStorage();
+            const other = new JsonRpc('http://other-chain', { cache: { storage } });
+            jsonRpc = new JsonRpc(endpoint, { cache: { storage } });
+            const sameChain = new JsonRpc('http://other-node', { cache: { storage, namespace: endpoint } });
+
+            fetchMock.once(JSON.stringify({ account_name: 'myaccountaaa', code_hash: '00' }));
+            fetchMock.once(JSON.stringify({ account_name: 'myaccountaaa', code_hash: '11' }));
+
+            expect(await jsonRpc.get_code_hash('myaccountaaa')).toEqual({ account_name: 'myaccountaaa', code_hash: '00' });
+            expect(await other.get_code_hash('myaccountaaa')).toEqual({ account_name: 'myaccountaaa', code_hash: '11' });
+            expect(await sameChain.get_code_hash('myaccountaaa')).toEqual({ account_name: 'myaccountaaa', code_hash: '00' });
+            expect(fetchMock.mock.calls.length).toEqual(2);
+        });
+
+        it('runs no middleware for cached responses', async () => {
+            const afterResponse = jest.fn();
+            jsonRpc.use({ afterResponse });
+
+            fetchMock.once(JSON.stringify({ account_name: 'myaccountaaa', code_hash: '00' }));
+
+            await jsonRpc.get_code_hash('myaccountaaa');
+            await jsonRpc.get_code_hash('myaccountaaa');
+
+            expect(afterResponse).toHaveBeenCalledTimes(1);
+        });
+
+        it('evicts the least recently used entry', () => {
+            const storage = new LruCacheStorage(2);
+
+            storage.set('a', '1', Infinity);
+            storage.set('b', '2', Infinity);
+            storage.get('a');
+            storage.set('c', '3', Infinity);
+
+            expect(storage.get('a')).toEqual('1');
+            expect(storage.get('b')).toBeUndefined();
+            expect(storage.get('c')).toEqual('3');
+        });
+    });
+
+    describe('pagination', () => {
+        const page = (rows: any[], nextKey = '') => JSON.stringify({ rows, more: !!nextKey, next_key: nextKey });
+        const requestBody = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body);
+        const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+            const items: T[] = [];
+            for await (const item of iterable) {
+                items.push(item);
+            }
+            return items;
+        };
+
+        it('follows next_key through every page', async () => {
+            fetchMock.once(page([{ id: 1 }, { id: 2 }], '3')).once(page([{ id: 3 }]));
+
+            const rows = await collect(jsonRpc.iterateTableRows({
+                code: 'eosio.token', scope: 'bob', table: 'accounts', pageSize: 2, upper_bound: '9',
+            }));
+
+            expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+            expect(requestBody(0)).toMatchObject({ lower_bound: '', upper_bound: '9', limit: 2 });
+            expect(requestBody(1)).toMatchObject({ lower_bound: '3', upper_bound: '9', limit: 2 });
+        });
+
+        it('moves the upper bound when reading in reverse', async () => {
+            fetchMock.once(page([{ id: 3 }], '2')).once(page([{ id: 2 }]));
+
+            await collect(jsonRpc.iterateTableRows({
+                code: 'eosio.token', scope: 'bob', table: 'accounts', reverse: true, lower_bound: '1',
+            }));
+
+            expect(requestBody(1)).toMatchObject({ lower_bound: '1', upper_bound: '2', reverse: true });
+        });
+
+        it('stops after limit rows', async () => {
+            fetchMock.once(page([{ id: 1 }, { id: 2 }], '3')).once(page([{ id: 3 }, { id: 4 }], '5'));
+
+            const rows = await collect(jsonRpc.iterateTableRows({
+                code: 'eosio.token', scope: 'bob', table: 'accounts', limit: 3, pageSize: 2,
+            }));
+
+            expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            expect(requestBody(1).limit).toBe(1);
+        });
+
+        it('stops fetching when the consumer breaks out', async () => {
+            fetchMock.once(page([{ id: 1 }, { id: 2 }], '3')).once(page([{ id: 3 }]));
+
+            for await (const row of jsonRpc.iterateTableRows({ code: 'eosio.token', scope: 'bob', table: 'accounts' })) {
+                expect(row).toEqual({ id: 1 });
+                break;
+            }
+
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('lets several consumers iterate the same rows', async () => {
+            fetchMock.mockResponse(async (request: any) => {
+                const { lower_bound } = JSON.parse(await request.text());
+                return lower_bound ? page([{ id: 2 }]) : page([{ id: 1 }], '2');
+            });
+            const iterable = jsonRpc.iterateTableRows({ code: 'eosio.token', scope: 'bob', table: 'accounts' });
+
+            const [first, second] = await Promise.all([collect(iterable), collect(iterable)]);
+
+            expect(first).toEqual([{ id: 1 }, { id: 2 }]);
+            expect(second).toEqual(first);
+        });
+
+        it('rejects when more rows are reported without next_key', async () => {
+            fetchMock.once(JSON.stringify({ rows: [{ id: 1 }], more: true, next_key: '' }));
+
+            await expect(collect(jsonRpc.iterateTableRows({ code: 'eosio.token', scope: 'bob', table: 'accounts' })))
+                .rejects.toThrow('More rows are available but the node did not return next_key');
+        });
+
+        it('follows next_key through kv table pages', async () => {
+            fetchMock.once(page([{ id: 1 }], 'a2')).once(page([{ id: 2 }]));
+
+            const rows = await collect(jsonRpc.iterateKvTableRows({
+                code: 'kvaddrbook', table: 'kvaddrbook', index_name: 'accname', lower_bound: 'a0',
+            }));
+
+            expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+            expect(requestBody(1)).toMatchObject({ index_name: 'accname', lower_bound: 'a2' });
+        });
+
+        it('follows more through scopes', async () => {
+            const scope = (name: string) => ({ code: 'eosio.token', scope: name, table: 'accounts', payer: name, count: 1 });
+            fetchMock
+                .once(JSON.stringify({ rows: [scope('alice')], more: 'bob' }))
+                .once(JSON.stringify({ rows: [scope('bob')], more: '' }));
+
+            const scopes = await collect(jsonRpc.iterateScopes({ code: 'eosio.token', table: 'accounts' }));
+
+            expect(scopes.map((row) => row.scope)).toEqual(['alice', 'bob']);
+            expect(requestBody(1)).toMatchObject({ lower_bound: 'bob', table: 'accounts' });
+        });
+    });
 });
@@ -71,6 +71,22 @@ describe('JsSignatureProvider', () => {
             expect(actualPublicKeys).toEqual(k1FormatPublicKeys);
         });
 
+        it('holds elliptic key pairs in keys and signs with changes to them', async () => {
+            const provider = new JsSignatureProvider([privateKeys[0]]);
+            const keyPair = provider.keys.get(k1FormatPublicKeys[0]);
+            expect(PrivateKey.fromElliptic(keyPair, KeyType.k1).toString()).toEqual(PrivateKey.fromString(privateKeys[0]).toString());
+
+            provider.keys.set(k1FormatPublicKeys[0], PrivateKey.fromString(privateKeys[1]).toElliptic());
+            const chainId = '12345';
+            const serializedTransaction = new Uint8Array([0, 16, 32, 128, 255]);
+            const signOutput = await provider.sign(
+                { chainId, requiredKeys: [k1FormatPublicKeys[0]], serializedTransaction } as SignatureProviderArgs
+            );
+            const digest = digestFromSerializedData(chainId, serializedTransaction);
+            expect(digest).toHaveLength(32);
+            expect(Signature.fromString(signOutput.signatures[0]).recover(digest, false).toString()).toEqual(k1FormatPublicKeys[1]);
+        });
+
         it('signs a transaction', async () => {
             const provider = new JsSignatureProvider(privateKeys);
             const chainId = '12345';
@@ -0,0 +1,102 @@
+const { createCipheriv, pbkdf2Sync, randomBytes } = require('crypto');
+import { Aes, aesGcmDecrypt, aesGcmEncrypt, pbkdf2 } from '../eosjs-crypto';
+import { JsSignatureProvider } from '../eosjs-jssig';
+import { PrivateKey } from '../eosjs-key-conversions';
+import { Keystore, KeystoreSignatureProvider } from '../eosjs-keystore';
+
+const toHex = (data: Uint8Array) => Buffer.from(data).toString('hex');
+
+describe('keystore ciphers', () => {
+    it('AES blocks match node', () => {
+        for (const keyLength of [16, 24, 32]) {
+            const key = randomBytes(keyLength);
+            const block = randomBytes(16);
+            const cipher = createCipheriv(`aes-${keyLength * 8}-ecb`, key, null).setAutoPadding(false);
+            const aes = new Aes(new Uint8Array(key));
+            const encrypted = aes.encryptBlock(new Uint8Array(block));
+            expect(toHex(encrypted)).toEqual(cipher.update(block).toString('hex'));
+            expect(toHex(aes.decryptBlock(encrypted))).toEqual(block.toString('hex'));
+        }
+    });
+
+    it('AES-GCM matches node', () => {
+        for (const [ivLength, length] of [[12, 0], [12, 33], [16, 64]]) {
+            const key = randomBytes(32);
+            const iv = randomBytes(ivLength);
+            const plaintext = randomBytes(length);
+            const aad = randomBytes(20);
+            const cipher = createCipheriv('aes-256-gcm', key, iv);
+            cipher.setAAD(aad);
+            const expected = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+            const { ciphertext, tag } = aesGcmEncrypt(key, iv, plaintext, aad);
+            expect(toHex(ciphertext)).toEqual(expected.toString('hex'));
+            expect(toHex(tag)).toEqual(cipher.getAuthTag().toString('hex'));
+            expect(toHex(aesGcmDecrypt(key, iv, ciphertext, tag, aad))).toEqual(plaintext.toString('hex'));
+            tag[0] ^= 1;
+            expect(() => aesGcmDecrypt(key, iv, ciphertext, tag, aad)).toThrow('AES-GCM authentication failed');
+        }
+    });
+
+    it('PBKDF2 matches node', () => {
+        const password = randomBytes(10);
+        const salt = randomBytes(16);
+        expect(toHex(pbkdf2('sha256', password, salt, 100, 40)))
+            .toEqual(pbkdf2Sync(password, salt, 100, 40, 'sha256').toString('hex'));
+    });
+});
+
+describe('keystores', () => {
+    const k1 = PrivateKey.fromString('5Juww5SS6aLWxopXBAWzwqrwadiZKz7XpKAiktXTKcfBGi1DWg8');
+    const r1 = PrivateKey.fromString('PVT_R1_GrfEfbv5at9kbeHcGagQmvbFLdm6jqEpgE1wsGbrfbZNjpVgT');
+    const options = { iterations: 10, metadata: { label: 'test' } };
+
+    it('encrypts and decrypts keys', () => {
+        for (const key of [k1, r1]) {
+            const keystore: Keystore = JSON.parse(JSON.stringify(key.encrypt('hunter2', options)));
+            expect(keystore.publicKey).toEqual(key.getPublicKey().toString());
+            expect(keystore.metadata).toEqual({ label: 'test' });
+            expect(JSON.stringify(keystore)).not.toContain(toHex(key.toElliptic().getPrivate().toArrayLike(Buffer, 'be', 32)));
+            expect(PrivateKey.decrypt(keystore, 'hunter2').toString()).toEqual(key.toString());
+        }
+    });
+
+    it('rejects wrong passwords and altered keystores', () => {
+        const keystore = k1.encrypt('hunter2', options);
+        expect(() => PrivateKey.decrypt(keystore, 'hunter3')).toThrow('Wrong password or corrupted keystore');
+        const otherPublicKey = PrivateKey.fromString('5JnHjSFwe4r7xyqAUAaVs51G7HmzE86DWGa3VAA5VvQriGYnSUr').getPublicKey();
+        expect(() => PrivateKey.decrypt({ ...keystore, publicKey: otherPublicKey.toString() }, 'hunter2'))
+            .toThrow('Wrong password or corrupted keystore');
+        expect(() => PrivateKey.decrypt({ ...keystore, version: 2 }, 'hunter2')).toThrow('Unsupported keystore version 2');
+    });
+
+    it('signs with keys unlocked on demand and locks them again', async () => {
+        jest.useFakeTimers();
+        const getPassword = jest.fn(async () => 'hunter2');
+        const publicKey = k1.getPublicKey().toString();
+        const provider = new KeystoreSignatureProvider([k1.encrypt('hunter2', options)], { getPassword, autoLockTimeout: 1000 });
+        const args = {
+            chainId: '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca',
+            requiredKeys: [publicKey],
+            serializedTransaction: new Uint8Array([1, 2, 3]),
+            abis: [] as any[],
+        };
+        expect(await provider.getAvailableKeys()).toEqual([publicKey]);
+        expect(provider.isUnlocked(publicKey)).toBe(false);
+        const signed = await provider.sign(args);
+        const expected = await new JsSignatureProvider([k1.toString()]).sign(args);
+        expect(signed.signatures).toEqual(expected.signatures);
+        expect(provider.isUnlocked(publicKey)).toBe(true);
+        await provider.sign(args);
+        expect(getPassword).toHaveBeenCalledTimes(1);
+        jest.advanceTimersByTime(1000);
+        expect(provider.isUnlocked(publicKey)).toBe(false);
+
+        const lockedProvider = new KeystoreSignatureProvider([k1.encrypt('hunter2', options)]);
+        await expect(lockedProvider.sign(args)).rejects.toThrow(`Keystore of ${publicKey} is locked`);
+        lockedProvider.unlock(publicKey, 'hunter2');
+        expect(lockedProvider.isUnlocked(publicKey)).toBe(true);
+        lockedProvider.lock();
+        expect(lockedProvider.isUnlocked(publicKey)).toBe(false);
+        jest.useRealTimers();
+    });
+});
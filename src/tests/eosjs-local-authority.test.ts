@@ -0,0 +1,203 @@
+import { JsonRpc } from '../eosjs-jsonrpc';
+import { LocalAuthorityProvider } from '../eosjs-local-authority';
+
+const [key1, key2, key3] = [
+    'PUB_K1_7tgwU6E7pAUQJgqEJt66Yi8cWvanTUW8ZfBjeXeJBQvhYTBFvY',
+    'PUB_K1_8VaY5CiTexYqgQZyPTJkc3qvWuZUi12QrZL9ssjqW2es7e7bRJ',
+    'PUB_K1_7VGhqctkKprW1VUj19DZZiiZLX3YcJqUJCuEcahJmUCw9RT8v2',
+];
+
+const permission = (perm_name: string, parent: string, required_auth: any, linked_actions: any[] = []) => ({
+    perm_name,
+    parent,
+    required_auth: { keys: [], accounts: [], waits: [], ...required_auth },
+    linked_actions,
+});
+
+const accounts: { [name: string]: any[] } = {
+    alice: [
+        permission('owner', '', { threshold: 1, keys: [{ key: key3, weight: 1 }] }),
+        permission('active', 'owner', {
+            threshold: 2,
+            keys: [{ key: 'EOS7tgwU6E7pAUQJgqEJt66Yi8cWvanTUW8ZfBjeXeJBQvhTU9ypi', weight: 1 }],
+            accounts: [{ permission: { actor: 'bob', permission: 'active' }, weight: 1 }],
+            waits: [{ wait_sec: 3600, weight: 1 }],
+        }),
+        permission('transfer', 'active', { threshold: 1, keys: [{ key: key2, weight: 1 }] }, [
+            { account: 'eosio.token', action: 'transfer' },
+        ]),
+        permission('game', 'active', { threshold: 1, keys: [{ key: key1, weight: 1 }] }, [{ account: 'game' }]),
+    ],
+    bob: [
+        permission('owner', '', { threshold: 1, keys: [{ key: key3, weight: 1 }] }),
+        permission('active', 'owner', { threshold: 1, keys: [{ key: key2, weight: 1 }, { key: key1, weight: 1 }] }),
+    ],
+};
+
+const transaction = (actions: [string, string, string, string][], delay_sec = 0) => ({
+    delay_sec,
+    actions: actions.map(([account, name, actor, perm]) => ({
+        account, name, authorization: [{ actor, permission: perm }], data: '',
+    })),
+});
+
+describe('LocalAuthorityProvider', () => {
+    let rpc: JsonRpc;
+    let provider: LocalAuthorityProvider;
+
+    beforeEach(() => {
+        rpc = new JsonRpc('');
+        rpc.get_account = jest.fn(async (name: string) => ({ account_name: name, permissions: accounts[name] } as any));
+        provider = new LocalAuthorityProvider(rpc);
+    });
+
+    it('returns the keys satisfying nested account authorities', async () => {
+        const keys = await provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'active']]),
+            availableKeys: [key1, key2],
+        });
+
+        expect(keys).toEqual([key1]);
+    });
+
+    it('explains which path satisfied each authorization', async () => {
+        const [explanation] = await provider.explainRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'active']]),
+            availableKeys: [key2, key1],
+        });
+
+        expect(explanation).toEqual({
+            action: 'eosio.token::transfer',
+            authorization: { actor: 'alice', permission: 'active' },
+            requiredPermission: 'transfer',
+            keys: [key1],
+            path: {
+                permission: 'alice@active',
+                threshold: 2,
+                keys: [{ key: key1, weight: 1 }],
+                accounts: [{
+                    weight: 1,
+                    path: { permission: 'bob@active', threshold: 1, keys: [{ key: key1, weight: 1 }], accounts: [], waits: [] },
+                }],
+                waits: [],
+            },
+        });
+    });
+
+    it('counts waits no longer than the transaction delay', async () => {
+        const keys = await provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'active']], 3600),
+            availableKeys: [key2],
+        });
+
+        expect(keys).toEqual([key2]);
+    });
+
+    it('honours linkauth mappings for actions and whole contracts', async () => {
+        expect(await provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'transfer'], ['game', 'play', 'alice', 'game']]),
+            availableKeys: [key1, key2, key3],
+        })).toEqual([key2, key1]);
+
+        await expect(provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'game']]),
+            availableKeys: [key1],
+        })).rejects.toThrow('eosio.token::transfer requires alice@transfer, which alice@game does not satisfy');
+
+        await expect(provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'issue', 'alice', 'transfer']]),
+            availableKeys: [key2],
+        })).rejects.toThrow('eosio.token::issue requires alice@active, which alice@transfer does not satisfy');
+    });
+
+    it('rejects authorizations the keys cannot satisfy', async () => {
+        await expect(provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'active']]),
+            availableKeys: [key3],
+        })).rejects.toThrow('Keys do not satisfy alice@active for eosio.token::transfer');
+
+        await expect(provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'unknown']]),
+            availableKeys: [key1],
+        })).rejects.toThrow('Unknown permission alice@unknown');
+    });
+
+    it('asks the node when get_account does not report linked actions only if allowed', async () => {
+        const legacyPermissions = accounts.bob.map(({ linked_actions, ...rest }) => rest);
+        rpc.get_account = jest.fn(async (name: string) => ({ account_name: name, permissions: legacyPermissions } as any));
+        rpc.getRequiredKeys = jest.fn(async () => [key2]);
+        const args = { transaction: transaction([['eosio.token', 'transfer', 'bob', 'active']]), availableKeys: [key1, key2] };
+
+        await expect(provider.getRequiredKeys(args))
+            .rejects.toThrow('Cannot resolve linked permission of eosio.token::transfer for bob');
+        await expect(provider.explainAuthorization('eosio.token', 'transfer', { actor: 'bob', permission: 'active' }, [key2]))
+            .rejects.toThrow('Cannot resolve linked permission of eosio.token::transfer for bob');
+        expect(rpc.getRequiredKeys).not.toHaveBeenCalled();
+
+        expect(await new LocalAuthorityProvider(rpc, { fallbackToNode: true }).getRequiredKeys(args)).toEqual([key2]);
+        expect(rpc.getRequiredKeys).toHaveBeenCalledWith(args);
+    });
+
+    it('reads links from the link table when get_account does not report them', async () => {
+        const legacyPermissions = accounts.alice.map(({ linked_actions, ...rest }) => rest);
+        rpc.get_account = jest.fn(async (name: string) => ({ account_name: name, permissions: legacyPermissions } as any));
+        rpc.get_table_rows = jest.fn(async () => ({
+            rows: [
+                { code: 'eosio.token', message_type: 'transfer', required_permission: 'transfer' },
+                { code: 'game', message_type: '', required_permission: 'game' },
+            ],
+            more: false,
+        } as any));
+        provider = new LocalAuthorityProvider(rpc, { linkTable: { code: 'links', table: 'links' } });
+
+        expect(await provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'transfer'], ['game', 'play', 'alice', 'game']]),
+            availableKeys: [key1, key2, key3],
+        })).toEqual([key2, key1]);
+        expect(rpc.get_table_rows).toHaveBeenCalledWith(
+            expect.objectContaining({ json: true, code: 'links', scope: 'alice', table: 'links' }));
+        await expect(provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'alice', 'game']]),
+            availableKeys: [key1],
+        })).rejects.toThrow('eosio.token::transfer requires alice@transfer, which alice@game does not satisfy');
+    });
+
+    it('accepts any permission of the actor for actions linked to eosio.any', async () => {
+        accounts.carol = [
+            permission('owner', '', { threshold: 1, keys: [{ key: key3, weight: 1 }] }),
+            permission('active', 'owner', { threshold: 1, keys: [{ key: key2, weight: 1 }] }),
+            permission('game', 'active', { threshold: 1, keys: [{ key: key1, weight: 1 }] }),
+        ];
+        rpc.get_account = jest.fn(async (name: string) => ({
+            account_name: name, permissions: accounts[name].map(({ linked_actions, ...rest }) => rest),
+        } as any));
+        rpc.get_table_rows = jest.fn(async () => ({
+            rows: [{ code: 'eosio.token', message_type: 'transfer', required_permission: 'eosio.any' }],
+            more: false,
+        } as any));
+        provider = new LocalAuthorityProvider(rpc, { linkTable: { code: 'links', table: 'links' } });
+
+        const [explanation] = await provider.explainRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'carol', 'game']]),
+            availableKeys: [key1, key2],
+        });
+        expect(explanation.requiredPermission).toEqual('eosio.any');
+        expect(explanation.keys).toEqual([key1]);
+        expect(await provider.getRequiredKeys({
+            transaction: transaction([['eosio.token', 'transfer', 'carol', 'owner']]),
+            availableKeys: [key3],
+        })).toEqual([key3]);
+        delete accounts.carol;
+    });
+
+    it('caches permissions until they expire or are invalidated', async () => {
+        const args = { transaction: transaction([['eosio.token', 'transfer', 'bob', 'active']]), availableKeys: [key1] };
+        await provider.getRequiredKeys(args);
+        await provider.getRequiredKeys(args);
+        expect(rpc.get_account).toHaveBeenCalledTimes(1);
+
+        provider.invalidate('bob');
+        await provider.getRequiredKeys(args);
+        expect(rpc.get_account).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,72 @@
+const { createCipheriv, randomBytes } = require('crypto');
+const ecc = require('eosjs-ecc');
+import { aesCbcDecrypt, aesCbcEncrypt } from '../eosjs-crypto';
+import { PrivateKey } from '../eosjs-key-conversions';
+import { decryptMessage, encryptMessage, uniqueNonce } from '../eosjs-message-encryption';
+
+describe('message encryption', () => {
+    const alice = PrivateKey.fromString('5Juww5SS6aLWxopXBAWzwqrwadiZKz7XpKAiktXTKcfBGi1DWg8');
+    const bob = PrivateKey.fromString('5JnHjSFwe4r7xyqAUAaVs51G7HmzE86DWGa3VAA5VvQriGYnSUr');
+    const carol = PrivateKey.fromString('5K4XZH5XR2By7Q5KTcZnPAmUMU5yjUNBdoKzzXyrLfmiEZJqoKE');
+
+    it('AES-CBC matches node', () => {
+        for (const length of [0, 15, 16, 40]) {
+            const key = randomBytes(32);
+            const iv = randomBytes(16);
+            const plaintext = randomBytes(length);
+            const cipher = createCipheriv('aes-256-cbc', key, iv);
+            const expected = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+            const ciphertext = aesCbcEncrypt(key, iv, plaintext);
+            expect(Buffer.from(ciphertext)).toEqual(expected);
+            expect(Buffer.from(aesCbcDecrypt(key, iv, ciphertext))).toEqual(plaintext);
+        }
+    });
+
+    it('derives the same shared secret on both sides', () => {
+        const aliceR1 = PrivateKey.fromString('PVT_R1_GrfEfbv5at9kbeHcGagQmvbFLdm6jqEpgE1wsGbrfbZNjpVgT');
+        const bobR1 = PrivateKey.fromString('PVT_R1_wCpPsaY9o8NU9ZsuwaYVQUDkCfj1aWJZGVcmMM6XyYHJVqvqp');
+        for (const [a, b] of [[alice, bob], [aliceR1, bobR1]]) {
+            const secret = a.getSharedSecret(b.getPublicKey());
+            expect(secret.length).toEqual(64);
+            expect(b.getSharedSecret(a.getPublicKey())).toEqual(secret);
+            expect(a.getPublicKey().getSharedSecret(b)).toEqual(secret);
+        }
+        expect(() => alice.getSharedSecret(bobR1.getPublicKey())).toThrow('Shared secrets need keys of the same type');
+    });
+
+    it('encrypts messages only the two keys decrypt', () => {
+        const encrypted = encryptMessage(alice, bob.getPublicKey(), 'encrypted memo ✓');
+        expect(new TextDecoder().decode(decryptMessage(bob, alice.getPublicKey(), encrypted))).toEqual('encrypted memo ✓');
+        expect(new TextDecoder().decode(decryptMessage(alice, bob.getPublicKey(), encrypted))).toEqual('encrypted memo ✓');
+        expect(() => decryptMessage(carol, alice.getPublicKey(), encrypted))
+            .toThrow('Message was not encrypted with the shared secret of these keys');
+        expect(() => encryptMessage(alice, bob.getPublicKey(), 'memo', '18446744073709551616')).toThrow('Invalid nonce');
+    });
+
+    it('decrypts a memo encrypted by eosjs-ecc and encrypts it to the same bytes', () => {
+        // ecc.Aes.encrypt(alice, bob's public key, Buffer.from('encrypted memo ✓'), '1234567890123456789')
+        const memo = {
+            nonce: '1234567890123456789',
+            message: new Uint8Array(Buffer.from('3e03b69aa3367106ff0a4a9b23d102d2ad90b91d70dc0830969dd5ab337dfc6d', 'hex')),
+            checksum: 3918757572,
+        };
+        expect(new TextDecoder().decode(decryptMessage(bob, alice.getPublicKey(), memo))).toEqual('encrypted memo ✓');
+        expect(encryptMessage(alice, bob.getPublicKey(), 'encrypted memo ✓', memo.nonce)).toEqual(memo);
+    });
+
+    it('exchanges memos with eosjs-ecc both ways', () => {
+        const fromEcc = ecc.Aes.encrypt(alice.toLegacyString(), bob.getPublicKey().toLegacyString(), Buffer.from('from ecc'));
+        expect(new TextDecoder().decode(decryptMessage(bob, alice.getPublicKey(), {
+            nonce: fromEcc.nonce.toString(), message: new Uint8Array(fromEcc.message), checksum: fromEcc.checksum,
+        }))).toEqual('from ecc');
+
+        const toEcc = encryptMessage(alice, bob.getPublicKey(), 'to ecc');
+        expect(ecc.Aes.decrypt(bob.toLegacyString(), alice.getPublicKey().toLegacyString(), toEcc.nonce,
+            Buffer.from(toEcc.message), toEcc.checksum).toString()).toEqual('to ecc');
+    });
+
+    it('creates unique nonces', () => {
+        const nonces = new Set([uniqueNonce(), uniqueNonce(), uniqueNonce()]);
+        expect(nonces.size).toEqual(3);
+    });
+});
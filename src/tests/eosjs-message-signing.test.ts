@@ -0,0 +1,99 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { PrivateKey } from '../eosjs-key-conversions';
+import {
+    encodeMessageType,
+    ExpectedMessageDomain,
+    hashTypedMessage,
+    messageSigningPrefix,
+    recoverTypedMessage,
+    TypedMessage,
+    verifyTypedMessage,
+} from '../eosjs-message-signing';
+
+const options = { textEncoder: new TextEncoder() as any, textDecoder: new TextDecoder() as any };
+const chainId = '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca';
+
+const login: TypedMessage = {
+    domain: { name: 'example dapp', version: '1', chainId, contract: 'exampledapp1' },
+    types: [
+        { name: 'permission', base: '', fields: [{ name: 'actor', type: 'name' }, { name: 'permission', type: 'name' }] },
+        {
+            name: 'login',
+            base: '',
+            fields: [
+                { name: 'signer', type: 'permission' },
+                { name: 'nonce', type: 'string' },
+                { name: 'expires', type: 'time_point_sec' },
+            ],
+        },
+        { name: 'unused', base: '', fields: [{ name: 'value', type: 'uint8' }] },
+    ],
+    primaryType: 'login',
+    message: { signer: { actor: 'alice', permission: 'active' }, nonce: 'abc123', expires: '2026-01-01T00:00:00' },
+};
+
+const expectedDomain: ExpectedMessageDomain = { name: 'example dapp', chainId };
+
+describe('message signing', () => {
+    const privateKeys = [
+        PrivateKey.fromString('5Juww5SS6aLWxopXBAWzwqrwadiZKz7XpKAiktXTKcfBGi1DWg8'),
+        PrivateKey.fromString('PVT_R1_GrfEfbv5at9kbeHcGagQmvbFLdm6jqEpgE1wsGbrfbZNjpVgT'),
+    ];
+
+    it('encodes the types a message uses', () => {
+        expect(encodeMessageType(login.types, 'login')).toEqual(
+            'login:(permission signer,string nonce,time_point_sec expires)permission:(name actor,name permission)');
+    });
+
+    it('signs, verifies and recovers typed messages', () => {
+        for (const privateKey of privateKeys) {
+            const publicKey = privateKey.getPublicKey();
+            const signature = privateKey.signTypedMessage(login, options);
+            expect(signature.verifyTypedMessage(login, publicKey, options)).toBe(true);
+            expect(signature.recoverTypedMessage(login, options).toString()).toEqual(publicKey.toString());
+            expect(recoverTypedMessage(login, signature.toString(), options)).toEqual(publicKey.toString());
+            expect(verifyTypedMessage(login, signature.toString(), publicKey.toString(), expectedDomain, options)).toBe(true);
+        }
+        const legacySignature = privateKeys[0].signTypedMessage(login, options).toString();
+        expect(verifyTypedMessage(login, legacySignature, privateKeys[0].getPublicKey().toLegacyString(), expectedDomain, options)).toBe(true);
+    });
+
+    it('rejects messages for other domains and altered messages', () => {
+        const publicKey = privateKeys[0].getPublicKey().toString();
+        const signature = privateKeys[0].signTypedMessage(login, options).toString();
+        const otherChainId = 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906';
+        expect(verifyTypedMessage(login, signature, publicKey, { ...expectedDomain, chainId: otherChainId }, options)).toBe(false);
+        expect(verifyTypedMessage(login, signature, publicKey, { ...expectedDomain, name: 'other dapp' }, options)).toBe(false);
+        expect(verifyTypedMessage({ ...login, domain: { ...login.domain, chainId: otherChainId } }, signature, publicKey, expectedDomain, options))
+            .toBe(false);
+        expect(verifyTypedMessage({ ...login, message: { ...login.message, nonce: 'abc124' } }, signature, publicKey, expectedDomain, options))
+            .toBe(false);
+        expect(verifyTypedMessage(login, signature, privateKeys[1].getPublicKey().toString(), expectedDomain, options)).toBe(false);
+    });
+
+    it('requires the name and chainId of the expected domain', () => {
+        const publicKey = privateKeys[0].getPublicKey().toString();
+        const signature = privateKeys[0].signTypedMessage(login, options).toString();
+        const error = 'expectedDomain must include the name and chainId of the domain';
+        expect(() => verifyTypedMessage(login, signature, publicKey, { name: 'example dapp' } as any, options)).toThrow(error);
+        expect(() => verifyTypedMessage(login, signature, publicKey, { chainId } as any, options)).toThrow(error);
+        expect(() => verifyTypedMessage(login, signature, publicKey, undefined, options)).toThrow(error);
+    });
+
+    it('binds the digest to the types and domain', () => {
+        const digest = hashTypedMessage(login, options);
+        expect(digest.length).toEqual(32);
+        expect(messageSigningPrefix).toEqual(new Uint8Array([0x19, 0x01]));
+        const renamedField = {
+            ...login,
+            types: login.types.map((struct) => struct.name !== 'login' ? struct : {
+                ...struct, fields: struct.fields.map((field) => field.name !== 'nonce' ? field : { ...field, name: 'challenge' }),
+            }),
+            message: { ...login.message, challenge: login.message.nonce },
+        };
+        expect(hashTypedMessage(renamedField, options)).not.toEqual(digest);
+        expect(hashTypedMessage({ ...login, domain: { ...login.domain, contract: undefined } }, options)).not.toEqual(digest);
+        expect(() => hashTypedMessage({ ...login, types: [{ name: 'eosio_message_domain', base: '', fields: [] }] }, options))
+            .toThrow('eosio_message_domain is reserved for the domain of messages');
+    });
+});
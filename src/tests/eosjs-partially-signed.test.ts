@@ -0,0 +1,121 @@
+const { TextEncoder, TextDecoder } = require('util');
+import { Api } from '../eosjs-api';
+import { JsonRpc } from '../eosjs-jsonrpc';
+import { JsSignatureProvider } from '../eosjs-jssig';
+import { PrivateKey } from '../eosjs-key-conversions';
+import { PartiallySignedTransaction } from '../eosjs-partially-signed';
+
+const privateKeys = [
+    '5Juww5SS6aLWxopXBAWzwqrwadiZKz7XpKAiktXTKcfBGi1DWg8',
+    '5JnHjSFwe4r7xyqAUAaVs51G7HmzE86DWGa3VAA5VvQriGYnSUr',
+];
+const [aliceKey, bobKey] = privateKeys.map((key) => PrivateKey.fromString(key).getPublicKey().toString());
+const chainId = '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca';
+
+describe('PartiallySignedTransaction', () => {
+    let api: Api;
+    let unsigned: PartiallySignedTransaction;
+
+    beforeEach(() => {
+        api = new Api({
+            rpc: new JsonRpc(''),
+            signatureProvider: new JsSignatureProvider([]),
+            chainId,
+            textEncoder: new TextEncoder(),
+            textDecoder: new TextDecoder(),
+        });
+        const serializedTransaction = api.serializeTransaction({
+            expiration: '2018-09-04T18:42:49',
+            ref_block_num: 38096,
+            ref_block_prefix: 505360011,
+            actions: ['alice', 'bob'].map((actor) => ({
+                account: 'eosio.null',
+                name: 'nonce',
+                authorization: [{ actor, permission: 'active' }],
+                data: '',
+            })),
+            context_free_actions: [],
+            transaction_extensions: [],
+        });
+        unsigned = new PartiallySignedTransaction(chainId, serializedTransaction, undefined, [], [aliceKey, bobKey]);
+    });
+
+    const copy = (transaction: PartiallySignedTransaction) =>
+        PartiallySignedTransaction.fromJSON(JSON.parse(JSON.stringify(transaction)));
+
+    it('serializes the transaction without signing it', async () => {
+        api.transact = jest.fn(async () => unsigned.toPushTransactionArgs());
+
+        const created = await PartiallySignedTransaction.create(api, { actions: [] }, [aliceKey, bobKey], {
+            blocksBehind: 3,
+            expireSeconds: 30,
+        });
+
+        expect(api.transact).toHaveBeenCalledWith({ actions: [] }, {
+            blocksBehind: 3,
+            expireSeconds: 30,
+            sign: false,
+            broadcast: false,
+        });
+        expect(created.toJSON()).toEqual(unsigned.toJSON());
+        expect(created.missingKeys()).toEqual([aliceKey, bobKey]);
+    });
+
+    it('collects and merges the signatures of each party', async () => {
+        const alice = await copy(unsigned).sign(new JsSignatureProvider([privateKeys[0]]));
+        const bob = await copy(unsigned).sign(new JsSignatureProvider([privateKeys[1]]));
+        expect(alice.signingKeys()).toEqual([aliceKey]);
+        expect(bob.missingKeys()).toEqual([aliceKey]);
+
+        const merged = copy(unsigned).merge(alice, bob, alice);
+
+        expect(merged.signatures).toEqual([...alice.signatures, ...bob.signatures]);
+        expect(merged.isComplete()).toBe(true);
+    });
+
+    it('signs only with required keys which did not sign yet', async () => {
+        const provider = new JsSignatureProvider(privateKeys);
+        const sign = jest.spyOn(provider, 'sign');
+        unsigned.requiredKeys = [aliceKey];
+
+        await unsigned.sign(provider);
+        await unsigned.sign(provider);
+
+        expect(sign).toHaveBeenCalledTimes(1);
+        expect(sign.mock.calls[0][0].requiredKeys).toEqual([aliceKey]);
+        expect(unsigned.signingKeys()).toEqual([aliceKey]);
+    });
+
+    it('refuses signatures by keys which are not required', async () => {
+        unsigned.requiredKeys = [aliceKey];
+        const alice = await copy(unsigned).sign(new JsSignatureProvider([privateKeys[0]]));
+        const { signatures } = await new JsSignatureProvider([privateKeys[1]]).sign({
+            chainId, requiredKeys: [bobKey], serializedTransaction: unsigned.serializedTransaction, abis: [],
+        });
+
+        expect(() => unsigned.addSignatures([...alice.signatures, ...signatures]))
+            .toThrow(`Signature by ${bobKey}, which is not a required key`);
+        expect(unsigned.signatures).toEqual([]);
+    });
+
+    it('refuses to merge another transaction', () => {
+        const other = new PartiallySignedTransaction('ff'.repeat(32), unsigned.serializedTransaction);
+
+        expect(() => unsigned.merge(other)).toThrow('Cannot merge signatures of a different transaction');
+    });
+
+    it('broadcasts only once complete', async () => {
+        api.pushSignedTransaction = jest.fn(async () => ({ transaction_id: 'id' } as any));
+        await unsigned.sign(new JsSignatureProvider([privateKeys[0]]));
+
+        await expect(unsigned.broadcast(api)).rejects.toThrow(`Missing signatures of ${bobKey}`);
+
+        await unsigned.sign(new JsSignatureProvider([privateKeys[1]]));
+        await unsigned.broadcast(api);
+        expect(api.pushSignedTransaction).toHaveBeenCalledWith({
+            signatures: unsigned.signatures,
+            serializedTransaction: unsigned.serializedTransaction,
+            serializedContextFreeData: undefined,
+        });
+    });
+});
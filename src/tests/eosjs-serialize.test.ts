@@ -1,7 +1,7 @@
 const { TextEncoder, TextDecoder } = require('util');
 import { ec } from 'elliptic';
 
-import { createInitialTypes, Type, SerialBuffer } from '../eosjs-serialize';
+import { createInitialTypes, createTransactionTypes, getTypesFromAbi, Type, SerialBuffer } from '../eosjs-serialize';
 
 describe('Serialize', () => {
     let types: Map<string, Type>;
@@ -195,4 +195,20 @@ describe('Serialize', () => {
             shouldNotThrowErrorForValue(dataValue);
         });
     });
+
+    describe('extension', () => {
+        it('should deserialize extensions as the [type, data] pairs they are serialized from', () => {
+            const extensions = [[1, '0102'], [2, '']];
+            const serialBuffer = new SerialBuffer({
+                textEncoder: new TextEncoder(),
+                textDecoder: new TextDecoder()
+            });
+            const type = getTypesFromAbi(createTransactionTypes()).get('extension');
+
+            type.serialize(serialBuffer, extensions);
+
+            expect(serialBuffer.asUint8Array()).toEqual(new Uint8Array([2, 1, 0, 2, 1, 2, 2, 0, 0]));
+            expect(type.deserialize(serialBuffer)).toEqual(extensions);
+        });
+    });
 });
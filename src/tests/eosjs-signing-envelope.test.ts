@@ -0,0 +1,130 @@
+const { TextEncoder, TextDecoder } = require('util');
+import { Api } from '../eosjs-api';
+import { JsonRpc } from '../eosjs-jsonrpc';
+import { JsSignatureProvider } from '../eosjs-jssig';
+import { PrivateKey } from '../eosjs-key-conversions';
+import {
+    createSigningEnvelope,
+    decodeSigningEnvelope,
+    encodeSigningEnvelope,
+    previewSigningEnvelope,
+    SigningEnvelope,
+    signingEnvelopeFromJson,
+    signingEnvelopeToJson,
+    signSigningEnvelope,
+} from '../eosjs-signing-envelope';
+
+const privateKeys = [
+    '5Juww5SS6aLWxopXBAWzwqrwadiZKz7XpKAiktXTKcfBGi1DWg8',
+    '5JnHjSFwe4r7xyqAUAaVs51G7HmzE86DWGa3VAA5VvQriGYnSUr',
+];
+const [aliceKey, bobKey] = privateKeys.map((key) => PrivateKey.fromString(key).getPublicKey().toString());
+const chainId = '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca';
+const options = { textEncoder: new TextEncoder(), textDecoder: new TextDecoder() };
+
+const tokenAbi = {
+    version: 'eosio::abi/1.1',
+    types: [] as any[],
+    structs: [{
+        name: 'transfer',
+        base: '',
+        fields: [
+            { name: 'from', type: 'name' },
+            { name: 'to', type: 'name' },
+            { name: 'quantity', type: 'asset' },
+            { name: 'memo', type: 'string' },
+        ],
+    }],
+    actions: [{ name: 'transfer', type: 'transfer', ricardian_contract: '' }],
+    tables: [] as any[],
+    ricardian_clauses: [] as any[],
+    error_messages: [] as any[],
+    abi_extensions: [] as any[],
+    variants: [] as any[],
+    action_results: [] as any[],
+};
+
+const transfer = { from: 'alice', to: 'bob', quantity: '1.0000 EOS', memo: 'offline' };
+
+describe('signing envelope', () => {
+    let api: Api;
+    let envelope: SigningEnvelope;
+
+    beforeEach(async () => {
+        const rpc = new JsonRpc('');
+        api = new Api({ rpc, signatureProvider: new JsSignatureProvider([]), chainId, ...options });
+        const rawAbi = api.jsonToRawAbi(tokenAbi);
+        api.abiProvider = { getRawAbi: async (accountName: string) => ({ accountName, abi: rawAbi }) };
+        const { serializedTransaction } = await api.transact({
+            expiration: '2018-09-04T18:42:49',
+            ref_block_num: 38096,
+            ref_block_prefix: 505360011,
+            actions: [{
+                account: 'eosio.token',
+                name: 'transfer',
+                authorization: [{ actor: 'alice', permission: 'active' }, { actor: 'bob', permission: 'active' }],
+                data: transfer,
+            }],
+        }, { sign: false, broadcast: false }) as any;
+        envelope = await createSigningEnvelope(api, { serializedTransaction }, [aliceKey, bobKey]);
+    });
+
+    it('embeds the abis of the actions', () => {
+        expect(envelope.chainId).toBe(chainId);
+        expect(envelope.abis.map(({ accountName }) => accountName)).toEqual(['eosio.token']);
+        expect(envelope.signatures).toEqual([]);
+    });
+
+    it('round trips through the binary and JSON encodings', () => {
+        expect(decodeSigningEnvelope(encodeSigningEnvelope(envelope, options), options)).toEqual(envelope);
+
+        const json = JSON.parse(JSON.stringify(signingEnvelopeToJson(envelope, options)));
+        expect(json.version).toBe(1);
+        expect(signingEnvelopeFromJson(json, options)).toEqual(envelope);
+    });
+
+    it('rejects tampered envelopes', () => {
+        const encoded = encodeSigningEnvelope(envelope, options);
+        encoded[40] ^= 1;
+        expect(() => decodeSigningEnvelope(encoded, options)).toThrow('Signing envelope checksum mismatch');
+
+        const json = signingEnvelopeToJson(envelope, options);
+        json.requiredKeys = [aliceKey];
+        expect(() => signingEnvelopeFromJson(json, options)).toThrow('Signing envelope checksum mismatch');
+        expect(() => signingEnvelopeFromJson({ ...json, version: 2 }, options))
+            .toThrow('Unsupported signing envelope version 2');
+    });
+
+    it('previews the transaction with the embedded abis only', async () => {
+        const fetch = jest.fn();
+        global.fetch = fetch;
+
+        const preview = await previewSigningEnvelope(envelope, { chainId, ...options });
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(preview.transactionId).toMatch(/^[0-9a-f]{64}$/);
+        expect(preview.transaction.actions[0].data).toEqual(transfer);
+        expect(preview.signingKeys).toEqual([]);
+    });
+
+    it('refuses envelopes it cannot check', async () => {
+        await expect(previewSigningEnvelope(envelope, { chainId: 'ff'.repeat(32), ...options }))
+            .rejects.toThrow(`Signing envelope is for chain ${chainId}, expected ${'ff'.repeat(32)}`);
+        await expect(previewSigningEnvelope({ ...envelope, abis: [] }, options))
+            .rejects.toThrow('Signing envelope has no abi for eosio.token');
+
+        const raw = api.deserializeTransaction(envelope.serializedTransaction);
+        raw.actions[0].data += '00';
+        await expect(previewSigningEnvelope({ ...envelope, serializedTransaction: api.serializeTransaction(raw) }, options))
+            .rejects.toThrow('Data of action eosio.token::transfer does not match its decoded form');
+    });
+
+    it('signs with the required keys the provider holds', async () => {
+        const signedByAlice = await signSigningEnvelope(envelope, new JsSignatureProvider(privateKeys.slice(0, 1)), options);
+        const signed = await signSigningEnvelope(signedByAlice, new JsSignatureProvider(privateKeys), options);
+
+        expect(signedByAlice.signatures.length).toBe(1);
+        expect((await previewSigningEnvelope(signed, options)).signingKeys).toEqual([aliceKey, bobKey]);
+        expect(await signSigningEnvelope(signed, new JsSignatureProvider(privateKeys), options)).toBe(signed);
+    });
+});
@@ -0,0 +1,162 @@
+const { TextEncoder, TextDecoder } = require('util');
+import { Api } from '../eosjs-api';
+import { JsonRpc } from '../eosjs-jsonrpc';
+import { JsSignatureProvider } from '../eosjs-jssig';
+import { chainAliases, placeholderActor, placeholderPermission, SigningRequest } from '../eosjs-signing-request';
+
+const chainId = '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca';
+const options = { textEncoder: new TextEncoder(), textDecoder: new TextDecoder() };
+const signer = { actor: 'alice', permission: 'active' };
+const tapos = { expiration: '2018-09-04T18:42:49', ref_block_num: 38096, ref_block_prefix: 505360011 };
+
+const tokenAbi = {
+    version: 'eosio::abi/1.1',
+    types: [] as any[],
+    structs: [{
+        name: 'transfer',
+        base: '',
+        fields: [
+            { name: 'from', type: 'name' },
+            { name: 'to', type: 'name' },
+            { name: 'quantity', type: 'asset' },
+            { name: 'memo', type: 'string' },
+        ],
+    }],
+    actions: [{ name: 'transfer', type: 'transfer', ricardian_contract: '' }],
+    tables: [] as any[],
+    ricardian_clauses: [] as any[],
+    error_messages: [] as any[],
+    abi_extensions: [] as any[],
+    variants: [] as any[],
+    action_results: [] as any[],
+};
+
+const transfer = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [{ actor: placeholderActor, permission: placeholderPermission }],
+    data: { from: placeholderActor, to: 'bob', quantity: '1.0000 EOS', memo: placeholderActor },
+};
+
+describe('SigningRequest', () => {
+    let api: Api;
+
+    beforeEach(() => {
+        api = new Api({ rpc: new JsonRpc(''), signatureProvider: new JsSignatureProvider([]), chainId, ...options });
+        const rawAbi = api.jsonToRawAbi(tokenAbi);
+        api.abiProvider = { getRawAbi: async (accountName: string) => ({ accountName, abi: rawAbi }) };
+    });
+
+    it('encodes and decodes esr uris', async () => {
+        const request = await SigningRequest.create(api, {
+            action: transfer,
+            callback: 'https://example.com/{{tx}}',
+            background: true,
+            info: { note: 'hello' },
+        });
+
+        for (const uri of [request.encode(), request.encode(false), request.encode().replace('esr:', 'web+esr://')]) {
+            expect(uri).toMatch(/^(web\+)?esr:(\/\/)?[A-Za-z0-9_-]+$/);
+            const decoded = SigningRequest.from(uri, options);
+            expect(decoded.encode()).toBe(request.encode());
+            expect(decoded.getChainId()).toBe(chainId);
+            expect(decoded.broadcast).toBe(true);
+            expect(decoded.background).toBe(true);
+            expect(decoded.callback).toBe('https://example.com/{{tx}}');
+            expect(decoded.getInfo()).toEqual({ note: 'hello' });
+        }
+        expect(request.encode().length).toBeLessThan(request.encode(false).length);
+    });
+
+    it('refers to known chains by alias', async () => {
+        const request = await SigningRequest.create(api, { actions: [transfer], chainId: chainAliases[1] });
+
+        expect(request.data.chain_id).toEqual(['chain_alias', 1]);
+        expect(SigningRequest.from(request.encode(), options).getChainId()).toBe(chainAliases[1]);
+    });
+
+    it('resolves placeholders into a transaction for Api.transact', async () => {
+        const request = SigningRequest.from((await SigningRequest.create(api, { action: transfer })).encode(), options);
+
+        const resolved = await request.resolve(api, signer);
+
+        expect(resolved.transaction).toEqual({
+            actions: [{
+                account: 'eosio.token',
+                name: 'transfer',
+                authorization: [signer],
+                data: { from: 'alice', to: 'bob', quantity: '1.0000 EOS', memo: placeholderActor },
+            }],
+        });
+        const { serializedTransaction } = await api.transact({ ...resolved.transaction, ...tapos }, {
+            sign: false, broadcast: false,
+        }) as any;
+        expect(api.deserializeTransaction(serializedTransaction).actions[0].authorization).toEqual([signer]);
+    });
+
+    it('fills in the TAPoS of requested transactions', async () => {
+        const created = await SigningRequest.create(api, { transaction: { actions: [transfer], delay_sec: 10 } });
+        const request = SigningRequest.from(created.encode(), options);
+
+        const { transaction } = await request.resolve(api, signer, tapos);
+
+        expect(transaction).toMatchObject({ ...tapos, delay_sec: 10 });
+        expect(transaction.actions[0].data.from).toBe('alice');
+    });
+
+    it('resolves identity requests', async () => {
+        const request = await SigningRequest.create(api, { identity: {} });
+
+        const { transaction } = await request.resolve(api, signer);
+
+        expect(request.isIdentity()).toBe(true);
+        expect(request.broadcast).toBe(false);
+        expect(transaction).toEqual({
+            expiration: '1970-01-01T00:00:00',
+            ref_block_num: 0,
+            ref_block_prefix: 0,
+            actions: [{ account: '', name: 'identity', authorization: [signer], data: '010000000000855C3400000000A8ED3232' }],
+        });
+    });
+
+    it('substitutes the callback url', async () => {
+        const request = await SigningRequest.create(api, { action: transfer, callback: 'https://example.com/?tx={{tx}}&sa={{sa}}&bn={{bn}}' });
+        const resolved = await request.resolve(api, signer, tapos);
+        const serializedTransaction = api.serializeTransaction({
+            ...resolved.transaction,
+            actions: await api.serializeActions(resolved.transaction.actions),
+        });
+
+        const callback = resolved.getCallback({ signatures: ['SIG_K1_a', 'SIG_K1_b'], serializedTransaction }, 1234);
+
+        expect(callback.url).toMatch(/^https:\/\/example\.com\/\?tx=[0-9a-f]{64}&sa=alice&bn=1234$/);
+        expect(callback.background).toBe(false);
+        expect(callback.payload).toMatchObject({
+            sig: 'SIG_K1_a', sig0: 'SIG_K1_b', rbn: '38096', rid: '505360011', ex: `${tapos.expiration}.000`,
+            sp: 'active', cid: chainId, req: request.encode(),
+        });
+    });
+
+    it('passes additional signatures as sig0, sig1, ...', async () => {
+        const request = await SigningRequest.create(api, { action: transfer, callback: 'https://example.com/{{sig}}/{{sig0}}/{{sig1}}/{{sig2}}' });
+        const resolved = await request.resolve(api, signer, tapos);
+        const serializedTransaction = api.serializeTransaction({
+            ...resolved.transaction,
+            actions: await api.serializeActions(resolved.transaction.actions),
+        });
+
+        const callback = resolved.getCallback({ signatures: ['SIG_K1_a', 'SIG_K1_b', 'SIG_K1_c'], serializedTransaction });
+
+        expect(callback.url).toBe('https://example.com/SIG_K1_a/SIG_K1_b/SIG_K1_c/');
+        expect(callback.payload).toMatchObject({ sig: 'SIG_K1_a', sig0: 'SIG_K1_b', sig1: 'SIG_K1_c' });
+        expect(callback.payload).not.toHaveProperty('sig2');
+        expect(callback.payload).not.toHaveProperty('bn');
+    });
+
+    it('rejects malformed requests', async () => {
+        expect(() => SigningRequest.from('https://example.com', options)).toThrow('Invalid signing request uri');
+        expect(() => SigningRequest.from('esr:AQ', options)).toThrow('Unsupported signing request version 1');
+        await expect(SigningRequest.create(api, { action: transfer, actions: [transfer] }))
+            .rejects.toThrow('A signing request needs exactly one of action, actions, transaction or identity');
+    });
+});
@@ -0,0 +1,139 @@
+import { JsonRpc } from '../eosjs-jsonrpc';
+import { TransactionStatus, TransactionTracker } from '../eosjs-transaction-tracker';
+
+const transactionId = 'aa'.repeat(32);
+
+/** Chain whose head and last irreversible block advance by one block per `get_info` */
+const createChain = (includedIn: { [blockNum: number]: string } = {}) => {
+    const chain = { head: 10, lib: 5, ids: {} as { [blockNum: number]: string } };
+    const blockId = (blockNum: number) => chain.ids[blockNum] || `id${blockNum}`;
+    const rpc = new JsonRpc('');
+    rpc.get_info = jest.fn(async () => {
+        ++chain.head;
+        ++chain.lib;
+        return { head_block_num: chain.head, last_irreversible_block_num: chain.lib } as any;
+    });
+    rpc.get_block = jest.fn(async (blockNum: number) => ({
+        block_num: blockNum,
+        id: blockId(blockNum),
+        timestamp: new Date(Date.UTC(2020, 0, 1, 0, 0, 0, blockNum * 500)).toISOString().replace('Z', ''),
+        transactions: includedIn[blockNum] === blockId(blockNum)
+            ? [{ status: 'executed', trx: { id: transactionId } }, { status: 'executed', trx: 'bb'.repeat(32) }]
+            : [],
+    } as any));
+    rpc.get_block_info = jest.fn(async (blockNum: number) => ({ block_num: blockNum, id: blockId(blockNum) } as any));
+    return { chain, rpc };
+};
+
+describe('TransactionTracker', () => {
+    it('follows the transaction until it is irreversible', async () => {
+        const { rpc } = createChain({ 9: 'id9' });
+        const tracker = new TransactionTracker(rpc, transactionId, { blockNum: 8, pollInterval: 0 });
+        const states: string[] = [];
+        tracker.on('change', (status) => states.push(status.state));
+        const inBlock = jest.fn();
+        tracker.on('in-block', inBlock);
+
+        const status = await tracker.wait('irreversible');
+
+        expect(states).toEqual(['in-block', 'irreversible']);
+        expect(inBlock).toHaveBeenCalledWith(expect.objectContaining({ blockNum: 9, blockId: 'id9' }));
+        expect(status).toEqual({
+            transactionId,
+            state: 'irreversible',
+            blockNum: 9,
+            blockId: 'id9',
+            headBlockNum: 14,
+            lastIrreversibleBlockNum: 9,
+        });
+        expect((rpc.get_block as jest.Mock).mock.calls.map(([blockNum]) => blockNum)).toEqual([8, 9]);
+    });
+
+    it('resolves once in a block for finality in-block', async () => {
+        const { rpc } = createChain({ 11: 'id11' });
+        const tracker = new TransactionTracker(rpc, transactionId, { pollInterval: 0 });
+
+        const status = await tracker.wait('in-block');
+
+        expect(status.state).toBe('in-block');
+        expect(status.blockNum).toBe(11);
+        tracker.stop();
+    });
+
+    it('searches from the reference block without a block number', async () => {
+        const { rpc } = createChain({ 7: 'id7' });
+        const tracker = new TransactionTracker(rpc, transactionId, { refBlockNum: 7, pollInterval: 0 });
+
+        await tracker.poll();
+
+        expect(tracker.status.state).toBe('in-block');
+        expect((rpc.get_block as jest.Mock).mock.calls[0][0]).toBe(7);
+    });
+
+    it('reports a forked out block and finds the transaction again', async () => {
+        const { chain, rpc } = createChain({ 9: 'id9', 10: 'fork10' });
+        const tracker = new TransactionTracker(rpc, transactionId, { blockNum: 9, pollInterval: 0 });
+        const states: TransactionStatus[] = [];
+        tracker.on('change', (status) => states.push(status));
+
+        await tracker.poll();
+        chain.ids[9] = 'fork9';
+        await tracker.poll();
+        chain.ids[10] = 'fork10';
+        await tracker.poll();
+
+        expect(states.map(({ state, blockId }) => [state, blockId])).toEqual([
+            ['in-block', 'id9'],
+            ['forked-out', undefined],
+            ['in-block', 'fork10'],
+        ]);
+    });
+
+    it('rejects once blocks past the expiration do not include the transaction', async () => {
+        const { rpc } = createChain();
+        const tracker = new TransactionTracker(rpc, transactionId, {
+            blockNum: 8,
+            expiration: '2020-01-01T00:00:05',
+            pollInterval: 0,
+        });
+        const expired = jest.fn();
+        tracker.on('expired', expired);
+
+        await expect(tracker.wait()).rejects.toThrow(`Transaction ${transactionId} expired`);
+        expect(expired).toHaveBeenCalled();
+        expect((rpc.get_block as jest.Mock).mock.calls.map(([blockNum]) => blockNum)).toEqual([8, 9, 10, 11]);
+    });
+
+    it('keeps polling after failed calls', async () => {
+        const { rpc } = createChain({ 9: 'id9' });
+        const getInfo = rpc.get_info;
+        rpc.get_info = jest.fn().mockRejectedValueOnce(new Error('unreachable')).mockImplementation(getInfo);
+        const tracker = new TransactionTracker(rpc, transactionId, { blockNum: 9, pollInterval: 0 });
+
+        const status = await tracker.wait('in-block');
+
+        expect(status.state).toBe('in-block');
+        expect(rpc.get_info).toHaveBeenCalledTimes(2);
+        tracker.stop();
+    });
+
+    it('rejects after the timeout', async () => {
+        const { rpc } = createChain();
+        const tracker = new TransactionTracker(rpc, transactionId, { blockNum: 8, pollInterval: 5 });
+
+        await expect(tracker.wait('irreversible', 20)).rejects.toThrow(`not irreversible after 20 ms`);
+        tracker.stop();
+    });
+
+    it('rejects pending waits when stopped', async () => {
+        const { rpc } = createChain();
+        const tracker = new TransactionTracker(rpc, transactionId, { blockNum: 8, pollInterval: 5 });
+        const waiting = tracker.wait('in-block');
+
+        tracker.stop();
+
+        await expect(waiting).rejects.toThrow(`Stopped tracking transaction ${transactionId} while accepted`);
+        await tracker.start();
+        expect(tracker.status.state).toEqual('accepted');
+    });
+});
@@ -0,0 +1,109 @@
+const { TextEncoder, TextDecoder } = require('util');
+import { Api } from '../eosjs-api';
+import { JsonRpc } from '../eosjs-jsonrpc';
+import { JsSignatureProvider } from '../eosjs-jssig';
+import { PrivateKey } from '../eosjs-key-conversions';
+import { verifyTransaction } from '../eosjs-transaction-verifier';
+
+const privateKeys = [
+    '5Juww5SS6aLWxopXBAWzwqrwadiZKz7XpKAiktXTKcfBGi1DWg8',
+    '5JnHjSFwe4r7xyqAUAaVs51G7HmzE86DWGa3VAA5VvQriGYnSUr',
+    '5K4XZH5XR2By7Q5KTcZnPAmUMU5yjUNBdoKzzXyrLfmiEZJqoKE',
+];
+const [aliceKey, bobKey, otherKey] = privateKeys.map((key) => PrivateKey.fromString(key).getPublicKey().toString());
+const chainId = '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca';
+
+const account = (key: string) => {
+    const required_auth = { threshold: 1, keys: [{ key, weight: 1 }], accounts: [] as any[], waits: [] as any[] };
+    const linked_actions: any[] = [];
+    return {
+        permissions: [
+            { perm_name: 'owner', parent: '', required_auth, linked_actions },
+            { perm_name: 'active', parent: 'owner', required_auth, linked_actions },
+        ],
+    };
+};
+
+describe('verifyTransaction', () => {
+    let api: Api;
+
+    const sign = async (actors: string[], keys: string[]) => {
+        const serializedTransaction = api.serializeTransaction({
+            expiration: '2018-09-04T18:42:49',
+            ref_block_num: 38096,
+            ref_block_prefix: 505360011,
+            actions: actors.map((actor) => ({
+                account: 'eosio.null',
+                name: 'nonce',
+                authorization: [{ actor, permission: 'active' }],
+                data: '',
+            })),
+            context_free_actions: [],
+            transaction_extensions: [],
+        });
+        return api.signatureProvider.sign({ chainId, requiredKeys: keys, serializedTransaction, abis: [] });
+    };
+
+    beforeEach(() => {
+        const rpc = new JsonRpc('');
+        rpc.get_account = jest.fn(async (name: string) => account(name === 'alice' ? aliceKey : bobKey) as any);
+        api = new Api({
+            rpc,
+            signatureProvider: new JsSignatureProvider(privateKeys),
+            chainId,
+            textEncoder: new TextEncoder(),
+            textDecoder: new TextDecoder(),
+        });
+    });
+
+    it('accepts a transaction signed by the keys of every authorization', async () => {
+        const result = await verifyTransaction(api, await sign(['alice', 'bob'], [aliceKey, bobKey]));
+
+        expect(result.valid).toBe(true);
+        expect(result.recoveredKeys).toEqual([aliceKey, bobKey]);
+        expect(result.authorizations.map(({ action, authorization, satisfied, explanation }) =>
+            [action, authorization.actor, satisfied, explanation.keys])).toEqual([
+            ['eosio.null::nonce', 'alice', true, [aliceKey]],
+            ['eosio.null::nonce', 'bob', true, [bobKey]],
+        ]);
+        expect(result.unusedKeys).toEqual([]);
+        expect(result.errors).toEqual([]);
+    });
+
+    it('reports unsatisfied authorizations and unused keys', async () => {
+        const result = await verifyTransaction(api, await sign(['alice', 'bob'], [aliceKey, otherKey]));
+
+        expect(result.valid).toBe(false);
+        expect(result.authorizations[1]).toEqual({
+            action: 'eosio.null::nonce',
+            authorization: { actor: 'bob', permission: 'active' },
+            satisfied: false,
+            error: 'Keys do not satisfy bob@active for eosio.null::nonce',
+        });
+        expect(result.unusedKeys).toEqual([otherKey]);
+    });
+
+    it('recovers different keys for another chain', async () => {
+        const args = await sign(['alice'], [aliceKey]);
+
+        const result = await verifyTransaction(api, args, { chainId: 'ff'.repeat(32) });
+
+        expect(result.valid).toBe(false);
+        expect(result.recoveredKeys).not.toEqual([aliceKey]);
+    });
+
+    it('reports signatures which cannot be recovered and duplicates', async () => {
+        const args = await sign(['alice'], [aliceKey, aliceKey]);
+        args.signatures.push('SIG_K1_invalid');
+
+        const result = await verifyTransaction(api, args);
+
+        expect(result.valid).toBe(false);
+        expect(result.authorizations[0].satisfied).toBe(true);
+        expect(result.recoveredKeys).toEqual([aliceKey, aliceKey, undefined]);
+        expect(result.errors).toEqual([
+            expect.stringMatching(/^Signature 2 can not be recovered: /),
+            `Duplicate signature by ${aliceKey}`,
+        ]);
+    });
+});